@@ -8,6 +8,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
+import { SoloAdapter, type SoloHealth } from '@fleettools/core';
 import { 
   loadGlobalConfig, 
   loadProjectConfig, 
@@ -16,7 +17,8 @@ import {
   commandExists,
   checkHealth,
   readServiceState,
-  isPidAlive
+  isPidAlive,
+  getSoloAdapterOptions
 } from '@fleettools/shared';
 
 export function registerDoctorCommand(program: Command): void {
@@ -62,6 +64,7 @@ export function registerDoctorCommand(program: Command): void {
             podman: { available: false, version: '' },
             docker: { available: false, version: '' }
           },
+          solo: null as SoloHealth | null,
           recommendations: [] as string[],
           critical: [] as string[]
         };
@@ -206,6 +209,27 @@ export function registerDoctorCommand(program: Command): void {
           console.log(`  OpenCode: ${projectConfig.plugins.openCode ? '✅' : '❌'}`);
           console.log();
 
+          // Check Solo, which backs task orchestration
+          console.log(chalk.blue('Checking Solo...'));
+          let solo: SoloHealth;
+          try {
+            solo = await new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }).checkHealth();
+          } catch (error: any) {
+            solo = { ok: false, backend: 'cli', error: error.message };
+          }
+          diagnostics.solo = solo;
+          console.log(`  ${solo.ok ? '✅' : '❌'} Solo (${solo.backend}): ${solo.ok ? 'reachable' : solo.error}`);
+          if (solo.circuit && solo.circuit.status !== 'closed') {
+            const retry = solo.circuit.retryAfterMs !== undefined ? `, retry in ${Math.ceil(solo.circuit.retryAfterMs / 1000)}s` : '';
+            console.log(`  ⚠️  Circuit ${solo.circuit.status} after ${solo.circuit.consecutiveFailures} consecutive failures${retry}`);
+          }
+          if (!solo.ok) {
+            diagnostics.recommendations.push(solo.code === 'SOLO_BINARY_MISSING'
+              ? 'Install the solo CLI, or set "solo.backend: fake" in fleet.yaml to work without it'
+              : 'Check that Solo is reachable; "fleet run" and "fleet tasks" need it');
+          }
+          console.log();
+
         } else {
           diagnostics.project.detected = false;
           console.log('  ⚠️  Not in a FleetTools project');
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { HarnessRegistry } from '@fleettools/core';
+import { createHarnessRegistry } from '@fleettools/core';
+import { findProjectRoot, loadRoutingConfig } from '@fleettools/shared';
 
 export function registerHarnessCommands(program: Command): void {
   const harnesses = program.command('harnesses').description('Inspect configured orchestration harnesses');
@@ -10,7 +11,8 @@ export function registerHarnessCommands(program: Command): void {
     .description('Show harness availability')
     .option('--json', 'Output in JSON format')
     .action(async (options: { json?: boolean }) => {
-      const registry = new HarnessRegistry();
+      const config = loadRoutingConfig(findProjectRoot(process.cwd()));
+      const registry = createHarnessRegistry(config.harnesses);
       const availability = await registry.getAvailability();
 
       if (options.json) {
@@ -1,16 +1,73 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { Orchestrator, resolveHarnessRoute, SoloAdapter } from '@fleettools/core';
-import { findProjectRoot, loadRoutingConfig } from '@fleettools/shared';
+import {
+  explainRoute,
+  followRunLog,
+  readRunContext,
+  Orchestrator,
+  ProjectionStore,
+  resolveHarnessRoute,
+  SoloAdapter,
+  summarizeHarnessLoad,
+  TaskDispatcher,
+  type AssembledContext,
+  type FileScopeReport,
+  type HarnessId,
+  type HarnessPolicy,
+  type HarnessProgressEvent,
+  RUN_STATS_GROUP_BY,
+  type HarnessUsage,
+  type OrchestrationRunRecord,
+  type RunStatsGroup,
+  type RunInjectionCheck,
+  type RunStatsGroupBy,
+  type RunStatus,
+  type VerificationResult,
+} from '@fleettools/core';
+import { findProjectRoot, getSoloAdapterOptions, loadRoutingConfig } from '@fleettools/shared';
+import { printExplanation } from './rules.js';
+
+interface RunCommandOptions {
+  harness?: HarnessId;
+  chain?: boolean;
+  maxHops?: string;
+  all?: boolean;
+  concurrency?: string;
+  maxPerHarness?: string[];
+  maxTasks?: string;
+  approveFlagged?: boolean;
+  json?: boolean;
+}
+
+interface RunsCommandOptions {
+  task?: string;
+  harness?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  limit: string;
+  page: string;
+  json?: boolean;
+}
+
+interface RunsStatsCommandOptions {
+  by: string;
+  task?: string;
+  harness?: string;
+  since?: string;
+  until?: string;
+  json?: boolean;
+}
 
 export function registerOrchestrationCommands(program: Command): void {
   program
     .command('route <taskId>')
     .description('Preview which harness FleetTools would select for a Solo task')
+    .option('--explain', 'List the rules checked before the match and the conditions they failed')
     .option('--json', 'Output in JSON format')
-    .action(async (taskId: string, options: { json?: boolean }) => {
+    .action(async (taskId: string, options: { explain?: boolean; json?: boolean }) => {
       const projectRoot = findProjectRoot(process.cwd());
-      const adapter = new SoloAdapter({ cwd: projectRoot });
+      const adapter = new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) });
       const task = await adapter.showTask(taskId);
       const config = loadRoutingConfig(projectRoot);
       const normalizedTask = {
@@ -24,10 +81,16 @@ export function registerOrchestrationCommands(program: Command): void {
         status: typeof task.status === 'string' ? task.status : undefined,
         affectedFiles: Array.isArray(task.affected_files) ? task.affected_files.map(value => String(value)) : [],
       };
-      const decision = resolveHarnessRoute(normalizedTask, config);
+      const load = summarizeHarnessLoad(new ProjectionStore(projectRoot).list());
+      const decision = resolveHarnessRoute(normalizedTask, config, load);
+      const explanation = options.explain ? explainRoute(normalizedTask, config, load) : undefined;
 
       if (options.json) {
-        console.log(JSON.stringify({ task: normalizedTask, decision }, null, 2));
+        console.log(JSON.stringify({
+          task: normalizedTask,
+          decision,
+          ...(explanation ? { evaluations: explanation.evaluations } : {}),
+        }, null, 2));
         return;
       }
 
@@ -36,21 +99,76 @@ export function registerOrchestrationCommands(program: Command): void {
       console.log(`Rule: ${decision.selection.ruleId}`);
       console.log(`Reason: ${decision.selection.reason}`);
       console.log(`Timeout: ${decision.timeoutMs}ms`);
+      if (decision.fallback.length > 0) {
+        console.log(`Fallback: ${decision.fallback.join(' → ')}`);
+        console.log(`Fallback on: unavailable${decision.fallbackOn.length > 0 ? `, ${decision.fallbackOn.join(', ')}` : ''}`);
+      }
+      if (decision.retry) {
+        console.log(`Retry: up to ${decision.retry.max_attempts} attempts on ${decision.retry.retry_on.join(', ')}`);
+      }
+      if (decision.onScopeViolation) {
+        console.log(`On scope violation: ${decision.onScopeViolation}`);
+      }
+      console.log(`Policy: ${formatPolicy(decision.policy)}`);
+      if (explanation) {
+        console.log('');
+        printExplanation(explanation);
+      }
     });
 
   program
-    .command('run <taskId>')
+    .command('run [taskId]')
     .description('Run a Solo task through the FleetTools orchestrator')
     .option('--harness <harness>', 'Override routing and force a specific harness')
+    .option('--chain', 'Launch the next worker automatically when a harness hands off')
+    .option('--max-hops <number>', 'Maximum handoff hops with --chain')
+    .option('--all', 'Dispatch every available Solo task until the backlog drains')
+    .option('--concurrency <number>', 'Maximum runs in flight with --all')
+    .option('--max-per-harness <harness=limit...>', 'Per-harness in-flight cap with --all')
+    .option('--max-tasks <number>', 'Stop dispatching after this many tasks with --all')
+    .option('--approve-flagged', 'Run a task held for approval by the injection policy')
     .option('--json', 'Output in JSON format')
-    .action(async (taskId: string, options: { harness?: 'claude-code' | 'opencode' | 'codex'; json?: boolean }) => {
+    .action(async (taskId: string | undefined, options: RunCommandOptions) => {
       const projectRoot = findProjectRoot(process.cwd());
+      const solo = new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) });
+      const routingConfig = loadRoutingConfig(projectRoot);
       const orchestrator = new Orchestrator({
-        solo: new SoloAdapter({ cwd: projectRoot }),
-        routingConfig: loadRoutingConfig(projectRoot),
+        solo,
+        routingConfig,
         projectRoot,
       });
-      const result = await orchestrator.runTask(taskId, { harnessOverride: options.harness });
+
+      if (options.all) {
+        if (taskId || options.harness || options.approveFlagged) {
+          console.error(chalk.red('❌ --all cannot be combined with a task id, --harness or --approve-flagged'));
+          process.exit(1);
+        }
+        await runAll(new TaskDispatcher({ orchestrator, solo, routingConfig }), options);
+        return;
+      }
+
+      if (!taskId) {
+        console.error(chalk.red('❌ Task id is required unless --all is set'));
+        process.exit(1);
+      }
+
+      // Ctrl-C cancels the run: the harness is stopped and the Solo session ends as interrupted.
+      const controller = new AbortController();
+      const cancel = () => controller.abort();
+      process.once('SIGINT', cancel);
+      process.once('SIGTERM', cancel);
+
+      const result = await orchestrator.runTask(taskId, {
+        harnessOverride: options.harness,
+        chain: options.chain,
+        maxHops: options.maxHops ? parsePositiveInt(options.maxHops, '--max-hops') : undefined,
+        approveFlagged: options.approveFlagged,
+        onProgress: options.json ? undefined : (_runId, event) => printProgress(event),
+        signal: controller.signal,
+      }).finally(() => {
+        process.off('SIGINT', cancel);
+        process.off('SIGTERM', cancel);
+      });
 
       if (options.json) {
         console.log(JSON.stringify({ run: result }, null, 2));
@@ -67,37 +185,405 @@ export function registerOrchestrationCommands(program: Command): void {
       if (result.worktreePath) {
         console.log(`Worktree: ${result.worktreePath}`);
       }
+      if (result.logFile) {
+        console.log(`Log: ${result.logFile}`);
+      }
       if (result.summary) {
         console.log(`Summary: ${result.summary}`);
       }
+      if (result.usage || result.durationMs !== undefined) {
+        console.log(`Usage: ${formatUsage(result.usage, result.durationMs)}`);
+      }
+      if (result.verification) {
+        printVerification(result.verification);
+      }
+      if (result.injection) {
+        printInjectionCheck(result.injection);
+      }
+      if (result.resultValidation) {
+        const { errors, repaired, repairErrors } = result.resultValidation;
+        const outcome = repaired === undefined ? '' : repaired ? ' (repaired)' : ' (repair failed)';
+        console.log(chalk.yellow(`Invalid harness result${outcome}:`));
+        for (const error of [...errors, ...(repairErrors ?? []).map(error => `repair: ${error}`)]) {
+          console.log(chalk.yellow(`  ${error}`));
+        }
+      }
+      if (result.scope) {
+        printScopeReport(result.scope);
+      }
+      if (result.reservation && result.reservation.renewals.length > 0) {
+        const renewals = result.reservation.renewals;
+        const failed = renewals.find(renewal => !renewal.ok);
+        console.log(failed
+          ? chalk.red(`Reservation: renewal failed (${failed.error})`)
+          : chalk.gray(`Reservation: renewed ${renewals.length} time${renewals.length === 1 ? '' : 's'}, expires ${result.reservation.expiresAt}`));
+      }
+      for (const attempt of result.attempts ?? []) {
+        const detail = attempt.failureClass ?? attempt.reason;
+        const retry = attempt.attempt !== undefined ? ` #${attempt.attempt}` : '';
+        console.log(chalk.gray(`  Attempt: ${attempt.harness}${retry} ${attempt.status}${detail ? ` (${detail})` : ''}`));
+      }
+      if (result.parentRunId) {
+        console.log(`Handoff hop: ${result.hop} (parent run ${result.parentRunId})`);
+      }
+      if (result.nextWorker && result.status === 'handoff') {
+        console.log(`Next worker: ${result.nextWorker}`);
+      }
+      if (result.chainStopReason) {
+        console.log(chalk.yellow(`Chain stopped: ${result.chainStopReason}`));
+      }
     });
 
-  program
+  const runs = program
     .command('runs')
-    .description('List local orchestration run projections')
+    .description('List local orchestration runs, newest first')
+    .option('--task <taskId>', 'Only runs for this task')
+    .option('--harness <harness>', 'Only runs on this harness')
+    .option('--status <statuses>', 'Only runs in these statuses (comma-separated)')
+    .option('--since <time>', 'Only runs started at or after this time')
+    .option('--until <time>', 'Only runs started at or before this time')
+    .option('--limit <number>', 'Runs per page', '20')
+    .option('--page <number>', 'Page to show', '1')
     .option('--json', 'Output in JSON format')
-    .action((options: { json?: boolean }) => {
+    .action((options: RunsCommandOptions) => {
       const projectRoot = findProjectRoot(process.cwd());
       const orchestrator = new Orchestrator({
-        solo: new SoloAdapter({ cwd: projectRoot }),
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
         routingConfig: loadRoutingConfig(projectRoot),
         projectRoot,
       });
-      const runs = orchestrator.listRuns();
+      const limit = parsePositiveInt(options.limit, '--limit');
+      const page = orchestrator.queryRuns({
+        taskId: options.task,
+        harness: options.harness,
+        status: options.status ? options.status.split(',').map(status => status.trim() as RunStatus) : undefined,
+        since: options.since ? parseTimestamp(options.since, '--since') : undefined,
+        until: options.until ? parseTimestamp(options.until, '--until') : undefined,
+        limit,
+        offset: (parsePositiveInt(options.page, '--page') - 1) * limit,
+      });
 
       if (options.json) {
-        console.log(JSON.stringify({ runs }, null, 2));
+        console.log(JSON.stringify(page, null, 2));
         return;
       }
 
-      if (runs.length === 0) {
-        console.log(chalk.yellow('No orchestration runs recorded yet.'));
+      if (page.total === 0) {
+        console.log(chalk.yellow('No matching orchestration runs found.'));
         return;
       }
 
       console.log(chalk.blue.bold('Orchestration Runs'));
-      for (const run of runs) {
-        console.log(`- ${run.runId} ${chalk.gray(run.taskId)} ${run.harness} ${run.status}`);
+      for (const run of page.runs) {
+        console.log(`- ${run.runId} ${chalk.gray(run.taskId)} ${run.harness} ${run.status} ${chalk.gray(run.startedAt)}`);
+      }
+      const first = page.runs.length > 0 ? page.offset + 1 : 0;
+      console.log(chalk.gray(`Showing ${first}-${page.offset + page.runs.length} of ${page.total}`));
+    });
+
+  runs
+    .command('logs <runId>')
+    .description('Print the harness output captured for a run')
+    .option('-f, --follow', 'Keep streaming output until the run finishes')
+    .action(async (runId: string, options: { follow?: boolean }) => {
+      try {
+        await followRunLog(findProjectRoot(process.cwd()), runId, {
+          follow: options.follow ?? false,
+          onChunk: chunk => process.stdout.write(chunk),
+        });
+      } catch (error) {
+        console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+
+  runs
+    .command('context <runId>')
+    .description('Show the context assembled into a run\'s prompt')
+    .option('--json', 'Output in JSON format')
+    .action((runId: string, _options: { json?: boolean }, command: Command) => {
+      const options = command.optsWithGlobals<{ json?: boolean }>();
+      const context = readRunContext(findProjectRoot(process.cwd()), runId);
+      if (!context) {
+        console.error(chalk.red(`❌ No assembled context recorded for run ${runId}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(context, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`Context for ${runId}`));
+      printContextSummary(context);
+      for (const section of context.sections) {
+        console.log('');
+        console.log(chalk.gray(`── ${section.kind}: ${section.source}${section.truncated ? ' (truncated)' : ''}`));
+        console.log(section.content);
+      }
+    });
+
+  runs
+    .command('stats')
+    .description('Aggregate run outcomes, tokens, cost and duration')
+    .option('--by <dimension>', `Group by ${RUN_STATS_GROUP_BY.join(', ')}`, 'harness')
+    .option('--task <taskId>', 'Only runs for this task')
+    .option('--harness <harness>', 'Only runs on this harness')
+    .option('--since <time>', 'Only runs started at or after this time')
+    .option('--until <time>', 'Only runs started at or before this time')
+    .option('--json', 'Output in JSON format')
+    .action((_options: RunsStatsCommandOptions, command: Command) => {
+      // Flags shared with `runs` are parsed by the parent command.
+      const options = command.optsWithGlobals<RunsStatsCommandOptions>();
+      if (!RUN_STATS_GROUP_BY.includes(options.by as RunStatsGroupBy)) {
+        console.error(chalk.red(`❌ --by must be one of: ${RUN_STATS_GROUP_BY.join(', ')}`));
+        process.exit(1);
+      }
+
+      const projectRoot = findProjectRoot(process.cwd());
+      const orchestrator = new Orchestrator({
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: loadRoutingConfig(projectRoot),
+        projectRoot,
+      });
+      const stats = orchestrator.runStats(options.by as RunStatsGroupBy, {
+        taskId: options.task,
+        harness: options.harness,
+        since: options.since ? parseTimestamp(options.since, '--since') : undefined,
+        until: options.until ? parseTimestamp(options.until, '--until') : undefined,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
       }
+
+      if (stats.totals.runs === 0) {
+        console.log(chalk.yellow('No finished orchestration runs found.'));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`Run Stats by ${stats.groupBy}`));
+      for (const group of stats.groups) {
+        printStatsGroup(group);
+      }
+      printStatsGroup(stats.totals);
     });
+
+  runs
+    .command('cancel <runId>')
+    .description('Stop an in-flight run and end its Solo session as interrupted')
+    .option('--grace <ms>', 'Time the harness gets to exit after SIGTERM before SIGKILL')
+    .option('--json', 'Output in JSON format')
+    .action(async (runId: string, _options: unknown, command: Command) => {
+      const options = command.optsWithGlobals<{ grace?: string; json?: boolean }>();
+      const projectRoot = findProjectRoot(process.cwd());
+      const orchestrator = new Orchestrator({
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: loadRoutingConfig(projectRoot),
+        projectRoot,
+      });
+
+      try {
+        const run = await orchestrator.cancelRun(runId, {
+          graceMs: options.grace ? parsePositiveInt(options.grace, '--grace') : undefined,
+        });
+        if (options.json) {
+          console.log(JSON.stringify({ run }, null, 2));
+          return;
+        }
+        console.log(chalk.green(`✓ Run ${run.runId} cancelled`));
+      } catch (error) {
+        console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+}
+
+function printStatsGroup(group: RunStatsGroup): void {
+  const outcomes = [`${group.completed} completed`, `${group.failed} failed`];
+  if (group.handoff > 0) outcomes.push(`${group.handoff} handoff`);
+  if (group.cancelled > 0) outcomes.push(`${group.cancelled} cancelled`);
+
+  console.log(`${group.key === 'total' ? chalk.bold(group.key) : group.key}: ${group.runs} run(s), ${Math.round(group.successRate * 100)}% success`);
+  console.log(chalk.gray(`  ${outcomes.join(', ')}`));
+  console.log(chalk.gray(`  Tokens: ${group.totalTokens.toLocaleString('en-US')} (${group.inputTokens.toLocaleString('en-US')} in, ${group.outputTokens.toLocaleString('en-US')} out) from ${group.runsWithUsage} run(s) reporting usage`));
+  console.log(chalk.gray(`  Cost: $${group.costUsd.toFixed(2)}${group.avgCostUsd !== undefined ? `, avg $${group.avgCostUsd.toFixed(2)}/run` : ''}`));
+  if (group.avgDurationMs !== undefined) {
+    console.log(chalk.gray(`  Duration: ${formatDuration(group.durationMs)}, avg ${formatDuration(group.avgDurationMs)}/run`));
+  }
+}
+
+function formatUsage(usage: HarnessUsage | undefined, durationMs: number | undefined): string {
+  const parts: string[] = [];
+  if (usage?.totalTokens !== undefined) {
+    const split = usage.inputTokens !== undefined && usage.outputTokens !== undefined
+      ? ` (${usage.inputTokens.toLocaleString('en-US')} in, ${usage.outputTokens.toLocaleString('en-US')} out)`
+      : '';
+    parts.push(`${usage.totalTokens.toLocaleString('en-US')} tokens${split}`);
+  }
+  if (usage?.costUsd !== undefined) parts.push(`$${usage.costUsd.toFixed(2)}`);
+  if (durationMs !== undefined) parts.push(formatDuration(durationMs));
+  return parts.join(', ');
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function printVerification(verification: VerificationResult): void {
+  const color = verification.ok ? chalk.green : chalk.red;
+  console.log(`Verification: ${color(verification.ok ? 'passed' : 'failed')}`);
+  for (const check of verification.checks) {
+    const mark = check.ok ? chalk.green('✓') : chalk.red('✗');
+    console.log(`  ${mark} ${check.name}${check.command ? ` ${chalk.gray(check.command)}` : ''}`);
+    if (!check.ok && check.output) {
+      console.log(chalk.gray(check.output.split('\n').map(line => `    ${line}`).join('\n')));
+    }
+  }
+}
+
+function printProgress(event: HarnessProgressEvent): void {
+  const firstLine = event.text.split('\n')[0] ?? '';
+  console.log(chalk.gray(`  ${event.kind === 'tool_use' ? '⚙' : '·'} ${firstLine}`));
+}
+
+async function runAll(dispatcher: TaskDispatcher, options: RunCommandOptions): Promise<void> {
+  // The first signal stops new dispatches, the second cancels the runs in
+  // flight, and a third falls through to the default and exits.
+  const stopping = new AbortController();
+  const cancelling = new AbortController();
+  const stop = () => {
+    if (!stopping.signal.aborted) {
+      stopping.abort();
+      if (!options.json) console.log(chalk.yellow('Stopping: waiting for runs in flight (press Ctrl-C again to cancel them)'));
+      return;
+    }
+    cancelling.abort();
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  try {
+    const summary = await dispatcher.dispatch({
+      ...(options.concurrency ? { concurrency: parsePositiveInt(options.concurrency, '--concurrency') } : {}),
+      maxPerHarness: parseHarnessLimits(options.maxPerHarness ?? []),
+      ...(options.maxTasks ? { maxTasks: parsePositiveInt(options.maxTasks, '--max-tasks') } : {}),
+      signal: stopping.signal,
+      cancelSignal: cancelling.signal,
+      ...(options.json ? {} : {
+        onRunStarted: (taskId: string, harness: HarnessId) => {
+          console.log(chalk.gray(`→ ${taskId} on ${harness}`));
+        },
+        onRunFinished: (run: OrchestrationRunRecord) => {
+          const color = run.status === 'completed' ? chalk.green : run.status === 'failed' ? chalk.red : chalk.yellow;
+          console.log(`${color('✓')} ${run.taskId} ${run.harness} ${color(run.status)}`);
+        },
+      }),
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify({ summary }, null, 2));
+      return;
+    }
+
+    console.log('');
+    console.log(chalk.blue.bold('Dispatch Summary'));
+    console.log(`Stopped: ${summary.stoppedBy}`);
+    console.log(`Dispatched: ${summary.dispatched}`);
+    for (const [status, count] of Object.entries(summary.byStatus)) {
+      console.log(`  ${status}: ${count}`);
+    }
+    for (const [harness, count] of Object.entries(summary.byHarness)) {
+      console.log(`  ${chalk.gray(harness)}: ${count}`);
+    }
+    for (const entry of summary.errors) {
+      console.log(chalk.red(`  ✗ ${entry.taskId ? `${entry.taskId} (${entry.harness}): ` : ''}${entry.error}`));
+    }
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  }
+}
+
+function parsePositiveInt(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function parseTimestamp(value: string, flag: string): string {
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${flag} must be a date or ISO timestamp`);
+  }
+  return new Date(parsed).toISOString();
+}
+
+function parseHarnessLimits(entries: string[]): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of entries) {
+    const [harness, limit] = entry.split('=');
+    if (!harness || !limit) {
+      throw new Error(`--max-per-harness expects harness=limit, got '${entry}'`);
+    }
+    limits[harness] = parsePositiveInt(limit, `--max-per-harness ${harness}`);
+  }
+  return limits;
+}
+
+export function printContextSummary(context: AssembledContext): void {
+  const counts = new Map<string, number>();
+  for (const section of context.sections) {
+    counts.set(section.kind, (counts.get(section.kind) ?? 0) + 1);
+  }
+  const parts = Array.from(counts, ([kind, count]) => `${count} ${kind}`);
+  console.log(`Context: ${context.tokens}/${context.budgetTokens} tokens${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`);
+  for (const entry of context.omitted) {
+    console.log(chalk.yellow(`  Omitted ${entry.source}: ${entry.reason}`));
+  }
+}
+
+function printScopeReport(scope: FileScopeReport): void {
+  if (scope.error) {
+    console.log(chalk.yellow(`Scope: not checked (${scope.error})`));
+    return;
+  }
+  const color = scope.ok ? chalk.gray : scope.policy === 'fail' ? chalk.red : chalk.yellow;
+  console.log(color(`Scope: ${scope.changed.length} changed file${scope.changed.length === 1 ? '' : 's'}${scope.ok ? '' : ` (${scope.policy === 'fail' ? 'failed' : 'flagged'})`}`));
+  const lines: Array<[string, string[]]> = [
+    ['Out of scope', scope.outOfScope],
+    ['Outside the worktree', scope.outsideWorktree],
+    ['Changed but not reported', scope.unreported],
+    ['Reported but not changed', scope.notChanged],
+  ];
+  for (const [label, files] of lines) {
+    if (files.length > 0) {
+      console.log(color(`  ${label}: ${files.join(', ')}`));
+    }
+  }
+}
+
+function formatPolicy(policy: HarnessPolicy): string {
+  return [
+    `tools ${policy.tools.join(', ') || 'none'}`,
+    ...(policy.bash.allow.length > 0 ? [`bash allow ${policy.bash.allow.join(', ')}`] : []),
+    ...(policy.bash.deny.length > 0 ? [`bash deny ${policy.bash.deny.join(', ')}`] : []),
+    `network ${policy.network ? 'on' : 'off'}`,
+    ...(policy.read_dirs.length > 0 ? [`read dirs ${policy.read_dirs.join(', ')}`] : []),
+  ].join('; ');
+}
+
+export function printInjectionCheck(injection: RunInjectionCheck): void {
+  const outcome = injection.approved ? 'approved' : injection.policy;
+  console.log(chalk.yellow(`Possible prompt injection (policy: ${outcome}):`));
+  for (const flag of injection.flags) {
+    console.log(chalk.yellow(`  ${flag.pattern} in ${flag.field}: ${flag.excerpt}`));
+  }
 }
@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { Orchestrator, SoloAdapter, type HarnessId } from '@fleettools/core';
+import { findProjectRoot, getSoloAdapterOptions, loadRoutingConfig } from '@fleettools/shared';
+import { printContextSummary, printInjectionCheck } from './orchestrate.js';
+
+export function registerPromptCommands(program: Command): void {
+  const prompt = program.command('prompt').description('Inspect the prompts sent to harnesses');
+
+  prompt
+    .command('preview <taskId>')
+    .description('Render the prompt a run of a Solo task would start with')
+    .option('--harness <id>', 'Preview for this harness instead of the routed one')
+    .option('--json', 'Output in JSON format')
+    .action(async (taskId: string, options: { harness?: HarnessId; json?: boolean }) => {
+      const projectRoot = findProjectRoot(process.cwd());
+      const orchestrator = new Orchestrator({
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: loadRoutingConfig(projectRoot),
+        projectRoot,
+      });
+      const preview = await orchestrator.previewPrompt(taskId, { harnessOverride: options.harness });
+
+      if (options.json) {
+        console.log(JSON.stringify(preview, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`Prompt Preview for ${taskId}`));
+      console.log(`Harness: ${preview.harness}`);
+      console.log(`Rule: ${preview.ruleId}`);
+      console.log(`Template: ${preview.template}`);
+      printContextSummary(preview.context);
+      if (preview.injection) {
+        printInjectionCheck(preview.injection);
+      }
+      console.log(chalk.gray('Session values are placeholders until a run starts.'));
+      console.log('');
+      console.log(preview.prompt);
+    });
+}
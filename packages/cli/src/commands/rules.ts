@@ -1,6 +1,25 @@
+import { readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { findRoutingConfigPath, loadRoutingConfig } from '@fleettools/shared';
+import {
+  normalizeSoloTask,
+  simulateRouting,
+  SoloAdapter,
+  type OrchestrationTaskRef,
+  type RouteExplanation,
+} from '@fleettools/core';
+import {
+  findProjectRoot,
+  findRoutingConfigPath,
+  getSoloAdapterOptions,
+  formatRoutingConfigIssue,
+  getDefaultRoutingConfig,
+  inspectRoutingConfig,
+  loadRoutingConfig,
+  ROUTING_CONFIG_SCHEMA,
+  type RoutingConfigInspection,
+} from '@fleettools/shared';
 
 export function registerRuleCommands(program: Command): void {
   const rules = program.command('rules').description('Manage orchestration routing rules');
@@ -11,16 +30,120 @@ export function registerRuleCommands(program: Command): void {
     .option('--json', 'Output in JSON format')
     .action((options: { json?: boolean }) => {
       const filePath = findRoutingConfigPath();
-      const config = loadRoutingConfig();
+      const inspection: RoutingConfigInspection = filePath
+        ? inspectRoutingConfig(readFileSync(filePath, 'utf-8'))
+        : { config: getDefaultRoutingConfig(), issues: [], migrations: [] };
+      const { config } = inspection;
 
       if (options.json) {
-        console.log(JSON.stringify({ valid: true, filePath, config }, null, 2));
+        console.log(JSON.stringify({ valid: Boolean(config), filePath, ...inspection }, null, 2));
+        if (!config) process.exit(1);
         return;
       }
 
+      if (!config) {
+        const displayPath = filePath ? relative(process.cwd(), filePath) || filePath : undefined;
+        console.error(chalk.red(`❌ Routing config is invalid (${inspection.issues.length} issue(s)):`));
+        for (const issue of inspection.issues) {
+          console.error(`  ${formatRoutingConfigIssue(issue, displayPath)}`);
+        }
+        process.exit(1);
+      }
+
       console.log(chalk.green('Routing config is valid.'));
       console.log(`Source: ${filePath ?? 'defaults'}`);
+      if (inspection.migrations.length > 0) {
+        console.log(chalk.yellow(`Migrated from version ${inspection.fromVersion}; update the file to skip these steps:`));
+        for (const migration of inspection.migrations) {
+          console.log(chalk.yellow(`  ${migration}`));
+        }
+      }
       console.log(`Default harness: ${config.defaults.harness}`);
       console.log(`Rules: ${config.rules.length}`);
+      if (config.harnesses.length > 0) {
+        console.log(`Custom harnesses: ${config.harnesses.map(harness => harness.id).join(', ')}`);
+      }
+    });
+
+  rules
+    .command('schema')
+    .description('Print the JSON Schema for fleet.routing.yaml')
+    .action(() => {
+      console.log(JSON.stringify(ROUTING_CONFIG_SCHEMA, null, 2));
+    });
+
+  rules
+    .command('simulate')
+    .description('Dry-run routing for every available Solo task and flag dead rules')
+    .option('--fixture <file>', 'Read tasks from a JSON file instead of Solo')
+    .option('--limit <number>', 'Maximum number of Solo tasks to load', '500')
+    .option('--json', 'Output in JSON format')
+    .action(async (options: { fixture?: string; limit: string; json?: boolean }) => {
+      const projectRoot = findProjectRoot(process.cwd());
+      const config = loadRoutingConfig(projectRoot);
+
+      let tasks: OrchestrationTaskRef[];
+      try {
+        tasks = options.fixture
+          ? readTaskFixture(resolve(process.cwd(), options.fixture))
+          : await new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }).listAvailableTasks(Number.parseInt(options.limit, 10) || 500);
+      } catch (error) {
+        console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+
+      const simulation = simulateRouting(tasks, config);
+      if (options.json) {
+        console.log(JSON.stringify(simulation, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`Routing Simulation (${tasks.length} task(s), ${config.rules.length} rule(s))`));
+      for (const task of simulation.tasks) {
+        printExplanation(task);
+      }
+
+      console.log('');
+      console.log(chalk.blue.bold('Rules'));
+      for (const rule of simulation.rules) {
+        console.log(`- ${rule.ruleId}: selected ${rule.selected}, matched ${rule.matched}`);
+      }
+      console.log(`- defaults: selected ${simulation.unmatched}`);
+
+      if (simulation.neverMatched.length > 0) {
+        console.log(chalk.yellow(`Never matched: ${simulation.neverMatched.join(', ')}`));
+      }
+      for (const shadowed of simulation.shadowed) {
+        console.log(chalk.yellow(`Shadowed: ${shadowed.ruleId} (always matched first by ${shadowed.shadowedBy.join(', ')})`));
+      }
     });
 }
+
+export function printExplanation(explanation: RouteExplanation): void {
+  const { selection } = explanation.decision;
+  console.log(`${explanation.taskId} ${chalk.gray(explanation.title)} → ${selection.ruleId} (${selection.harness})`);
+  for (const evaluation of explanation.evaluations.filter(entry => !entry.matched)) {
+    for (const failure of evaluation.failures) {
+      console.log(chalk.gray(`  ✗ ${evaluation.ruleId}: ${failure.path}: ${failure.reason}`));
+    }
+  }
+}
+
+/**
+ * Accepts the output of `solo task list --json` (`{ tasks: [...] }`, with or
+ * without the `data` envelope) or a bare array of tasks in the same shape.
+ */
+function readTaskFixture(filePath: string): OrchestrationTaskRef[] {
+  const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as unknown;
+  const container = (parsed && typeof parsed === 'object' && 'data' in parsed ? (parsed as { data: unknown }).data : parsed);
+  const tasks = Array.isArray(container) ? container : (container as { tasks?: unknown } | null)?.tasks;
+  if (!Array.isArray(tasks)) {
+    throw new Error(`${filePath} must contain an array of tasks or an object with a tasks array`);
+  }
+  return tasks.map((task, index) => {
+    if (!task || typeof task !== 'object') {
+      throw new Error(`${filePath}: tasks[${index}] must be an object`);
+    }
+    return normalizeSoloTask(task as Record<string, unknown>);
+  });
+}
@@ -3,15 +3,19 @@ import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
 import { spawnSync } from 'node:child_process';
 import { assertNonEmptyFile, changeDir, discoverProjectRoot, inferSlug, pathExists, readTextIfExists, validateSlug, withChangeLock, writeJsonAtomic, writeTextAtomic } from '../steer/fs.js';
-import { appendHistory, readState, writeState } from '../steer/state.js';
-import { defaultState, Phase } from '../steer/types.js';
+import { appendHistory, readState, withActiveTasks, writeState } from '../steer/state.js';
+import { defaultState, Phase, TaskStatusFile } from '../steer/types.js';
 import { loadTemplate } from '../steer/templates.js';
 import { parseVerdict } from '../steer/verdict.js';
 import { loadSteerConfig } from '../steer/config.js';
-import { depsSatisfied, listTaskStatuses, readTaskStatus, scaffoldTasks, writeTaskStatus } from '../steer/tasks.js';
+import { depsSatisfied, isInFlight, listTaskStatuses, readTaskStatus, resolveActiveTask, scaffoldTasks, writeTaskStatus } from '../steer/tasks.js';
 import { completeHandoff } from '../steer/handoff.js';
-import { emitDiffReview, ingestDiffReview } from '../steer/verify.js';
+import { emitDiffReview, ingestDiffReview, markTaskFailed } from '../steer/verify.js';
+import { assertHarness, dispatchReview, dispatchTask } from '../steer/dispatch.js';
 import { SteerError } from '../steer/errors.js';
+import { createTaskWorktree, unmergedDependencyBranches } from '../steer/worktree.js';
+import { loadRoutingConfig } from '@fleettools/shared';
+import type { HarnessRunResult } from '@fleettools/core';
 
 const stdout = (text: string) => process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
 const stderr = (text: string) => process.stderr.write(text.endsWith('\n') ? text : `${text}\n`);
@@ -127,7 +131,7 @@ async function statusSteer(slug: string | undefined, json = false): Promise<void
   const { dir, slug: resolved } = await context(slug);
   const state = await readState(dir);
   if (json) { stdout(JSON.stringify({ slug: resolved, ...state }, null, 2)); return; }
-  stdout(`Change: ${resolved}\nPhase: ${state.phase}\nRound: ${state.round}\nActive task: ${state.active_task ?? 'none'}\nTasks: ${state.tasks.length}\nHistory: ${state.history.slice(-3).map((entry) => `${entry.at} ${entry.action}${entry.detail ? ` (${entry.detail})` : ''}`).join('\n') || 'none'}`);
+  stdout(`Change: ${resolved}\nPhase: ${state.phase}\nRound: ${state.round}\nActive tasks: ${state.active_tasks.join(', ') || 'none'}\nTasks: ${state.tasks.length}\nHistory: ${state.history.slice(-3).map((entry) => `${entry.at} ${entry.action}${entry.detail ? ` (${entry.detail})` : ''}`).join('\n') || 'none'}`);
 }
 
 async function ingestReview(slug?: string): Promise<void> {
@@ -171,55 +175,135 @@ async function resolveReview(slug?: string): Promise<void> {
   stderr('Review resolved.');
 }
 
-async function taskStart(slug?: string): Promise<void> {
-  const { root, dir } = await context(slug);
+/**
+ * Refuses to put another task in flight: always when one already is, unless
+ * running in parallel mode, and in parallel mode beyond `max_active_tasks`.
+ */
+function assertCanActivate(inFlight: number, parallel: boolean, maxActive: number): void {
+  if (inFlight === 0) return;
+  if (!parallel) throw new SteerError('A task is already active or verifying. Pass --parallel to start independent tasks alongside it.');
+  if (inFlight >= maxActive) throw new SteerError(`${inFlight} tasks are already active or verifying; execute.max_active_tasks is ${maxActive}.`);
+}
+
+/** Claims the next ready task, in its own worktree in parallel mode. Call with the change lock held. */
+async function claimNextTask(root: string, dir: string, slug: string, opts: { parallel?: boolean; worktree?: boolean }): Promise<TaskStatusFile> {
+  const config = await loadSteerConfig(root);
+  const parallel = opts.parallel || config.execute.parallel;
+  let state = await readState(dir);
+  if (state.phase === 'tasks') {
+    const tasks = await scaffoldTasks(dir, root);
+    state = appendHistory({ ...state, phase: 'execute', tasks: tasks.map((task) => task.id) }, 'advance', 'tasks -> execute');
+  } else if (state.phase === 'execute' || (parallel && state.phase === 'verify')) {
+    await scaffoldTasks(dir, root);
+  } else {
+    throw new SteerError(`Cannot start tasks while change is in ${state.phase} phase.`);
+  }
+  const statuses = await listTaskStatuses(dir);
+  assertCanActivate(statuses.filter(isInFlight).length, parallel, config.execute.max_active_tasks);
+  const next = statuses.find((task) => task.status === 'pending' && depsSatisfied(task, statuses));
+  if (!next) throw new SteerError('No ready pending task found.');
+  // A dependency finished in its own worktree is only on its branch until merged; start from there.
+  const useWorktree = parallel && config.execute.worktrees && opts.worktree !== false;
+  const unmerged = unmergedDependencyBranches(root, next, statuses);
+  if (unmerged.length > 1 || (unmerged.length === 1 && !useWorktree)) {
+    throw new SteerError(`Task ${next.id} depends on work not merged yet; merge ${unmerged.join(', ')} into the project first.`);
+  }
+  const base = spawnSync('git', ['rev-parse', unmerged[0] ?? 'HEAD'], { cwd: root, encoding: 'utf8' });
+  const baseRef = base.status === 0 ? base.stdout.trim() : undefined;
+  const worktree = useWorktree && baseRef ? await createTaskWorktree(root, slug, next.id, baseRef) : undefined;
+  const claimed: TaskStatusFile = {
+    ...next,
+    status: 'active',
+    started_at: new Date().toISOString(),
+    ...(baseRef ? { base_ref: baseRef } : {}),
+    ...(worktree ? { worktree_path: worktree.path, branch: worktree.branch } : {}),
+  };
+  await writeTaskStatus(dir, claimed);
+  await writeState(dir, appendHistory({ ...withActiveTasks(state, [...state.active_tasks, next.id]), phase: 'execute' }, 'task-start', next.id));
+  if (worktree) stderr(`Task ${next.id} runs in ${worktree.path} on branch ${worktree.branch}.`);
+  return claimed;
+}
+
+async function taskStart(slug: string | undefined, opts: { parallel?: boolean; worktree?: boolean } = {}): Promise<void> {
+  const { root, dir, slug: resolved } = await context(slug);
   await withChangeLock(dir, async () => {
-    let state = await readState(dir);
-    if (state.phase === 'tasks') {
-      const tasks = await scaffoldTasks(dir, root);
-      state = appendHistory({ ...state, phase: 'execute', tasks: tasks.map((task) => task.id) }, 'advance', 'tasks -> execute');
-    } else if (state.phase === 'execute') {
-      await scaffoldTasks(dir, root);
-    } else {
-      throw new SteerError(`Cannot start tasks while change is in ${state.phase} phase.`);
-    }
-    const statuses = await listTaskStatuses(dir);
-    if (statuses.some((task) => task.status === 'active' || task.status === 'verifying')) throw new SteerError('A task is already active or verifying.');
-    const next = statuses.find((task) => task.status === 'pending' && depsSatisfied(task, statuses));
-    if (!next) throw new SteerError('No ready pending task found.');
-    const base = spawnSync('git', ['rev-parse', 'HEAD'], { cwd: root, encoding: 'utf8' });
-    await writeTaskStatus(dir, { ...next, status: 'active', started_at: new Date().toISOString(), base_ref: base.status === 0 ? base.stdout.trim() : undefined });
-    await writeState(dir, appendHistory({ ...state, phase: 'execute', active_task: next.id }, 'task-start', next.id));
-    stdout(await fs.readFile(join(dir, 'tasks', next.id, 'prompt.md'), 'utf8'));
+    const task = await claimNextTask(root, dir, resolved, opts);
+    stdout(await fs.readFile(join(dir, 'tasks', task.id, 'prompt.md'), 'utf8'));
   });
 }
 
-async function taskRetry(taskId: string, slug?: string): Promise<void> {
-  const { dir } = await context(slug);
+/**
+ * Claims the next ready task, or takes the active one named by `--task`,
+ * runs it on a harness, verifies it and, with `--reviewer`, has a second
+ * harness review the diff. Without a reviewer the diff-review prompt is
+ * printed for `verify --ingest-review`, as `fleet steer verify` does.
+ */
+async function taskRun(slug: string | undefined, opts: { task?: string; harness?: string; reviewer?: string; parallel?: boolean; worktree?: boolean; tests?: boolean }): Promise<void> {
+  const { root, dir, slug: resolved } = await context(slug);
+  assertHarness(root, opts.harness);
+  if (opts.reviewer) assertHarness(root, opts.reviewer);
+  const task = await withChangeLock(dir, async () => {
+    if (!opts.task) return claimNextTask(root, dir, resolved, opts);
+    const named = await resolveActiveTask(dir, opts.task, 'active');
+    if (named?.status !== 'active') throw new SteerError(`Task ${opts.task} is ${named?.status ?? 'not active'}; only active tasks can be run.`);
+    return named;
+  });
+
+  // Harnesses run outside the change lock so other tasks can start and verify meanwhile.
+  stderr(`Running ${task.id} on ${opts.harness ?? loadRoutingConfig(root).defaults.harness}...`);
+  let result: HarnessRunResult;
+  try {
+    result = await dispatchTask(dir, root, task, opts.harness);
+  } catch (error) {
+    await withChangeLock(dir, () => markTaskFailed(dir, task, 'task-run-failed'));
+    throw error;
+  }
+  if (result.status !== 'completed') {
+    await withChangeLock(dir, () => markTaskFailed(dir, task, 'task-run-failed'));
+    throw new SteerError(`Harness did not complete ${task.id} (${result.status}): ${result.error ?? result.summary}. See tasks/${task.id}/run.log`);
+  }
+  stderr(`Harness finished ${task.id}: ${result.summary}`);
+
+  const review = await withChangeLock(dir, () => emitDiffReview(dir, root, opts.tests !== false, task.id));
+  if (!opts.reviewer) {
+    stdout(review);
+    stderr(`Pipe the review verdict to: fleet steer verify ${resolved} --task ${task.id} --ingest-review`);
+    return;
+  }
+  stderr(`Reviewing ${task.id} on ${opts.reviewer}...`);
+  const verdict = await dispatchReview(dir, root, task, review, opts.reviewer);
+  stdout(await withChangeLock(dir, () => ingestDiffReview(dir, verdict, task.id)));
+}
+
+async function taskRetry(taskId: string, slug: string | undefined, opts: { parallel?: boolean } = {}): Promise<void> {
+  const { root, dir } = await context(slug);
+  const config = await loadSteerConfig(root);
   await withChangeLock(dir, async () => {
     const state = await readState(dir);
     if (state.phase !== 'execute' && state.phase !== 'verify') throw new SteerError(`Cannot retry tasks while change is in ${state.phase} phase.`);
     const statuses = await listTaskStatuses(dir);
-    if (statuses.some((task) => (task.status === 'active' || task.status === 'verifying') && task.id !== taskId)) throw new SteerError('Another task is already active or verifying.');
+    assertCanActivate(statuses.filter((task) => isInFlight(task) && task.id !== taskId).length, opts.parallel || config.execute.parallel, config.execute.max_active_tasks);
     const task = await readTaskStatus(dir, taskId);
     if (task.status !== 'failed') throw new SteerError(`Task ${taskId} is ${task.status}; only failed tasks can be retried.`);
     await writeTaskStatus(dir, { ...task, status: 'active' });
-    await writeState(dir, appendHistory({ ...state, phase: 'execute', active_task: taskId }, 'task-retry', taskId));
+    await writeState(dir, appendHistory({ ...withActiveTasks(state, [...state.active_tasks.filter((id) => id !== taskId), taskId]), phase: 'execute' }, 'task-retry', taskId));
   });
   stderr(`Task ${taskId} is active again.`);
 }
 
-async function verifySteer(slug: string | undefined, opts: { ingestReview?: boolean; tests?: boolean }): Promise<void> {
+async function verifySteer(slug: string | undefined, opts: { ingestReview?: boolean; tests?: boolean; task?: string }): Promise<void> {
   const { root, dir } = await context(slug);
   await withChangeLock(dir, async () => {
     const state = await readState(dir);
+    // With tasks in parallel, one can be verifying while another is still active.
+    if (state.phase !== 'execute' && state.phase !== 'verify') {
+      throw new SteerError(`Cannot ${opts.ingestReview ? 'ingest diff review' : 'verify'} while change is in ${state.phase} phase.`);
+    }
     if (opts.ingestReview) {
-      if (state.phase !== 'verify') throw new SteerError(`Cannot ingest diff review while change is in ${state.phase} phase.`);
-      stdout(await ingestDiffReview(dir, await readStdin()));
+      stdout(await ingestDiffReview(dir, await readStdin(), opts.task));
       return;
     }
-    if (state.phase !== 'execute') throw new SteerError(`Cannot verify while change is in ${state.phase} phase.`);
-    stdout(await emitDiffReview(dir, root, opts.tests));
+    stdout(await emitDiffReview(dir, root, opts.tests !== false, opts.task));
   });
 }
 
@@ -236,10 +320,18 @@ export function registerSteerCommand(program: Command): void {
 
   const task = steer.command('task').description('Manage steer tasks');
   task.command('list [slug]').action(act(async (slug) => { const { dir } = await context(slug); await scaffoldTasks(dir, await discoverProjectRoot()); const rows = await listTaskStatuses(dir); stdout(rows.map((row) => `${row.id}\t${row.status}\tdeps:${row.deps.join(',') || '-'}\t${row.description}`).join('\n') || 'No tasks.'); }));
-  task.command('start [slug]').description('Claim next ready task and emit its prompt').action(act(taskStart));
-  task.command('retry <taskId> [slug]').description('Make a failed task active again').action(act(taskRetry));
+  task.command('start [slug]').description('Claim next ready task and emit its prompt').option('--parallel', 'Start even while other tasks are in flight').option('--no-worktree', 'Run a parallel task in the project root instead of its own worktree').action(act(taskStart));
+  task.command('run [slug]').description('Run the next ready task on a harness, verify it and optionally have a reviewer harness review it')
+    .option('--task <taskId>', 'Run this already active task instead of claiming the next one')
+    .option('--harness <id>', 'Harness to run the task on (default: defaults.harness in fleet.routing.yaml)')
+    .option('--reviewer <id>', 'Harness that reviews the diff; its verdict is ingested')
+    .option('--parallel', 'Start even while other tasks are in flight')
+    .option('--no-worktree', 'Run a parallel task in the project root instead of its own worktree')
+    .option('--no-tests', 'Skip configured test command')
+    .action(act(taskRun));
+  task.command('retry <taskId> [slug]').description('Make a failed task active again').option('--parallel', 'Retry even while other tasks are in flight').action(act(taskRetry));
 
-  steer.command('verify [slug]').option('--ingest-review', 'Read diff-review verdict JSON from stdin').option('--no-tests', 'Skip configured test command').action(act(verifySteer));
+  steer.command('verify [slug]').option('--task <taskId>', 'Task to verify when several are in flight').option('--ingest-review', 'Read diff-review verdict JSON from stdin').option('--no-tests', 'Skip configured test command').action(act(verifySteer));
   steer.command('handoff [slug]').option('--retry', 'Retry Solo handoff for pending tasks').action(act(async (slug, opts) => { if (!opts.retry) throw new SteerError('Only fleet steer handoff --retry is supported in the MVP.'); const { root, dir } = await context(slug); await withChangeLock(dir, async () => { const rows = await listTaskStatuses(dir); const pending = rows.filter((task) => task.status === 'done-pending-handoff'); for (const row of pending) await completeHandoff(dir, row.id, root); stdout(`Retried ${pending.length} pending handoff(s).`); }); }));
   steer.command('rollback').description('Refuse dangerous rollback in MVP').action(act(async () => { throw new SteerError('Rollback is intentionally disabled in the MVP to avoid reverting unrelated work. Use git status/diff and revert manually.'); }));
 }
@@ -1,7 +1,17 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { SoloAdapter } from '@fleettools/core';
-import { findProjectRoot } from '@fleettools/shared';
+import { findProjectRoot, getSoloAdapterOptions } from '@fleettools/shared';
+
+interface TaskCreateOptions {
+  description?: string;
+  priority?: string;
+  type?: string;
+  labels?: string;
+  affectedFiles?: string;
+  deps?: string;
+  json?: boolean;
+}
 
 export function registerTaskCommands(program: Command): void {
   const tasks = program.command('tasks').description('Inspect Solo-backed orchestration tasks');
@@ -12,7 +22,7 @@ export function registerTaskCommands(program: Command): void {
     .option('--limit <number>', 'Maximum number of tasks to return', '20')
     .option('--json', 'Output in JSON format')
     .action(async (options: { limit: string; json?: boolean }) => {
-      const adapter = new SoloAdapter({ cwd: findProjectRoot(process.cwd()) });
+      const adapter = createAdapter();
       const tasks = await adapter.listAvailableTasks(Number(options.limit));
 
       if (options.json) {
@@ -36,7 +46,7 @@ export function registerTaskCommands(program: Command): void {
     .description('Show details for a Solo task')
     .option('--json', 'Output in JSON format')
     .action(async (taskId: string, options: { json?: boolean }) => {
-      const adapter = new SoloAdapter({ cwd: findProjectRoot(process.cwd()) });
+      const adapter = createAdapter();
       const task = await adapter.showTask(taskId);
 
       if (options.json) {
@@ -54,4 +64,42 @@ export function registerTaskCommands(program: Command): void {
         console.log(`Description: ${task.description}`);
       }
     });
+
+  tasks
+    .command('create <title>')
+    .description('Create a Solo task')
+    .option('--description <text>', 'Task description')
+    .option('--priority <priority>', 'critical, high, medium or low')
+    .option('--type <type>', 'Task type, e.g. task or bug')
+    .option('--labels <labels>', 'Comma-separated labels')
+    .option('--affected-files <paths>', 'Comma-separated files or globs the task may change')
+    .option('--deps <taskIds>', 'Comma-separated tasks this one depends on')
+    .option('--json', 'Output in JSON format')
+    .action(async (title: string, options: TaskCreateOptions) => {
+      const created = await createAdapter().createTask({
+        title,
+        ...(options.description ? { description: options.description } : {}),
+        ...(options.priority ? { priority: options.priority } : {}),
+        ...(options.type ? { type: options.type } : {}),
+        ...(options.labels ? { labels: splitList(options.labels) } : {}),
+        ...(options.affectedFiles ? { affectedFiles: splitList(options.affectedFiles) } : {}),
+        ...(options.deps ? { deps: splitList(options.deps) } : {}),
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify({ task: created }, null, 2));
+        return;
+      }
+
+      console.log(chalk.green(`✓ Created ${created.id}: ${created.title} ${chalk.gray(`(${created.status})`)}`));
+    });
+}
+
+function createAdapter(): SoloAdapter {
+  const projectRoot = findProjectRoot(process.cwd());
+  return new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) });
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
 }
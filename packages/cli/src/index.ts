@@ -29,6 +29,7 @@ import { registerSetupCommand } from './commands/setup.js';
 import { registerDoctorCommand } from './commands/doctor.js';
 import { registerTaskCommands } from './commands/tasks.js';
 import { registerRuleCommands } from './commands/rules.js';
+import { registerPromptCommands } from './commands/prompt.js';
 import { registerHarnessCommands } from './commands/harnesses.js';
 import { registerOrchestrationCommands } from './commands/orchestrate.js';
 import { registerSteerCommand } from './commands/steer.js';
@@ -91,8 +92,17 @@ process.on('unhandledRejection', (reason, promise) => {
 // Graceful Shutdown
 
 let shuttingDown = false;
+let draining = false;
 
 const gracefulShutdown = (signal: string) => {
+  // Long-running commands such as `fleet run --all` register their own handler
+  // to drain in-flight work; a repeated signal exits immediately.
+  if (!draining && process.listenerCount(signal) > 1) {
+    draining = true;
+    console.error(chalk.yellow(`\n🛑 Received ${signal}, waiting for in-flight work to finish (repeat to force exit)...`));
+    return;
+  }
+
   if (shuttingDown) return;
   shuttingDown = true;
   
@@ -132,6 +142,7 @@ registerCheckpointCommands(program);
 registerResumeCommand(program);
 registerTaskCommands(program);
 registerRuleCommands(program);
+registerPromptCommands(program);
 registerOrchestrationCommands(program);
 registerSteerCommand(program);
 
@@ -11,6 +11,11 @@ function mergeConfig(base: SteerConfig, patch: any): SteerConfig {
       max_rounds: Number(patch?.review?.max_rounds ?? base.review.max_rounds),
       early_exit_on_pass_count: Number(patch?.review?.early_exit_on_pass_count ?? base.review.early_exit_on_pass_count),
     },
+    execute: {
+      parallel: patch?.execute?.parallel ?? base.execute.parallel,
+      max_active_tasks: Number(patch?.execute?.max_active_tasks ?? base.execute.max_active_tasks),
+      worktrees: patch?.execute?.worktrees ?? base.execute.worktrees,
+    },
     verify_gate: {
       tests: {
         enabled: patch?.verify_gate?.tests?.enabled ?? base.verify_gate.tests.enabled,
@@ -0,0 +1,94 @@
+import { promises as fs } from 'node:fs';
+import { basename, join } from 'node:path';
+import { createHarnessRegistry, resolveHarnessPolicy, type HarnessAdapter, type HarnessPolicyConfig, type HarnessRunResult } from '@fleettools/core';
+import { loadRoutingConfig } from '@fleettools/shared';
+import { SteerError } from './errors.js';
+import { writeJsonAtomic } from './fs.js';
+import { TaskStatusFile } from './types.js';
+import { parseVerdict } from './verdict.js';
+import { taskRoot } from './worktree.js';
+
+const RESULT_INSTRUCTIONS = [
+  'When done, reply with only a JSON object with these fields:',
+  '- status: "completed" when done, "failed" when blocked',
+  '- summary: brief description of what was done',
+  '- filesChanged: array of file paths modified',
+  '- error: (optional) why the task failed',
+].join('\n');
+
+// Harnesses only return the structured result, so the verdict travels inside it.
+const REVIEW_INSTRUCTIONS = [
+  'Do not change any files. Reply with only a JSON object with these fields:',
+  '- status: "completed"',
+  '- summary: the verdict JSON described above, as a string',
+  '- filesChanged: []',
+].join('\n');
+
+const REVIEW_POLICY: HarnessPolicyConfig = { tools: ['read', 'glob', 'grep'], network: false };
+
+interface SteerHarnessRun {
+  /** Which of the task's files the run writes: `run` or `review`. */
+  kind: 'run' | 'review';
+  prompt: string;
+  policy?: HarnessPolicyConfig;
+}
+
+function resolveHarness(projectRoot: string, harnessId?: string): { adapter: HarnessAdapter; timeoutMs: number; policy?: HarnessPolicyConfig } {
+  const routing = loadRoutingConfig(projectRoot);
+  const id = harnessId ?? routing.defaults.harness;
+  const adapter = createHarnessRegistry(routing.harnesses).getAdapter(id);
+  if (!adapter) throw new SteerError(`Unknown harness: ${id}`);
+  return { adapter, timeoutMs: routing.defaults.timeout_ms, ...(routing.defaults.policy ? { policy: routing.defaults.policy } : {}) };
+}
+
+/** Throws the `Unknown harness` error up front, before a task is claimed for it. */
+export function assertHarness(projectRoot: string, harnessId?: string): void {
+  resolveHarness(projectRoot, harnessId);
+}
+
+/**
+ * Runs one harness on a steer task in the task's worktree. Output goes to
+ * `tasks/<id>/<kind>.log` and the result, without the raw output, to
+ * `tasks/<id>/<kind>-result.json`.
+ */
+async function runSteerHarness(changeDir: string, projectRoot: string, task: TaskStatusFile, harnessId: string | undefined, run: SteerHarnessRun): Promise<HarnessRunResult> {
+  const harness = resolveHarness(projectRoot, harnessId);
+  const taskDir = join(changeDir, 'tasks', task.id);
+  const result = await harness.adapter.run({
+    harness: harness.adapter.id,
+    worktreePath: taskRoot(projectRoot, task),
+    task: { taskId: task.id, title: task.description, labels: [], affectedFiles: [] },
+    sessionId: `steer-${basename(changeDir)}-${task.id}-${run.kind}`,
+    prompt: run.prompt,
+    timeoutMs: harness.timeoutMs,
+    logFile: join(taskDir, `${run.kind}.log`),
+    policy: resolveHarnessPolicy(run.policy ?? harness.policy),
+    harnesses: [],
+  });
+  const { rawOutput: _rawOutput, ...recorded } = result;
+  await writeJsonAtomic(join(taskDir, `${run.kind}-result.json`), { harness: harness.adapter.id, finished_at: new Date().toISOString(), ...recorded });
+  return result;
+}
+
+/** Sends the task's prompt to a harness and returns what it reported. */
+export async function dispatchTask(changeDir: string, projectRoot: string, task: TaskStatusFile, harnessId?: string): Promise<HarnessRunResult> {
+  const prompt = await fs.readFile(join(changeDir, 'tasks', task.id, 'prompt.md'), 'utf8');
+  return runSteerHarness(changeDir, projectRoot, task, harnessId, { kind: 'run', prompt: `${prompt.trimEnd()}\n\n${RESULT_INSTRUCTIONS}\n` });
+}
+
+/**
+ * Sends a diff-review prompt to a reviewer harness, read-only, and returns
+ * its verdict text for `ingestDiffReview`. A reviewer that replied with the
+ * bare verdict instead of wrapping it is accepted too.
+ */
+export async function dispatchReview(changeDir: string, projectRoot: string, task: TaskStatusFile, reviewPrompt: string, harnessId: string): Promise<string> {
+  const result = await runSteerHarness(changeDir, projectRoot, task, harnessId, {
+    kind: 'review',
+    prompt: `${reviewPrompt.trimEnd()}\n\n${REVIEW_INSTRUCTIONS}\n`,
+    policy: REVIEW_POLICY,
+  });
+  const verdict = [result.summary, result.rawOutput ?? ''].find((text) => parseVerdict(text));
+  if (verdict) return verdict;
+  if (result.status !== 'completed') throw new SteerError(`Reviewer ${harnessId} failed on ${task.id}: ${result.error ?? result.summary}`);
+  return result.summary;
+}
@@ -1,5 +1,6 @@
 import { basename, dirname, join, relative } from 'node:path';
 import { SoloAdapter, type SoloCreateTaskInput } from '@fleettools/core';
+import { getSoloAdapterOptions } from '@fleettools/shared';
 import { listTaskStatuses, readTaskStatus, writeTaskStatus } from './tasks.js';
 import { readTextIfExists, writeJsonAtomic } from './fs.js';
 import { TaskStatusFile } from './types.js';
@@ -23,7 +24,7 @@ export async function createSoloTaskHandoff(changeDir: string, task: TaskStatusF
   if (process.env.STEER_SOLO_MOCK === '1') return { id: await mockHandoff(changeDir, task), status: 'mock' };
 
   const input = await buildSoloTaskInput(changeDir, task, projectRoot);
-  const adapter = new SoloAdapter({ ...(process.env.STEER_SOLO_BINARY ? { binaryPath: process.env.STEER_SOLO_BINARY } : {}), cwd: projectRoot, retries: 1 });
+  const adapter = new SoloAdapter({ ...getSoloAdapterOptions(projectRoot), ...(process.env.STEER_SOLO_BINARY ? { binaryPath: process.env.STEER_SOLO_BINARY } : {}), cwd: projectRoot, retries: 1 });
   const created = await adapter.createTask(input);
   await writeHandoffArtifact(changeDir, task, created.id, created.status, projectRoot);
   return { id: created.id, status: created.status };
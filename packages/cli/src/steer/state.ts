@@ -14,6 +14,7 @@ export function validateState(value: unknown, path: string): StateSnapshot {
   }
   if (typeof state.round !== 'number' || state.round < 0) throw new StateCorruptionError(path, 'invalid round');
   if (!Array.isArray(state.tasks)) throw new StateCorruptionError(path, 'tasks must be an array');
+  if (state.active_tasks !== undefined && !Array.isArray(state.active_tasks)) throw new StateCorruptionError(path, 'active_tasks must be an array');
   const base = defaultState();
   return {
     ...base,
@@ -22,6 +23,8 @@ export function validateState(value: unknown, path: string): StateSnapshot {
       spec: { ...base.review.spec, ...(state.review?.spec ?? {}) },
       plan: { ...base.review.plan, ...(state.review?.plan ?? {}) },
     },
+    // State written before parallel execution only knows the single active task.
+    active_tasks: state.active_tasks ?? (state.active_task ? [state.active_task] : []),
     history: Array.isArray(state.history) ? state.history : [],
   };
 }
@@ -46,6 +49,13 @@ export async function writeState(dir: string, state: StateSnapshot): Promise<voi
   await writeJsonAtomic(join(dir, 'state.json'), validateState(state, join(dir, 'state.json')));
 }
 
+/** Records which tasks are in flight; `active_task` follows the most recently started one. */
+export function withActiveTasks(state: StateSnapshot, activeTasks: string[]): StateSnapshot {
+  const { active_task: _previous, ...rest } = state;
+  const latest = activeTasks[activeTasks.length - 1];
+  return { ...rest, active_tasks: activeTasks, ...(latest ? { active_task: latest } : {}) };
+}
+
 export function appendHistory(state: StateSnapshot, action: string, detail?: string): StateSnapshot {
   return { ...state, history: [...state.history, { at: new Date().toISOString(), action, detail }] };
 }
@@ -3,6 +3,7 @@ import { join } from 'node:path';
 import { TaskMetadata, TaskStatusFile } from './types.js';
 import { pathExists, readTextIfExists, writeJsonAtomic, writeTextAtomic } from './fs.js';
 import { loadTemplate } from './templates.js';
+import { SteerError } from './errors.js';
 
 function slugify(input: string): string {
   return input.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 48) || 'task';
@@ -62,8 +63,24 @@ export async function listTaskStatuses(changeDir: string): Promise<TaskStatusFil
   return statuses;
 }
 
-export async function getActiveTask(changeDir: string): Promise<TaskStatusFile | undefined> {
-  return (await listTaskStatuses(changeDir)).find((task) => task.status === 'active' || task.status === 'verifying');
+export function isInFlight(task: TaskStatusFile): boolean {
+  return task.status === 'active' || task.status === 'verifying';
+}
+
+/**
+ * The in-flight task to act on: `taskId` when given, otherwise the only task
+ * in the `wanted` status. When several tasks are in it the caller must name one.
+ */
+export async function resolveActiveTask(changeDir: string, taskId: string | undefined, wanted: 'active' | 'verifying'): Promise<TaskStatusFile | undefined> {
+  const inFlight = (await listTaskStatuses(changeDir)).filter(isInFlight);
+  if (taskId) {
+    const task = inFlight.find((candidate) => candidate.id === taskId);
+    if (!task) throw new SteerError(`Task ${taskId} is not active or verifying.`);
+    return task;
+  }
+  const candidates = inFlight.filter((task) => task.status === wanted);
+  if (candidates.length > 1) throw new SteerError(`Several tasks are ${wanted} (${candidates.map((task) => task.id).join(', ')}); pass --task <taskId>.`);
+  return candidates[0];
 }
 
 export function depsSatisfied(task: TaskStatusFile, all: TaskStatusFile[]): boolean {
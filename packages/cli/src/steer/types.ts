@@ -16,7 +16,10 @@ export interface ReviewProgress {
 export interface StateSnapshot {
   phase: Phase;
   round: number;
+  /** Most recently started task still in flight; kept for readers of older state files. */
   active_task?: string;
+  /** Every task that is active or verifying, in the order they started. */
+  active_tasks: string[];
   tasks: string[];
   review: {
     spec: ReviewProgress;
@@ -53,6 +56,9 @@ export interface TaskStatusFile {
   started_at?: string;
   completed_at?: string;
   base_ref?: string;
+  /** Worktree the task runs in, relative to the project root. Unset when it runs in the project root. */
+  worktree_path?: string;
+  branch?: string;
   handoff_id?: string;
   solo_task_id?: string;
   solo_status?: string;
@@ -63,6 +69,13 @@ export interface SteerConfig {
     max_rounds: number;
     early_exit_on_pass_count: number;
   };
+  execute: {
+    /** Let independent ready tasks be active at the same time. */
+    parallel: boolean;
+    max_active_tasks: number;
+    /** Give each task started in parallel mode its own git worktree. */
+    worktrees: boolean;
+  };
   verify_gate: {
     tests: {
       enabled: boolean;
@@ -75,6 +88,7 @@ export interface SteerConfig {
 export const defaultState = (): StateSnapshot => ({
   phase: 'context',
   round: 0,
+  active_tasks: [],
   tasks: [],
   review: {
     spec: { consecutive_passes: 0, status: 'pending' },
@@ -85,5 +99,6 @@ export const defaultState = (): StateSnapshot => ({
 
 export const defaultConfig: SteerConfig = {
   review: { max_rounds: 3, early_exit_on_pass_count: 2 },
+  execute: { parallel: false, max_active_tasks: 3, worktrees: true },
   verify_gate: { tests: { enabled: true, command: 'bun test', timeout_seconds: 300 } },
 };
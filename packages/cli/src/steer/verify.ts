@@ -5,10 +5,12 @@ import { loadSteerConfig } from './config.js';
 import { readTextIfExists, writeTextAtomic } from './fs.js';
 import { loadTemplate } from './templates.js';
 import { parseVerdict } from './verdict.js';
-import { getActiveTask, listTaskStatuses, readTaskStatus, writeTaskStatus } from './tasks.js';
-import { appendHistory, readState, writeState } from './state.js';
+import { listTaskStatuses, readTaskStatus, resolveActiveTask, writeTaskStatus } from './tasks.js';
+import { TaskStatusFile } from './types.js';
+import { appendHistory, readState, withActiveTasks, writeState } from './state.js';
 import { SteerError } from './errors.js';
 import { createSoloTaskHandoff } from './handoff.js';
+import { taskRoot } from './worktree.js';
 
 async function runShell(command: string, cwd: string, timeoutSeconds: number): Promise<{ ok: boolean; output: string }> {
   return new Promise((resolve) => {
@@ -51,15 +53,16 @@ async function gitDiff(projectRoot: string, baseRef?: string): Promise<string> {
   return (await runShell(command, projectRoot, 30)).output;
 }
 
-export async function runDeterministicVerify(changeDir: string, projectRoot: string, testsEnabled: boolean): Promise<{ ok: boolean; markdown: string; taskId: string }> {
-  const active = await getActiveTask(changeDir);
+export async function runDeterministicVerify(changeDir: string, projectRoot: string, testsEnabled: boolean, taskId?: string): Promise<{ ok: boolean; markdown: string; taskId: string }> {
+  const active = await resolveActiveTask(changeDir, taskId, 'active');
   if (!active) throw new SteerError('No active task to verify. Run fleet steer task start first.');
   const config = await loadSteerConfig(projectRoot);
+  const workRoot = taskRoot(projectRoot, active);
   const verifyText = await fs.readFile(join(changeDir, 'tasks', active.id, 'verify.md'), 'utf8');
   const sections: string[] = [`# Verify Result: ${active.id}`, `Started: ${new Date().toISOString()}`];
 
   if (config.verify_gate.tests.enabled && testsEnabled) {
-    const result = await runShell(config.verify_gate.tests.command, projectRoot, config.verify_gate.tests.timeout_seconds);
+    const result = await runShell(config.verify_gate.tests.command, workRoot, config.verify_gate.tests.timeout_seconds);
     sections.push(`## Tests\nCommand: \`${config.verify_gate.tests.command}\`\n\nPassed: ${result.ok}\n\n\`\`\`\n${result.output}\n\`\`\``);
     if (!result.ok) return { ok: false, markdown: sections.join('\n\n'), taskId: active.id };
   } else {
@@ -70,7 +73,7 @@ export async function runDeterministicVerify(changeDir: string, projectRoot: str
   const missing: string[] = [];
   for (const file of declared) {
     try {
-      const stat = await fs.stat(join(projectRoot, file));
+      const stat = await fs.stat(join(workRoot, file));
       if (stat.size === 0) missing.push(`${file} (empty)`);
     } catch {
       missing.push(file);
@@ -80,7 +83,7 @@ export async function runDeterministicVerify(changeDir: string, projectRoot: str
   if (missing.length > 0) return { ok: false, markdown: sections.join('\n\n'), taskId: active.id };
 
   for (const command of parseShellCriteria(verifyText)) {
-    const result = await runShell(command, projectRoot, 120);
+    const result = await runShell(command, workRoot, 120);
     sections.push(`## Acceptance Criterion\nCommand: \`${command}\`\n\nPassed: ${result.ok}\n\n\`\`\`\n${result.output}\n\`\`\``);
     if (!result.ok) return { ok: false, markdown: sections.join('\n\n'), taskId: active.id };
   }
@@ -88,25 +91,32 @@ export async function runDeterministicVerify(changeDir: string, projectRoot: str
   return { ok: true, markdown: sections.join('\n\n'), taskId: active.id };
 }
 
-export async function emitDiffReview(changeDir: string, projectRoot: string, testsEnabled: boolean): Promise<string> {
-  const result = await runDeterministicVerify(changeDir, projectRoot, testsEnabled);
+/** Marks an in-flight task failed so `fleet steer task retry` can pick it up again. */
+export async function markTaskFailed(changeDir: string, task: TaskStatusFile, action: string): Promise<void> {
+  await writeTaskStatus(changeDir, { ...task, status: 'failed' });
+  const state = await readState(changeDir);
+  await writeState(changeDir, appendHistory(withActiveTasks(state, state.active_tasks.filter((id) => id !== task.id)), action, task.id));
+}
+
+export async function emitDiffReview(changeDir: string, projectRoot: string, testsEnabled: boolean, taskId?: string): Promise<string> {
+  const result = await runDeterministicVerify(changeDir, projectRoot, testsEnabled, taskId);
   await writeTextAtomic(join(changeDir, 'tasks', result.taskId, 'verify-result.md'), result.markdown);
   const task = await readTaskStatus(changeDir, result.taskId);
   if (!result.ok) {
-    await writeTaskStatus(changeDir, { ...task, status: 'failed' });
+    await markTaskFailed(changeDir, task, 'verify-failed');
     throw new SteerError(`Deterministic verify failed for ${result.taskId}. See tasks/${result.taskId}/verify-result.md`);
   }
   await writeTaskStatus(changeDir, { ...task, status: 'verifying' });
   const state = await readState(changeDir);
-  await writeState(changeDir, appendHistory({ ...state, phase: 'verify', active_task: result.taskId }, 'verify', `deterministic checks passed for ${result.taskId}`));
+  await writeState(changeDir, appendHistory({ ...state, phase: 'verify' }, 'verify', `deterministic checks passed for ${result.taskId}`));
   const spec = await readTextIfExists(join(changeDir, '01-spec.md'));
   const verifyText = await readTextIfExists(join(changeDir, 'tasks', result.taskId, 'verify.md'));
-  const diff = await gitDiff(projectRoot, task.base_ref);
+  const diff = await gitDiff(taskRoot(projectRoot, task), task.base_ref);
   return loadTemplate('diff-review', { task_id: result.taskId, spec, verify: verifyText, diff }, projectRoot);
 }
 
-export async function ingestDiffReview(changeDir: string, raw: string): Promise<string> {
-  const active = await getActiveTask(changeDir);
+export async function ingestDiffReview(changeDir: string, raw: string, taskId?: string): Promise<string> {
+  const active = await resolveActiveTask(changeDir, taskId, 'verifying');
   if (!active || active.status !== 'verifying') throw new SteerError('No task is awaiting diff-review ingestion.');
   const verdict = parseVerdict(raw);
   if (!verdict) {
@@ -116,10 +126,8 @@ export async function ingestDiffReview(changeDir: string, raw: string): Promise<
   const existing = await readTextIfExists(join(changeDir, 'tasks', active.id, 'verify-result.md'));
   const final = `${existing}\n\n## Diff Review\n\n\`\`\`json\n${JSON.stringify(verdict, null, 2)}\n\`\`\`\n`;
   await writeTextAtomic(join(changeDir, 'tasks', active.id, 'verify-result.md'), final);
-  const state = await readState(changeDir);
   if (verdict.status !== 'pass') {
-    await writeTaskStatus(changeDir, { ...active, status: 'failed' });
-    await writeState(changeDir, appendHistory({ ...state, active_task: active.id }, 'verify-failed', active.id));
+    await markTaskFailed(changeDir, active, 'verify-failed');
     return `Task ${active.id} failed diff review.`;
   }
   let nextStatus: 'done' | 'done-pending-handoff' = 'done';
@@ -140,8 +148,11 @@ export async function ingestDiffReview(changeDir: string, raw: string): Promise<
     solo_task_id: nextStatus === 'done' && soloStatus !== 'mock' ? handoffId : active.solo_task_id,
     solo_status: soloStatus ?? active.solo_status,
   });
+  const state = await readState(changeDir);
+  const stillActive = state.active_tasks.filter((id) => id !== active.id);
   const statuses = await listTaskStatuses(changeDir);
   const allComplete = statuses.every((task) => ['done', 'done-pending-handoff'].includes(task.id === active.id ? nextStatus : task.status));
-  await writeState(changeDir, appendHistory({ ...state, phase: allComplete ? 'done' : 'execute', active_task: undefined }, 'verify-passed', active.id));
-  return nextStatus === 'done' ? `Task ${active.id} verified and handed off to Solo.` : `Task ${active.id} verified but handoff is pending retry.`;
+  await writeState(changeDir, appendHistory({ ...withActiveTasks(state, stillActive), phase: allComplete ? 'done' : 'execute' }, 'verify-passed', active.id));
+  const message = nextStatus === 'done' ? `Task ${active.id} verified and handed off to Solo.` : `Task ${active.id} verified but handoff is pending retry.`;
+  return active.branch ? `${message} Its work is on branch ${active.branch}.` : message;
 }
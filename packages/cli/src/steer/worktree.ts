@@ -0,0 +1,42 @@
+import { spawnSync } from 'node:child_process';
+import { join } from 'node:path';
+import { SteerError } from './errors.js';
+import { pathExists } from './fs.js';
+import { TaskStatusFile } from './types.js';
+
+export interface TaskWorktree {
+  /** Relative to the project root. */
+  path: string;
+  branch: string;
+}
+
+/**
+ * Adds a git worktree for a task on branch `steer/<slug>/<taskId>`, starting
+ * at `baseRef`. A worktree left over from an earlier start is reused.
+ */
+export async function createTaskWorktree(projectRoot: string, slug: string, taskId: string, baseRef: string): Promise<TaskWorktree> {
+  const worktree = { path: join('.fleet', 'steer', 'worktrees', slug, taskId), branch: `steer/${slug}/${taskId}` };
+  if (await pathExists(join(projectRoot, worktree.path))) return worktree;
+  const branchExists = spawnSync('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${worktree.branch}`], { cwd: projectRoot }).status === 0;
+  const args = branchExists ? ['worktree', 'add', worktree.path, worktree.branch] : ['worktree', 'add', '-b', worktree.branch, worktree.path, baseRef];
+  const result = spawnSync('git', args, { cwd: projectRoot, encoding: 'utf8' });
+  if (result.status !== 0) throw new SteerError(`Could not create a worktree for ${taskId}: ${(result.stderr || result.error?.message || '').trim()}`);
+  return worktree;
+}
+
+/**
+ * Branches of the task's dependencies whose work is not in the project's
+ * `HEAD` yet, so a task starting from `HEAD` would not see it.
+ */
+export function unmergedDependencyBranches(projectRoot: string, task: TaskStatusFile, statuses: TaskStatusFile[]): string[] {
+  return task.deps
+    .map((dep) => statuses.find((status) => status.id === dep)?.branch)
+    .filter((branch): branch is string => branch !== undefined)
+    // Exit code 1 means not an ancestor; a branch deleted after merging errors instead.
+    .filter((branch) => spawnSync('git', ['merge-base', '--is-ancestor', branch, 'HEAD'], { cwd: projectRoot }).status === 1);
+}
+
+/** Where a task's work lives: its worktree, or the project root. */
+export function taskRoot(projectRoot: string, task: TaskStatusFile): string {
+  return task.worktree_path ? join(projectRoot, task.worktree_path) : projectRoot;
+}
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { execFileSync } from 'node:child_process';
 import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
-async function runFleet(cwd: string, args: string[], stdin?: string) {
-  const proc = Bun.spawn(['bun', join(import.meta.dir, '../../../src/index.ts'), ...args], { cwd, stdin: stdin ? 'pipe' : 'ignore', stdout: 'pipe', stderr: 'pipe' });
+async function runFleet(cwd: string, args: string[], stdin?: string, env: Record<string, string> = {}) {
+  const proc = Bun.spawn(['bun', join(import.meta.dir, '../../../src/index.ts'), ...args], { cwd, env: { ...process.env, ...env }, stdin: stdin ? 'pipe' : 'ignore', stdout: 'pipe', stderr: 'pipe' });
   if (stdin && proc.stdin) {
     proc.stdin.write(stdin);
     proc.stdin.end();
@@ -66,4 +67,125 @@ describe('fleet steer CLI', () => {
     expect(start.code).toBe(1);
     expect(start.stderr).toContain('Cannot start tasks while change is in context phase');
   });
+
+  it('runs independent tasks in parallel worktrees and verifies each by id', async () => {
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Fleet', '-c', 'user.email=fleet@example.com', ...args], { cwd: tempDir });
+    git('init', '-q');
+    await fs.writeFile(join(tempDir, '.gitignore'), '.fleet/\nspecs/\n');
+    await fs.writeFile(join(tempDir, 'notes.md'), 'notes\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial');
+    await runFleet(tempDir, ['steer', 'init', 'par']);
+    const dir = join(tempDir, 'specs', 'par');
+    await fs.writeFile(join(dir, '05-tasks.md'), '- [ ] Write alpha\n- [ ] Write beta\n- [ ] Combine (deps: 001-write-alpha, 002-write-beta)\n');
+    await fs.writeFile(join(dir, 'state.json'), JSON.stringify({ ...JSON.parse(await fs.readFile(join(dir, 'state.json'), 'utf8')), phase: 'tasks' }));
+
+    expect((await runFleet(tempDir, ['steer', 'task', 'start', 'par'])).code).toBe(0);
+    const serial = await runFleet(tempDir, ['steer', 'task', 'start', 'par']);
+    expect(serial.code).toBe(1);
+    expect(serial.stderr).toContain('Pass --parallel');
+    const beta = await runFleet(tempDir, ['steer', 'task', 'start', 'par', '--parallel']);
+    expect(beta.code).toBe(0);
+    expect(beta.stdout).toContain('Write beta');
+    expect(beta.stderr).toContain(`runs in ${join('.fleet', 'steer', 'worktrees', 'par', '002-write-beta')} on branch steer/par/002-write-beta`);
+    expect((await runFleet(tempDir, ['steer', 'task', 'start', 'par', '--parallel'])).stderr).toContain('No ready pending task found');
+
+    const betaRoot = join(tempDir, '.fleet', 'steer', 'worktrees', 'par', '002-write-beta');
+    await fs.writeFile(join(betaRoot, 'notes.md'), 'notes\nbeta\n');
+    await fs.writeFile(join(tempDir, 'notes.md'), 'notes\nalpha\n');
+    expect((await runFleet(tempDir, ['steer', 'verify', 'par', '--no-tests'])).stderr).toContain('Several tasks are active (001-write-alpha, 002-write-beta); pass --task <taskId>');
+    const review = await runFleet(tempDir, ['steer', 'verify', 'par', '--task', '002-write-beta', '--no-tests']);
+    expect(review.code).toBe(0);
+    expect(review.stdout).toContain('+beta');
+    expect(review.stdout).not.toContain('+alpha');
+
+    const ingest = await runFleet(tempDir, ['steer', 'verify', 'par', '--ingest-review'], '{"status":"pass","round":1,"lens":"custom","issues":[]}', { STEER_SOLO_MOCK: '1' });
+    expect(ingest.stdout).toContain('Task 002-write-beta verified and handed off to Solo. Its work is on branch steer/par/002-write-beta.');
+
+    const state = JSON.parse(await fs.readFile(join(dir, 'state.json'), 'utf8'));
+    expect(state.phase).toBe('execute');
+    expect(state.active_tasks).toEqual(['001-write-alpha']);
+    expect(state.history.filter((entry: { action: string }) => entry.action === 'task-start').map((entry: { detail: string }) => entry.detail))
+      .toEqual(['001-write-alpha', '002-write-beta']);
+    const alpha = JSON.parse(await fs.readFile(join(dir, 'tasks', '001-write-alpha', 'status.json'), 'utf8'));
+    expect(alpha.status).toBe('active');
+    expect(alpha.worktree_path).toBeUndefined();
+  });
+
+  it('starts a parallel task from the branch of the dependency it waits on', async () => {
+    const git = (cwd: string, ...args: string[]) => execFileSync('git', ['-c', 'user.name=Fleet', '-c', 'user.email=fleet@example.com', ...args], { cwd, encoding: 'utf8' });
+    git(tempDir, 'init', '-q');
+    await fs.writeFile(join(tempDir, '.gitignore'), '.fleet/\nspecs/\n');
+    await fs.writeFile(join(tempDir, 'notes.md'), 'notes\n');
+    git(tempDir, 'add', '-A');
+    git(tempDir, 'commit', '-q', '-m', 'Initial');
+    await runFleet(tempDir, ['steer', 'init', 'chain']);
+    const dir = join(tempDir, 'specs', 'chain');
+    await fs.writeFile(join(dir, '05-tasks.md'), '- [ ] Write alpha\n- [ ] Extend alpha (deps: 001-write-alpha)\n');
+    await fs.writeFile(join(dir, 'state.json'), JSON.stringify({ ...JSON.parse(await fs.readFile(join(dir, 'state.json'), 'utf8')), phase: 'tasks' }));
+
+    expect((await runFleet(tempDir, ['steer', 'task', 'start', 'chain', '--parallel'])).code).toBe(0);
+    const alphaRoot = join(tempDir, '.fleet', 'steer', 'worktrees', 'chain', '001-write-alpha');
+    await fs.writeFile(join(alphaRoot, 'alpha.md'), 'alpha\n');
+    git(alphaRoot, 'add', '-A');
+    git(alphaRoot, 'commit', '-q', '-m', 'Write alpha');
+    expect((await runFleet(tempDir, ['steer', 'verify', 'chain', '--no-tests'])).stdout).toContain('+alpha');
+    const pass = '{"status":"pass","round":1,"lens":"custom","issues":[]}';
+    expect((await runFleet(tempDir, ['steer', 'verify', 'chain', '--ingest-review'], pass, { STEER_SOLO_MOCK: '1' })).code).toBe(0);
+
+    const inRoot = await runFleet(tempDir, ['steer', 'task', 'start', 'chain', '--parallel', '--no-worktree']);
+    expect(inRoot.code).toBe(1);
+    expect(inRoot.stderr).toContain('Task 002-extend-alpha depends on work not merged yet; merge steer/chain/001-write-alpha into the project first.');
+
+    expect((await runFleet(tempDir, ['steer', 'task', 'start', 'chain', '--parallel'])).code).toBe(0);
+    const extend = JSON.parse(await fs.readFile(join(dir, 'tasks', '002-extend-alpha', 'status.json'), 'utf8'));
+    expect(extend.base_ref).toBe(git(tempDir, 'rev-parse', 'steer/chain/001-write-alpha').trim());
+    expect(await fs.readFile(join(tempDir, extend.worktree_path, 'alpha.md'), 'utf8')).toBe('alpha\n');
+  });
+
+  it('runs a task on a harness and ingests the reviewer harness verdict', async () => {
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Fleet', '-c', 'user.email=fleet@example.com', ...args], { cwd: tempDir });
+    git('init', '-q');
+    await fs.writeFile(join(tempDir, '.gitignore'), 'specs/\n*.sh\nfleet.routing.yaml\n');
+    await fs.writeFile(join(tempDir, 'notes.md'), 'notes\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial');
+    await fs.writeFile(join(tempDir, 'write.sh'), `printf 'notes\\nmore\\n' > notes.md\necho '{"status":"completed","summary":"Extended notes","filesChanged":["notes.md"]}'\n`);
+    await fs.writeFile(join(tempDir, 'review.sh'), `echo '${JSON.stringify({ status: 'completed', summary: JSON.stringify({ status: 'pass', round: 1, lens: 'custom', issues: [] }), filesChanged: [] })}'\n`);
+    await fs.writeFile(join(tempDir, 'stuck.sh'), `echo '{"status":"failed","summary":"Blocked","filesChanged":[],"error":"no access"}'\n`);
+    await fs.writeFile(join(tempDir, 'fleet.routing.yaml'), [
+      'defaults:',
+      '  harness: writer',
+      'rules: []',
+      'harnesses:',
+      ...['writer', 'review', 'stuck'].flatMap((id) => [`  - id: ${id}`, '    command: "true"', `    run_template: sh ${join(tempDir, `${id === 'writer' ? 'write' : id}.sh`)}`]),
+      '',
+    ].join('\n'));
+    await runFleet(tempDir, ['steer', 'init', 'run-change']);
+    const dir = join(tempDir, 'specs', 'run-change');
+    await fs.writeFile(join(dir, '05-tasks.md'), '- [ ] Extend notes\n- [ ] Polish notes (deps: 001-extend-notes)\n');
+    await fs.writeFile(join(dir, 'state.json'), JSON.stringify({ ...JSON.parse(await fs.readFile(join(dir, 'state.json'), 'utf8')), phase: 'tasks' }));
+
+    const unknown = await runFleet(tempDir, ['steer', 'task', 'run', 'run-change', '--reviewer', 'nope']);
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toContain('Unknown harness: nope');
+    expect(JSON.parse(await fs.readFile(join(dir, 'state.json'), 'utf8')).phase).toBe('tasks');
+
+    const run = await runFleet(tempDir, ['steer', 'task', 'run', 'run-change', '--reviewer', 'review', '--no-tests'], undefined, { STEER_SOLO_MOCK: '1' });
+
+    expect(run.stderr).toContain('Harness finished 001-extend-notes: Extended notes');
+    expect(run.stdout).toBe('Task 001-extend-notes verified and handed off to Solo.\n');
+    expect(run.code).toBe(0);
+    expect(await fs.readFile(join(tempDir, 'notes.md'), 'utf8')).toBe('notes\nmore\n');
+    expect(JSON.parse(await fs.readFile(join(dir, 'tasks', '001-extend-notes', 'run-result.json'), 'utf8'))).toMatchObject({ harness: 'writer', status: 'completed', filesChanged: ['notes.md'] });
+    expect(await fs.readFile(join(dir, 'tasks', '001-extend-notes', 'verify-result.md'), 'utf8')).toContain('"status": "pass"');
+
+    const stuck = await runFleet(tempDir, ['steer', 'task', 'run', 'run-change', '--harness', 'stuck']);
+    expect(stuck.code).toBe(1);
+    expect(stuck.stderr).toContain('Harness did not complete 002-polish-notes (failed): no access');
+    expect(JSON.parse(await fs.readFile(join(dir, 'tasks', '002-polish-notes', 'status.json'), 'utf8')).status).toBe('failed');
+    const state = JSON.parse(await fs.readFile(join(dir, 'state.json'), 'utf8'));
+    expect(state.active_tasks).toEqual([]);
+    expect(state.history.at(-1)).toMatchObject({ action: 'task-run-failed', detail: '002-polish-notes' });
+  });
 });
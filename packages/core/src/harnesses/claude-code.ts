@@ -1,23 +1,49 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { HarnessAvailability, HarnessLaunchRequest, HarnessRunResult } from '../orchestration/types.js';
+import type {
+  HarnessAvailability,
+  HarnessId,
+  HarnessLaunchRequest,
+  HarnessPolicy,
+  HarnessProgressEvent,
+  HarnessRunResult,
+  HarnessTool,
+  HarnessUsage,
+} from '../orchestration/types.js';
+import { HARNESS_TOOLS, parseBashPattern, resolveHarnessPolicy } from './policy.js';
+import { runHarnessProcess } from './process.js';
+import { extractResultJson, normalizeHarnessResult } from './result-validator.js';
 import type { HarnessAdapter } from './types.js';
 
 const execFileAsync = promisify(execFile);
 
-const RESULT_SCHEMA = JSON.stringify({
-  type: 'object',
-  properties: {
-    status: { type: 'string', enum: ['completed', 'failed', 'handoff'] },
-    summary: { type: 'string' },
-    remainingWork: { type: 'string' },
-    nextWorker: { type: 'string', enum: ['claude-code', 'opencode', 'codex'] },
-    filesChanged: { type: 'array', items: { type: 'string' } },
-    error: { type: 'string' },
-  },
-  required: ['status', 'summary', 'filesChanged'],
-  additionalProperties: false,
-});
+/** The `--json-schema` Claude Code must answer with; `nextWorker` is limited to `harnesses` when given. */
+export function claudeResultSchema(harnesses?: readonly HarnessId[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['completed', 'failed', 'handoff'] },
+      summary: { type: 'string' },
+      remainingWork: { type: 'string' },
+      nextWorker: harnesses && harnesses.length > 0 ? { type: 'string', enum: [...harnesses] } : { type: 'string' },
+      filesChanged: { type: 'array', items: { type: 'string' } },
+      error: { type: 'string' },
+    },
+    required: ['status', 'summary', 'filesChanged'],
+    additionalProperties: false,
+  };
+}
+
+const CLAUDE_TOOLS: Record<HarnessTool, string> = {
+  read: 'Read',
+  edit: 'Edit',
+  write: 'Write',
+  bash: 'Bash',
+  glob: 'Glob',
+  grep: 'Grep',
+  web_fetch: 'WebFetch',
+  web_search: 'WebSearch',
+};
 
 export class ClaudeCodeHarnessAdapter implements HarnessAdapter {
   readonly id = 'claude-code' as const;
@@ -41,28 +67,110 @@ export class ClaudeCodeHarnessAdapter implements HarnessAdapter {
     const args = [
       '--print',
       '--output-format',
-      'json',
+      'stream-json',
+      '--verbose',
       '--json-schema',
-      RESULT_SCHEMA,
-      '--allowedTools',
-      'Read,Edit,Write,Bash,Glob,Grep',
-      '--add-dir',
-      request.worktreePath,
+      JSON.stringify(claudeResultSchema(request.harnesses)),
+      ...claudePolicyArgs(request.policy ?? resolveHarnessPolicy(), request.worktreePath),
       request.prompt,
     ];
 
-    const { stdout, stderr } = await execFileAsync(this.command, args, {
+    const { stdout, stderr } = await runHarnessProcess(this.command, args, {
       cwd: request.worktreePath,
-      timeout: request.timeoutMs,
-      maxBuffer: 1024 * 1024 * 10,
+      timeoutMs: request.timeoutMs,
+      ...(request.logFile ? { logFile: request.logFile } : {}),
+      ...(request.signal ? { signal: request.signal } : {}),
+      ...(request.onSpawn ? { onSpawn: request.onSpawn } : {}),
+      onStdoutLine: line => {
+        if (!request.onProgress) return;
+        for (const event of parseClaudeStreamEvent(line)) {
+          request.onProgress(event);
+        }
+      },
     });
 
-    return normalizeClaudeResult(stdout, stderr);
+    return normalizeClaudeResult(stdout, stderr, request.harnesses);
   }
 }
 
-function normalizeClaudeResult(stdout: string, stderr: string): HarnessRunResult {
-  const raw = stdout.trim() || stderr.trim();
+/**
+ * Translates a harness policy into Claude Code permission flags. Tools left
+ * out of the policy are disallowed; bash patterns become `Bash(...)` rules.
+ * Network access is only governed through the web tools.
+ */
+export function claudePolicyArgs(policy: HarnessPolicy, worktreePath: string): string[] {
+  const allowed = policy.tools.flatMap(tool => (tool === 'bash' && policy.bash.allow.length > 0
+    ? policy.bash.allow.map(claudeBashRule)
+    : [CLAUDE_TOOLS[tool]]));
+  const denied = [
+    ...HARNESS_TOOLS.filter(tool => !policy.tools.includes(tool)).map(tool => CLAUDE_TOOLS[tool]),
+    ...(policy.tools.includes('bash') ? policy.bash.deny.map(claudeBashRule) : []),
+  ];
+
+  return [
+    '--allowedTools',
+    allowed.join(','),
+    ...(denied.length > 0 ? ['--disallowedTools', denied.join(',')] : []),
+    '--add-dir',
+    worktreePath,
+    ...policy.read_dirs.flatMap(dir => ['--add-dir', dir]),
+  ];
+}
+
+function claudeBashRule(pattern: string): string {
+  const { command, prefix } = parseBashPattern(pattern);
+  if (!command) return 'Bash';
+  return prefix ? `Bash(${command}:*)` : `Bash(${command})`;
+}
+
+/**
+ * Turns one line of `--output-format stream-json` output into progress events.
+ * Lines that are not JSON or carry nothing worth showing yield no events.
+ */
+export function parseClaudeStreamEvent(line: string): HarnessProgressEvent[] {
+  let event: Record<string, unknown>;
+  try {
+    event = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return [];
+  }
+
+  if (event.type === 'system' && event.subtype === 'init') {
+    return [{ kind: 'init', text: `Session started${typeof event.model === 'string' ? ` (${event.model})` : ''}` }];
+  }
+
+  if (event.type === 'assistant') {
+    const message = event.message as { content?: unknown } | undefined;
+    const blocks = Array.isArray(message?.content) ? message.content as Array<Record<string, unknown>> : [];
+    return blocks.flatMap((block): HarnessProgressEvent[] => {
+      if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+        return [{ kind: 'message', text: block.text.trim() }];
+      }
+      if (block.type === 'tool_use' && typeof block.name === 'string') {
+        return [{ kind: 'tool_use', text: describeToolUse(block.name, block.input) }];
+      }
+      return [];
+    });
+  }
+
+  if (event.type === 'result') {
+    const turns = typeof event.num_turns === 'number' ? ` after ${event.num_turns} turn(s)` : '';
+    return [{ kind: 'result', text: `Finished (${String(event.subtype ?? 'unknown')})${turns}` }];
+  }
+
+  return [];
+}
+
+function describeToolUse(name: string, input: unknown): string {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  const target = fields.file_path ?? fields.command ?? fields.pattern ?? fields.path;
+  return typeof target === 'string' ? `${name} ${target}` : name;
+}
+
+function normalizeClaudeResult(stdout: string, stderr: string, harnesses?: readonly HarnessId[]): HarnessRunResult {
+  const resultEvent = extractResultEvent(stdout);
+  const raw = resultEvent ?? (stdout.trim() || stderr.trim());
+  const usage = resultEvent ? parseClaudeUsage(JSON.parse(resultEvent) as Record<string, unknown>) : undefined;
   if (!raw) {
     return {
       status: 'failed',
@@ -73,55 +181,76 @@ function normalizeClaudeResult(stdout: string, stderr: string): HarnessRunResult
     };
   }
 
-  try {
-    const parsed = JSON.parse(raw) as Record<string, unknown>;
-    const candidate = extractStructuredPayload(parsed);
-    return {
-      status: candidate.status,
-      summary: candidate.summary,
-      remainingWork: candidate.remainingWork,
-      nextWorker: candidate.nextWorker,
-      filesChanged: candidate.filesChanged,
-      error: candidate.error,
-      rawOutput: raw,
-    };
-  } catch {
-    return {
-      status: 'failed',
-      summary: 'Claude Code returned unparsable output',
-      filesChanged: [],
-      error: 'invalid_json',
-      rawOutput: raw,
-    };
-  }
+  return normalizeHarnessResult(extractStructuredPayload(extractResultJson(raw)), {
+    label: 'Claude Code',
+    harnesses,
+    rawOutput: raw,
+    usage,
+  });
 }
 
-function extractStructuredPayload(parsed: Record<string, unknown>): {
-  status: 'completed' | 'failed' | 'handoff';
-  summary: string;
-  remainingWork?: string;
-  nextWorker?: 'claude-code' | 'opencode' | 'codex';
-  filesChanged: string[];
-  error?: string;
-} {
-  if (typeof parsed.status === 'string' && typeof parsed.summary === 'string') {
-    return {
-      status: parsed.status as 'completed' | 'failed' | 'handoff',
-      summary: parsed.summary,
-      remainingWork: typeof parsed.remainingWork === 'string' ? parsed.remainingWork : undefined,
-      nextWorker: typeof parsed.nextWorker === 'string' ? parsed.nextWorker as 'claude-code' | 'opencode' | 'codex' : undefined,
-      filesChanged: Array.isArray(parsed.filesChanged) ? parsed.filesChanged.map(item => String(item)) : [],
-      error: typeof parsed.error === 'string' ? parsed.error : undefined,
-    };
-  }
+/**
+ * Reads token counts and cost from a `result` event. Cache reads and writes
+ * are billed as input, so they count towards `inputTokens`.
+ */
+export function parseClaudeUsage(resultEvent: Record<string, unknown>): HarnessUsage | undefined {
+  const counts = (resultEvent.usage ?? {}) as Record<string, unknown>;
+  const number = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+  const inputParts = [counts.input_tokens, counts.cache_creation_input_tokens, counts.cache_read_input_tokens]
+    .map(number)
+    .filter((value): value is number => value !== undefined);
+  const inputTokens = inputParts.length > 0 ? inputParts.reduce((sum, value) => sum + value, 0) : undefined;
+  const outputTokens = number(counts.output_tokens);
+  const costUsd = number(resultEvent.total_cost_usd) ?? number(resultEvent.cost_usd);
 
-  if (typeof parsed.result === 'string') {
-    return extractStructuredPayload(JSON.parse(parsed.result));
+  const usage: HarnessUsage = {
+    ...(inputTokens !== undefined ? { inputTokens } : {}),
+    ...(outputTokens !== undefined ? { outputTokens } : {}),
+    ...(inputTokens !== undefined || outputTokens !== undefined
+      ? { totalTokens: (inputTokens ?? 0) + (outputTokens ?? 0) }
+      : {}),
+    ...(costUsd !== undefined ? { costUsd } : {}),
+  };
+  return Object.keys(usage).length > 0 ? usage : undefined;
+}
+
+/**
+ * Unwraps the result payload from a `result` event: `structured_output` when
+ * `--json-schema` was honoured, otherwise the JSON inside the final text.
+ */
+function extractStructuredPayload(parsed: unknown): unknown {
+  if (typeof parsed !== 'object' || parsed === null || 'status' in parsed) {
+    return parsed;
   }
 
-  if (typeof parsed.content === 'string') {
-    return extractStructuredPayload(JSON.parse(parsed.content));
+  const event = parsed as Record<string, unknown>;
+  if (typeof event.structured_output === 'object' && event.structured_output !== null) {
+    return extractStructuredPayload(event.structured_output);
   }
+  for (const text of [event.result, event.content]) {
+    if (typeof text === 'string') {
+      return extractStructuredPayload(extractResultJson(text));
+    }
+  }
+  return parsed;
+}
 
-  throw new Error('No structured payload found');
+/**
+ * stream-json output ends with a `result` event that carries the same payload
+ * as `--output-format json`; earlier lines are progress events.
+ */
+function extractResultEvent(stdout: string): string | undefined {
+  const lines = stdout.trim().split('\n');
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index]!.trim();
+    if (!line.startsWith('{')) continue;
+    try {
+      const parsed = JSON.parse(line) as Record<string, unknown>;
+      if (parsed.type === 'result') return line;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
 }
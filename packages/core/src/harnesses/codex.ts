@@ -1,6 +1,16 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { HarnessAvailability, HarnessLaunchRequest, HarnessRunResult } from '../orchestration/types.js';
+import type {
+  HarnessAvailability,
+  HarnessId,
+  HarnessLaunchRequest,
+  HarnessPolicy,
+  HarnessRunResult,
+  HarnessUsage,
+} from '../orchestration/types.js';
+import { allowsWrites, resolveHarnessPolicy } from './policy.js';
+import { runHarnessProcess } from './process.js';
+import { describeNextWorkers, extractResultJson, normalizeHarnessResult } from './result-validator.js';
 import type { HarnessAdapter } from './types.js';
 
 const execFileAsync = promisify(execFile);
@@ -40,24 +50,41 @@ export class CodexHarnessAdapter implements HarnessAdapter {
 
     const args = [
       'exec',
-      '--full-auto',
-      '--sandbox', 'workspace-write',
+      ...codexPolicyArgs(request.policy ?? resolveHarnessPolicy()),
       '-C', request.worktreePath,
       prompt,
     ];
 
-    const { stdout, stderr } = await execFileAsync(this.command, args, {
+    const { stdout, stderr } = await runHarnessProcess(this.command, args, {
       cwd: request.worktreePath,
-      timeout: request.timeoutMs,
-      maxBuffer: 1024 * 1024 * 10,
+      timeoutMs: request.timeoutMs,
       env: { ...process.env, TERM: 'dumb', NO_COLOR: '1' },
+      ...(request.logFile ? { logFile: request.logFile } : {}),
+      ...(request.signal ? { signal: request.signal } : {}),
+      ...(request.onSpawn ? { onSpawn: request.onSpawn } : {}),
     });
 
-    return normalizeCodexResult(stdout, stderr);
+    return normalizeCodexResult(stdout, stderr, request.harnesses);
   }
 }
 
-function buildCodexPrompt(request: HarnessLaunchRequest): string {
+/**
+ * Translates a harness policy into a Codex sandbox. Codex has no per-tool or
+ * per-command controls: a policy without `edit` or `write` runs read-only,
+ * and `network` opens network access inside the writable sandbox.
+ */
+export function codexPolicyArgs(policy: HarnessPolicy): string[] {
+  if (!allowsWrites(policy)) {
+    return ['--sandbox', 'read-only'];
+  }
+  return [
+    '--full-auto',
+    '--sandbox', 'workspace-write',
+    ...(policy.network ? ['-c', 'sandbox_workspace_write.network_access=true'] : []),
+  ];
+}
+
+export function buildCodexPrompt(request: Pick<HarnessLaunchRequest, 'prompt' | 'harnesses'>): string {
   const parts = [request.prompt];
   parts.push('');
   parts.push('After completing the task, respond with a JSON object with these fields:');
@@ -65,14 +92,15 @@ function buildCodexPrompt(request: HarnessLaunchRequest): string {
   parts.push('- summary: brief description of what was done');
   parts.push('- filesChanged: array of file paths modified');
   parts.push('- remainingWork: (optional) description of remaining work for handoff');
-  parts.push('- nextWorker: (optional) "claude-code", "opencode", or "codex"');
+  parts.push(`- nextWorker: (optional) ${describeNextWorkers(request.harnesses)}`);
   parts.push('- error: (optional) error description if failed');
   parts.push('Output ONLY the JSON object, no other text.');
   return parts.join('\n');
 }
 
-function normalizeCodexResult(stdout: string, stderr: string): HarnessRunResult {
+function normalizeCodexResult(stdout: string, stderr: string, harnesses?: readonly HarnessId[]): HarnessRunResult {
   const raw = stripAnsi(stdout.trim() || stderr.trim());
+  const usage = parseCodexUsage(stripAnsi(`${stdout}\n${stderr}`));
   if (!raw) {
     return {
       status: 'failed',
@@ -83,40 +111,19 @@ function normalizeCodexResult(stdout: string, stderr: string): HarnessRunResult
     };
   }
 
-  const jsonStr = extractJsonBlock(raw);
-
-  try {
-    const parsed = JSON.parse(jsonStr) as Record<string, unknown>;
-    return {
-      status: (['completed', 'failed', 'handoff'].includes(String(parsed.status))
-        ? parsed.status as 'completed' | 'failed' | 'handoff'
-        : 'completed'),
-      summary: typeof parsed.summary === 'string' ? parsed.summary : 'Codex run completed',
-      remainingWork: typeof parsed.remainingWork === 'string' ? parsed.remainingWork : undefined,
-      nextWorker: typeof parsed.nextWorker === 'string' ? parsed.nextWorker as 'claude-code' | 'opencode' | 'codex' : undefined,
-      filesChanged: Array.isArray(parsed.filesChanged) ? parsed.filesChanged.map(String) : [],
-      error: typeof parsed.error === 'string' ? parsed.error : undefined,
-      rawOutput: raw,
-    };
-  } catch {
-    return {
-      status: 'completed',
-      summary: raw.slice(0, 500),
-      filesChanged: [],
-      rawOutput: raw,
-    };
-  }
+  return normalizeHarnessResult(extractResultJson(raw), { label: 'Codex', harnesses, rawOutput: raw, usage });
 }
 
-function extractJsonBlock(text: string): string {
-  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/);
-  if (fenced) return fenced[1].trim();
-  const braceStart = text.indexOf('{');
-  const braceEnd = text.lastIndexOf('}');
-  if (braceStart !== -1 && braceEnd > braceStart) {
-    return text.slice(braceStart, braceEnd + 1);
-  }
-  return text;
+/**
+ * `codex exec` ends with a combined `tokens used` count, either on the same
+ * line or the next one. It reports no cost or input/output split.
+ */
+export function parseCodexUsage(output: string): HarnessUsage | undefined {
+  const matches = Array.from(output.matchAll(/tokens used:?\s*(\d[\d,]*)/gi));
+  const last = matches[matches.length - 1];
+  if (!last?.[1]) return undefined;
+  const totalTokens = Number(last[1].replace(/,/g, ''));
+  return Number.isFinite(totalTokens) ? { totalTokens } : undefined;
 }
 
 function stripAnsi(text: string): string {
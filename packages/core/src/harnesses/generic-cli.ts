@@ -1,6 +1,9 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 import type { HarnessAvailability, HarnessId, HarnessLaunchRequest, HarnessRunResult } from '../orchestration/types.js';
+import { resolveHarnessPolicy } from './policy.js';
+import { runHarnessProcess } from './process.js';
+import { extractResultJson, normalizeHarnessResult } from './result-validator.js';
 import type { HarnessAdapter } from './types.js';
 
 const execFileAsync = promisify(execFile);
@@ -20,7 +23,10 @@ export class GenericCliHarnessAdapter implements HarnessAdapter {
 
   async probeAvailability(): Promise<HarnessAvailability> {
     try {
-      await execFileAsync(this.command, this.versionArgs, { cwd: process.cwd() });
+      await execFileAsync(this.command, this.versionArgs, {
+        cwd: process.cwd(),
+        timeout: 10_000,
+      });
       return { harness: this.id, status: 'available', command: this.command };
     } catch (error) {
       return {
@@ -42,38 +48,49 @@ export class GenericCliHarnessAdapter implements HarnessAdapter {
       };
     }
 
-    const expanded = this.runTemplate
-      .replaceAll('{worktree}', request.worktreePath)
-      .replaceAll('{prompt}', request.prompt)
-      .replaceAll('{sessionId}', request.sessionId)
-      .replaceAll('{taskId}', request.task.taskId);
+    const expanded = expandRunTemplate(this.runTemplate, request);
 
-    const { stdout, stderr } = await execFileAsync('/bin/sh', ['-lc', expanded], {
+    const { stdout, stderr } = await runHarnessProcess('/bin/sh', ['-lc', expanded], {
       cwd: request.worktreePath,
-      timeout: request.timeoutMs,
-      maxBuffer: 1024 * 1024 * 10,
+      timeoutMs: request.timeoutMs,
+      // Custom harnesses enforce the policy themselves, if at all.
+      env: { ...process.env, FLEET_HARNESS_POLICY: JSON.stringify(request.policy ?? resolveHarnessPolicy()) },
+      ...(request.logFile ? { logFile: request.logFile } : {}),
+      ...(request.signal ? { signal: request.signal } : {}),
+      ...(request.onSpawn ? { onSpawn: request.onSpawn } : {}),
     });
 
     const raw = stdout.trim() || stderr.trim();
-    try {
-      const parsed = JSON.parse(raw) as Record<string, unknown>;
-      return {
-        status: parsed.status as 'completed' | 'failed' | 'handoff',
-        summary: String(parsed.summary ?? `${this.id} run completed`),
-        remainingWork: typeof parsed.remainingWork === 'string' ? parsed.remainingWork : undefined,
-        nextWorker: typeof parsed.nextWorker === 'string' ? parsed.nextWorker as HarnessId : undefined,
-        filesChanged: Array.isArray(parsed.filesChanged) ? parsed.filesChanged.map(item => String(item)) : [],
-        error: typeof parsed.error === 'string' ? parsed.error : undefined,
-        rawOutput: raw,
-      };
-    } catch {
+    if (!raw) {
       return {
         status: 'failed',
-        summary: `${this.id} returned unstructured output`,
+        summary: `${this.id} returned no output`,
         filesChanged: [],
-        error: 'invalid_json',
+        error: 'empty_output',
         rawOutput: raw,
       };
     }
+
+    return normalizeHarnessResult(extractResultJson(raw), {
+      label: this.id,
+      harnesses: request.harnesses,
+      rawOutput: raw,
+    });
   }
 }
+
+/**
+ * Placeholders expand to single-quoted shell words, so templates must not wrap
+ * them in their own quotes: `aider --message {prompt}`, not `--message "{prompt}"`.
+ */
+export function expandRunTemplate(template: string, request: HarnessLaunchRequest): string {
+  return template
+    .replaceAll('{worktree}', shellQuote(request.worktreePath))
+    .replaceAll('{prompt}', shellQuote(request.prompt))
+    .replaceAll('{sessionId}', shellQuote(request.sessionId))
+    .replaceAll('{taskId}', shellQuote(request.task.taskId));
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replaceAll("'", `'\\''`)}'`;
+}
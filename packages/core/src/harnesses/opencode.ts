@@ -1,6 +1,16 @@
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { HarnessAvailability, HarnessLaunchRequest, HarnessRunResult } from '../orchestration/types.js';
+import type {
+  HarnessAvailability,
+  HarnessId,
+  HarnessLaunchRequest,
+  HarnessPolicy,
+  HarnessRunResult,
+  HarnessUsage,
+} from '../orchestration/types.js';
+import { allowsWrites, resolveHarnessPolicy } from './policy.js';
+import { runHarnessProcess } from './process.js';
+import { describeNextWorkers, extractResultJson, normalizeHarnessResult } from './result-validator.js';
 import type { HarnessAdapter } from './types.js';
 
 const execFileAsync = promisify(execFile);
@@ -46,18 +56,56 @@ export class OpenCodeHarnessAdapter implements HarnessAdapter {
       prompt,
     ];
 
-    const { stdout, stderr } = await execFileAsync(this.command, args, {
+    const { stdout, stderr } = await runHarnessProcess(this.command, args, {
       cwd: request.worktreePath,
-      timeout: request.timeoutMs,
-      maxBuffer: 1024 * 1024 * 10,
-      env: { ...process.env, TERM: 'dumb', NO_COLOR: '1' },
+      timeoutMs: request.timeoutMs,
+      env: {
+        ...process.env,
+        TERM: 'dumb',
+        NO_COLOR: '1',
+        OPENCODE_CONFIG_CONTENT: JSON.stringify(openCodePolicyConfig(request.policy ?? resolveHarnessPolicy())),
+      },
+      ...(request.logFile ? { logFile: request.logFile } : {}),
+      ...(request.signal ? { signal: request.signal } : {}),
+      ...(request.onSpawn ? { onSpawn: request.onSpawn } : {}),
     });
 
-    return normalizeOpenCodeResult(stdout, stderr);
+    return normalizeOpenCodeResult(stdout, stderr, request.harnesses);
   }
 }
 
-function buildOpenCodePrompt(request: HarnessLaunchRequest): string {
+/**
+ * Translates a harness policy into OpenCode config, passed inline through
+ * `OPENCODE_CONFIG_CONTENT`: tools are switched on or off and bash patterns
+ * become permission rules, which OpenCode matches as globs. OpenCode has no
+ * network switch or readable-directory list, so only the web tool follows
+ * `network`.
+ */
+export function openCodePolicyConfig(policy: HarnessPolicy): Record<string, unknown> {
+  const has = (tool: HarnessPolicy['tools'][number]) => policy.tools.includes(tool);
+  const bash: Record<string, 'allow' | 'deny'> = { '*': policy.bash.allow.length > 0 ? 'deny' : 'allow' };
+  for (const pattern of policy.bash.allow) bash[pattern] = 'allow';
+  for (const pattern of policy.bash.deny) bash[pattern] = 'deny';
+
+  return {
+    tools: {
+      read: has('read'),
+      edit: has('edit'),
+      write: has('write'),
+      bash: has('bash'),
+      glob: has('glob'),
+      grep: has('grep'),
+      webfetch: has('web_fetch'),
+    },
+    permission: {
+      edit: allowsWrites(policy) ? 'allow' : 'deny',
+      bash: has('bash') ? bash : 'deny',
+      webfetch: has('web_fetch') ? 'allow' : 'deny',
+    },
+  };
+}
+
+export function buildOpenCodePrompt(request: Pick<HarnessLaunchRequest, 'prompt' | 'harnesses'>): string {
   const parts = [request.prompt];
   parts.push('');
   parts.push('Respond with a JSON object with these fields:');
@@ -65,14 +113,15 @@ function buildOpenCodePrompt(request: HarnessLaunchRequest): string {
   parts.push('- summary: brief description of what was done');
   parts.push('- filesChanged: array of file paths modified');
   parts.push('- remainingWork: (optional) description of remaining work for handoff');
-  parts.push('- nextWorker: (optional) "claude-code", "opencode", or "codex"');
+  parts.push(`- nextWorker: (optional) ${describeNextWorkers(request.harnesses)}`);
   parts.push('- error: (optional) error description if failed');
   parts.push('Output ONLY the JSON object, no other text.');
   return parts.join('\n');
 }
 
-function normalizeOpenCodeResult(stdout: string, stderr: string): HarnessRunResult {
+function normalizeOpenCodeResult(stdout: string, stderr: string, harnesses?: readonly HarnessId[]): HarnessRunResult {
   const raw = stripAnsi(stdout.trim() || stderr.trim());
+  const usage = parseOpenCodeUsage(stdout);
   if (!raw) {
     return {
       status: 'failed',
@@ -83,40 +132,75 @@ function normalizeOpenCodeResult(stdout: string, stderr: string): HarnessRunResu
     };
   }
 
-  const jsonStr = extractJsonBlock(raw);
+  const text = collectOpenCodeText(stdout) ?? raw;
+  return normalizeHarnessResult(extractResultJson(text), { label: 'OpenCode', harnesses, rawOutput: raw, usage });
+}
 
-  try {
-    const parsed = JSON.parse(jsonStr) as Record<string, unknown>;
-    return {
-      status: (['completed', 'failed', 'handoff'].includes(String(parsed.status))
-        ? parsed.status as 'completed' | 'failed' | 'handoff'
-        : 'completed'),
-      summary: typeof parsed.summary === 'string' ? parsed.summary : 'OpenCode run completed',
-      remainingWork: typeof parsed.remainingWork === 'string' ? parsed.remainingWork : undefined,
-      nextWorker: typeof parsed.nextWorker === 'string' ? parsed.nextWorker as 'claude-code' | 'opencode' | 'codex' : undefined,
-      filesChanged: Array.isArray(parsed.filesChanged) ? parsed.filesChanged.map(String) : [],
-      error: typeof parsed.error === 'string' ? parsed.error : undefined,
-      rawOutput: raw,
-    };
-  } catch {
-    return {
-      status: 'completed',
-      summary: raw.slice(0, 500),
-      filesChanged: [],
-      rawOutput: raw,
-    };
+/**
+ * Joins the assistant text parts of `--format json` output, where the result
+ * JSON is written. Undefined when the output is not an event stream.
+ */
+function collectOpenCodeText(stdout: string): string | undefined {
+  const texts: string[] = [];
+  for (const line of stdout.split('\n')) {
+    if (!line.trim().startsWith('{')) continue;
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+    const part = (event.part ?? event) as Record<string, unknown>;
+    if (part.type === 'text' && typeof part.text === 'string') {
+      texts.push(part.text);
+    }
   }
+  return texts.length > 0 ? texts.join('\n') : undefined;
 }
 
-function extractJsonBlock(text: string): string {
-  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/);
-  if (fenced) return fenced[1].trim();
-  const braceStart = text.indexOf('{');
-  const braceEnd = text.lastIndexOf('}');
-  if (braceStart !== -1 && braceEnd > braceStart) {
-    return text.slice(braceStart, braceEnd + 1);
+/**
+ * Sums the `step_finish` events of `--format json` output. Each step reports
+ * its own tokens and cost; reasoning tokens count as output and cache reads
+ * and writes as input.
+ */
+export function parseOpenCodeUsage(stdout: string): HarnessUsage | undefined {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let costUsd = 0;
+  let steps = 0;
+  let costed = false;
+
+  for (const line of stdout.split('\n')) {
+    if (!line.trim().startsWith('{')) continue;
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+    const part = (event.part ?? event) as Record<string, unknown>;
+    if (part.type !== 'step-finish' && event.type !== 'step_finish') continue;
+    if (typeof part.tokens !== 'object' || part.tokens === null) continue;
+
+    const tokens = part.tokens as Record<string, unknown>;
+    const cache = (tokens.cache ?? {}) as Record<string, unknown>;
+    const count = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+    inputTokens += count(tokens.input) + count(cache.read) + count(cache.write);
+    outputTokens += count(tokens.output) + count(tokens.reasoning);
+    if (typeof part.cost === 'number' && Number.isFinite(part.cost)) {
+      costUsd += part.cost;
+      costed = true;
+    }
+    steps++;
   }
-  return text;
+
+  if (steps === 0) return undefined;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    ...(costed ? { costUsd } : {}),
+  };
 }
 
 function stripAnsi(text: string): string {
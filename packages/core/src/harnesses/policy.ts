@@ -0,0 +1,43 @@
+import type { HarnessPolicy, HarnessPolicyConfig, HarnessTool } from '../orchestration/types.js';
+
+export const HARNESS_TOOLS: HarnessTool[] = ['read', 'edit', 'write', 'bash', 'glob', 'grep', 'web_fetch', 'web_search'];
+
+/** Tools a harness gets when the policy does not list them; web tools only come with network access. */
+const DEFAULT_TOOLS: HarnessTool[] = ['read', 'edit', 'write', 'bash', 'glob', 'grep'];
+
+const WEB_TOOLS: HarnessTool[] = ['web_fetch', 'web_search'];
+
+/**
+ * Fills in a configured `policy` block. Without one, harnesses keep the
+ * defaults they always had: file and shell tools in the worktree, no network.
+ * Web tools are dropped while network access is off.
+ */
+export function resolveHarnessPolicy(config: HarnessPolicyConfig = {}): HarnessPolicy {
+  const network = config.network ?? false;
+  const tools = config.tools ?? (network ? [...DEFAULT_TOOLS, ...WEB_TOOLS] : DEFAULT_TOOLS);
+  return {
+    tools: network ? [...tools] : tools.filter(tool => !WEB_TOOLS.includes(tool)),
+    bash: {
+      allow: config.bash?.allow ?? [],
+      deny: config.bash?.deny ?? [],
+    },
+    network,
+    read_dirs: config.read_dirs ?? [],
+  };
+}
+
+export function allowsWrites(policy: HarnessPolicy): boolean {
+  return policy.tools.includes('edit') || policy.tools.includes('write');
+}
+
+/**
+ * Bash patterns are a command, or a command prefix followed by ` *`. Returns
+ * the fixed part and whether it is a prefix, for harnesses with their own
+ * pattern syntax.
+ */
+export function parseBashPattern(pattern: string): { command: string; prefix: boolean } {
+  const trimmed = pattern.trim();
+  return trimmed.endsWith(' *') || trimmed === '*'
+    ? { command: trimmed.slice(0, -1).trimEnd(), prefix: true }
+    : { command: trimmed, prefix: false };
+}
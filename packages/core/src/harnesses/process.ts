@@ -0,0 +1,270 @@
+import { spawn, type ChildProcessByStdio } from 'node:child_process';
+import { createWriteStream, type WriteStream } from 'node:fs';
+import type { Readable } from 'node:stream';
+
+/** Only the tail of each stream is kept in memory; the log file has everything. */
+const MAX_CAPTURED_BYTES = 4 * 1024 * 1024;
+
+/** How long a harness gets to exit after SIGTERM before it is sent SIGKILL. */
+export const DEFAULT_KILL_GRACE_MS = 5_000;
+
+/** Process groups spawned by this process that have not exited yet. */
+const liveGroups = new Set<number>();
+let exitHookInstalled = false;
+
+export interface HarnessProcessOptions {
+  cwd: string;
+  timeoutMs: number;
+  env?: NodeJS.ProcessEnv;
+  logFile?: string;
+  onStdoutLine?: (line: string) => void;
+  /** Aborting terminates the harness process group and rejects with `cancelled` set. */
+  signal?: AbortSignal;
+  killGraceMs?: number;
+  /** Called with the pid once spawned; it doubles as the process group id. */
+  onSpawn?: (pid: number) => void;
+}
+
+export interface HarnessProcessOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export class HarnessProcessError extends Error {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** True when the process was killed because it exceeded its timeout. */
+  killed: boolean;
+  /** True when the process was terminated because the run was cancelled. */
+  cancelled: boolean;
+  stdout: string;
+  stderr: string;
+
+  constructor(message: string, details: {
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    killed: boolean;
+    cancelled: boolean;
+    stdout: string;
+    stderr: string;
+  }) {
+    super(message);
+    this.name = 'HarnessProcessError';
+    this.exitCode = details.exitCode;
+    this.signal = details.signal;
+    this.killed = details.killed;
+    this.cancelled = details.cancelled;
+    this.stdout = details.stdout;
+    this.stderr = details.stderr;
+  }
+}
+
+/**
+ * Spawns a harness CLI and streams its output to an optional per-run log file
+ * while it runs, instead of buffering everything until exit like execFile.
+ * The harness leads its own process group so timeouts and cancellation reach
+ * any tools it started. Resolves on exit code 0 and rejects with
+ * HarnessProcessError otherwise.
+ */
+export function runHarnessProcess(
+  command: string,
+  args: string[],
+  options: HarnessProcessOptions,
+): Promise<HarnessProcessOutput> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new HarnessProcessError(`${command} was cancelled before it started`, {
+        exitCode: null,
+        signal: null,
+        killed: false,
+        cancelled: true,
+        stdout: '',
+        stderr: '',
+      }));
+      return;
+    }
+
+    const child: ChildProcessByStdio<null, Readable, Readable> = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    });
+    const pid = child.pid;
+    if (pid !== undefined) {
+      trackGroup(pid);
+      options.onSpawn?.(pid);
+    }
+    const log: WriteStream | undefined = options.logFile
+      ? createWriteStream(options.logFile, { flags: 'a' })
+      : undefined;
+    const stdout = new TailBuffer(MAX_CAPTURED_BYTES);
+    const stderr = new TailBuffer(MAX_CAPTURED_BYTES);
+    let pendingLine = '';
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const terminate = () => {
+      if (pid === undefined || killTimer) return;
+      signalGroup(pid, 'SIGTERM');
+      killTimer = setTimeout(() => signalGroup(pid, 'SIGKILL'), options.killGraceMs ?? DEFAULT_KILL_GRACE_MS);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminate();
+    }, options.timeoutMs);
+
+    const onAbort = () => {
+      cancelled = true;
+      terminate();
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout.push(chunk);
+      log?.write(chunk);
+      if (options.onStdoutLine) {
+        const lines = (pendingLine + chunk.toString('utf-8')).split('\n');
+        pendingLine = lines.pop() ?? '';
+        for (const line of lines) options.onStdoutLine(line);
+      }
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr.push(chunk);
+      log?.write(chunk);
+    });
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+      if (pid !== undefined) liveGroups.delete(pid);
+      if (pendingLine && options.onStdoutLine) options.onStdoutLine(pendingLine);
+      const done = () => error ? reject(error) : resolve({ stdout: stdout.toString(), stderr: stderr.toString() });
+      if (log) {
+        log.end(done);
+      } else {
+        done();
+      }
+    };
+
+    child.on('error', (error: Error) => finish(error));
+    child.on('exit', () => {
+      // A grandchild that inherited the pipes would otherwise keep 'close'
+      // from firing after the harness was killed.
+      if (timedOut || cancelled) {
+        child.stdout.destroy();
+        child.stderr.destroy();
+      }
+    });
+    child.on('close', (exitCode: number | null, signal: NodeJS.Signals | null) => {
+      if (exitCode === 0 && !timedOut && !cancelled) {
+        finish();
+        return;
+      }
+
+      const reason = timedOut
+        ? `timed out after ${options.timeoutMs}ms`
+        : cancelled ? 'was cancelled'
+        : signal ? `was killed by ${signal}` : `exited with code ${exitCode}`;
+      finish(new HarnessProcessError(`${command} ${reason}`, {
+        exitCode,
+        signal,
+        killed: timedOut,
+        cancelled,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+      }));
+    });
+  });
+}
+
+/**
+ * Sends SIGTERM to a harness process group started by any fleet process, then
+ * SIGKILL if it is still alive after the grace period.
+ */
+export async function terminateProcessGroup(pid: number, graceMs = DEFAULT_KILL_GRACE_MS): Promise<void> {
+  if (!signalGroup(pid, 'SIGTERM')) return;
+
+  const deadline = Date.now() + graceMs;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    if (!signalGroup(pid, 0)) return;
+  }
+  signalGroup(pid, 'SIGKILL');
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else.
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Returns false when the group no longer exists. */
+function signalGroup(pid: number, signal: NodeJS.Signals | 0): boolean {
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detached harnesses no longer receive the terminal's Ctrl-C, so make sure
+ * they do not outlive the fleet process that started them, whether it exits
+ * or is killed by SIGINT or SIGTERM.
+ */
+function trackGroup(pid: number): void {
+  liveGroups.add(pid);
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.on('exit', terminateLiveGroups);
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    // Runs before other listeners, so a `once` listener that handles this
+    // signal (e.g. the CLI cancelling a run) still counts.
+    process.prependListener(signal, function onSignal() {
+      if (process.listenerCount(signal) > 1) return;
+      terminateLiveGroups();
+      // Nothing else handles the signal: die from it as Node would have.
+      process.off(signal, onSignal);
+      process.kill(process.pid, signal);
+    });
+  }
+}
+
+function terminateLiveGroups(): void {
+  for (const group of liveGroups) signalGroup(group, 'SIGTERM');
+}
+
+class TailBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+
+  constructor(private readonly limit: number) {}
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+    while (this.size > this.limit && this.chunks.length > 1) {
+      this.size -= this.chunks.shift()!.length;
+    }
+  }
+
+  toString(): string {
+    const joined = Buffer.concat(this.chunks);
+    return joined.length > this.limit
+      ? joined.subarray(joined.length - this.limit).toString('utf-8')
+      : joined.toString('utf-8');
+  }
+}
@@ -1,8 +1,11 @@
-import type { HarnessAvailability, HarnessId } from '../orchestration/types.js';
-import type { HarnessAdapter } from './types.js';
+import type { BuiltinHarnessId, HarnessAvailability, HarnessId } from '../orchestration/types.js';
+import type { CustomHarnessDefinition, HarnessAdapter } from './types.js';
 import { ClaudeCodeHarnessAdapter } from './claude-code.js';
 import { OpenCodeHarnessAdapter } from './opencode.js';
 import { CodexHarnessAdapter } from './codex.js';
+import { GenericCliHarnessAdapter } from './generic-cli.js';
+
+export const BUILTIN_HARNESS_IDS: BuiltinHarnessId[] = ['claude-code', 'opencode', 'codex'];
 
 export class HarnessRegistry {
   private readonly adapters: Map<HarnessId, HarnessAdapter>;
@@ -16,11 +19,35 @@ export class HarnessRegistry {
     this.adapters = new Map(defaults.map(adapter => [adapter.id, adapter]));
   }
 
+  register(adapter: HarnessAdapter): void {
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`Harness '${adapter.id}' is already registered`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
   getAdapter(id: HarnessId): HarnessAdapter | undefined {
     return this.adapters.get(id);
   }
 
+  listIds(): HarnessId[] {
+    return Array.from(this.adapters.keys());
+  }
+
   async getAvailability(): Promise<HarnessAvailability[]> {
     return Promise.all(Array.from(this.adapters.values()).map(adapter => adapter.probeAvailability()));
   }
 }
+
+export function createHarnessRegistry(definitions: CustomHarnessDefinition[] = []): HarnessRegistry {
+  const registry = new HarnessRegistry();
+  for (const definition of definitions) {
+    registry.register(new GenericCliHarnessAdapter(
+      definition.id,
+      definition.command,
+      definition.version_args ?? ['--version'],
+      definition.run_template,
+    ));
+  }
+  return registry;
+}
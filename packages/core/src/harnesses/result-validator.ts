@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { HarnessId, HarnessRunResult, HarnessUsage } from '../orchestration/types.js';
+
+export interface ResultValidationOptions {
+  /** Harness ids `nextWorker` may name. Without it any non-empty id is accepted. */
+  harnesses?: readonly HarnessId[] | undefined;
+}
+
+export interface ResultNormalizeOptions extends ResultValidationOptions {
+  /** Harness name used in failure summaries, e.g. `Codex`. */
+  label: string;
+  rawOutput: string;
+  usage?: HarnessUsage | undefined;
+}
+
+export type HarnessResultPayload = Pick<
+  HarnessRunResult,
+  'status' | 'summary' | 'remainingWork' | 'nextWorker' | 'filesChanged' | 'error'
+>;
+
+export type ResultValidation =
+  | { ok: true; payload: HarnessResultPayload }
+  | { ok: false; errors: string[] };
+
+/** Candidate start positions tried when looking for a trailing JSON object. */
+const MAX_TRAILING_CANDIDATES = 100;
+
+/**
+ * Finds the structured result in harness output: the whole output as JSON,
+ * else the last fenced code block that parses, else a JSON object the output
+ * ends with. Models often wrap the result in prose, so all three are common.
+ * Returns undefined when none of them parses.
+ */
+export function extractResultJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = Array.from(trimmed.matchAll(/```[a-zA-Z]*[ \t]*\r?\n([\s\S]*?)```/g), match => match[1]!.trim());
+  for (const candidate of [trimmed, ...fenced.reverse()]) {
+    const parsed = tryParse(candidate);
+    if (parsed !== undefined) return parsed;
+  }
+
+  // An object nested inside the trailing one cannot reach the end of the
+  // output, so the first start that parses through to the end is the outer one.
+  if (!trimmed.endsWith('}')) return undefined;
+  let start = trimmed.length;
+  for (let tried = 0; tried < MAX_TRAILING_CANDIDATES; tried++) {
+    start = trimmed.lastIndexOf('{', start - 1);
+    if (start === -1) break;
+    const parsed = tryParse(trimmed.slice(start));
+    if (parsed !== undefined) return parsed;
+  }
+  return undefined;
+}
+
+/** Lists the harnesses a result may name as `nextWorker`, for result instructions in prompts. */
+export function describeNextWorkers(harnesses: readonly HarnessId[] | undefined): string {
+  return harnesses && harnesses.length > 0 ? harnesses.map(id => `"${id}"`).join(', ') : 'a harness id';
+}
+
+/** Checks a parsed payload against the result schema every harness must follow. */
+export function validateHarnessResult(payload: unknown, options: ResultValidationOptions = {}): ResultValidation {
+  if (payload === undefined) {
+    return { ok: false, errors: ['no JSON result found in the output'] };
+  }
+
+  const parsed = resultSchema(options.harnesses).safeParse(payload);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'result'}: ${issue.message}`),
+    };
+  }
+
+  const { status, summary, remainingWork, nextWorker, filesChanged, error } = parsed.data;
+  return {
+    ok: true,
+    payload: {
+      status,
+      summary,
+      ...(remainingWork ? { remainingWork } : {}),
+      ...(nextWorker ? { nextWorker } : {}),
+      filesChanged,
+      ...(error ? { error } : {}),
+    },
+  };
+}
+
+/**
+ * Turns a parsed payload into a run result. An invalid payload becomes a
+ * failed `invalid_json` result that lists what was wrong with it.
+ */
+export function normalizeHarnessResult(payload: unknown, options: ResultNormalizeOptions): HarnessRunResult {
+  const usage = options.usage ? { usage: options.usage } : {};
+  const validation = validateHarnessResult(payload, options);
+  if (validation.ok) {
+    return { ...validation.payload, rawOutput: options.rawOutput, ...usage };
+  }
+
+  return {
+    status: 'failed',
+    summary: `${options.label} returned an invalid result: ${validation.errors.join('; ')}`,
+    filesChanged: [],
+    error: 'invalid_json',
+    validationErrors: validation.errors,
+    rawOutput: options.rawOutput,
+    ...usage,
+  };
+}
+
+function resultSchema(harnesses: readonly HarnessId[] | undefined) {
+  const [first, ...rest] = harnesses ?? [];
+  return z.object({
+    status: z.enum(['completed', 'failed', 'handoff']),
+    summary: z.string().min(1),
+    // Models tend to send null for fields that do not apply.
+    remainingWork: z.string().nullish(),
+    nextWorker: (first === undefined ? z.string().min(1) : z.enum([first, ...rest])).nullish(),
+    filesChanged: z.array(z.string()).default([]),
+    error: z.string().nullish(),
+  });
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
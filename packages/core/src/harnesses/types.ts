@@ -5,3 +5,13 @@ export interface HarnessAdapter {
   probeAvailability(): Promise<HarnessAvailability>;
   run(request: HarnessLaunchRequest): Promise<HarnessRunResult>;
 }
+
+/**
+ * A harness declared in fleet.routing.yaml and backed by GenericCliHarnessAdapter.
+ */
+export interface CustomHarnessDefinition {
+  id: string;
+  command: string;
+  version_args?: string[];
+  run_template: string;
+}
@@ -77,28 +77,79 @@ export type {
 } from './ids.js';
 
 export type {
+  BuiltinHarnessId,
   HarnessId,
   HarnessAvailabilityStatus,
   OrchestrationTaskRef,
+  TaskDependencyRef,
+  ContextSectionKind,
+  InjectionPolicy,
+  InjectionFlag,
+  RunInjectionCheck,
+  RunContextSummary,
   HarnessAvailability,
   HarnessSelection,
+  HarnessScore,
+  RoutingStrategy,
   RunStatus,
   HarnessLaunchRequest,
   HarnessRunResult,
+  HarnessUsage,
+  HarnessProgressEvent,
+  HandoffContext,
+  FallbackTrigger,
+  RunAttempt,
+  RetryPolicy,
+  RetryContext,
+  VerifyGateConfig,
+  VerifyCheckResult,
+  VerificationResult,
   OrchestrationRunRecord,
+  RunResultValidation,
+  ScopeViolationPolicy,
+  FileScopeReport,
+  RunReservation,
+  ReservationRenewal,
+  HarnessTool,
+  HarnessPolicy,
+  HarnessPolicyConfig,
 } from './orchestration/types.js';
 
 export {
   SoloAdapter,
+  normalizeSoloTask,
   type SoloAdapterOptions,
+  type SoloBackendKind,
+  type SoloHealth,
   type SoloSessionContext,
 } from './integrations/solo-adapter.js';
 
+export {
+  FakeSoloBackend,
+  type FakeSoloBackendOptions,
+  type SoloBackend,
+} from './integrations/fake-solo-backend.js';
+
 export {
   SoloCommandError,
+  SoloNotFoundError,
+  SoloConflictError,
+  SoloVersionMismatchError,
+  SoloBinaryMissingError,
+  SoloUnavailableError,
+  createSoloError,
   isRetryableSoloError,
+  isSoloOutage,
+  parseRetryHint,
 } from './integrations/solo-errors.js';
 
+export {
+  SoloCircuitBreaker,
+  type SoloCircuitOptions,
+  type SoloCircuitSnapshot,
+  type SoloCircuitStatus,
+} from './integrations/solo-circuit.js';
+
 export type {
   SoloSuccessEnvelope,
   SoloErrorEnvelope,
@@ -113,14 +164,151 @@ export type {
   SoloSessionStartData,
 } from './integrations/solo-types.js';
 
-export type { HarnessAdapter } from './harnesses/types.js';
-export { HarnessRegistry } from './harnesses/registry.js';
-export { ClaudeCodeHarnessAdapter } from './harnesses/claude-code.js';
-export { GenericCliHarnessAdapter } from './harnesses/generic-cli.js';
-export { OpenCodeHarnessAdapter } from './harnesses/opencode.js';
-export { CodexHarnessAdapter } from './harnesses/codex.js';
-export { matchRoutingRule, type RoutingRule, type RoutingRuleCondition } from './orchestration/rule-matcher.js';
+export type { HarnessAdapter, CustomHarnessDefinition } from './harnesses/types.js';
+export { HarnessRegistry, BUILTIN_HARNESS_IDS, createHarnessRegistry } from './harnesses/registry.js';
+export {
+  ClaudeCodeHarnessAdapter,
+  claudePolicyArgs,
+  claudeResultSchema,
+  parseClaudeStreamEvent,
+  parseClaudeUsage,
+} from './harnesses/claude-code.js';
+export { HARNESS_TOOLS, resolveHarnessPolicy } from './harnesses/policy.js';
+export { GenericCliHarnessAdapter, expandRunTemplate } from './harnesses/generic-cli.js';
+export {
+  runHarnessProcess,
+  terminateProcessGroup,
+  isProcessAlive,
+  DEFAULT_KILL_GRACE_MS,
+  HarnessProcessError,
+  type HarnessProcessOptions,
+  type HarnessProcessOutput,
+} from './harnesses/process.js';
+export { OpenCodeHarnessAdapter, buildOpenCodePrompt, openCodePolicyConfig, parseOpenCodeUsage } from './harnesses/opencode.js';
+export { CodexHarnessAdapter, buildCodexPrompt, codexPolicyArgs, parseCodexUsage } from './harnesses/codex.js';
+export {
+  extractResultJson,
+  describeNextWorkers,
+  validateHarnessResult,
+  normalizeHarnessResult,
+  type HarnessResultPayload,
+  type ResultValidation,
+  type ResultValidationOptions,
+  type ResultNormalizeOptions,
+} from './harnesses/result-validator.js';
+export {
+  matchRoutingRule,
+  evaluateCondition,
+  type ConditionFailure,
+  type NumericRange,
+  type RoutingRule,
+  type RoutingRuleCondition,
+} from './orchestration/rule-matcher.js';
 export { resolveHarnessRoute, type RoutingDecision, type RoutingConfigShape } from './orchestration/routing-engine.js';
-export { buildHarnessPrompt } from './orchestration/prompt-builder.js';
-export { ProjectionStore } from './orchestration/projection-store.js';
-export { Orchestrator, type OrchestratorOptions } from './orchestration/orchestrator.js';
+export {
+  summarizeHarnessLoad,
+  scoreHarnesses,
+  describeScores,
+  type HarnessLoad,
+  type HarnessLoadMap,
+  type ScoreOptions,
+} from './orchestration/weighted-routing.js';
+export {
+  buildHarnessPrompt,
+  buildPromptVariables,
+  buildRepairPrompt,
+  type PromptBuildOptions,
+} from './orchestration/prompt-builder.js';
+export {
+  detectPromptInjection,
+  describeInjectionFlags,
+  injectionFields,
+  quoteBlock,
+  quoteInline,
+} from './orchestration/prompt-safety.js';
+export {
+  assembleRunContext,
+  estimateTokens,
+  readRunContext,
+  renderContextSections,
+  runContextPath,
+  writeRunContext,
+  DEFAULT_CONTEXT_BUDGET_TOKENS,
+  type AssembleContextOptions,
+  type AssembledContext,
+  type ContextConfig,
+  type ContextSection,
+  type OmittedContext,
+} from './orchestration/context-assembler.js';
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  resolvePromptTemplate,
+  renderPromptTemplate,
+  type PromptTemplate,
+  type PromptVariables,
+} from './orchestration/prompt-templates.js';
+export {
+  explainRoute,
+  simulateRouting,
+  type RouteExplanation,
+  type RoutingSimulation,
+  type RuleCoverage,
+  type RuleEvaluation,
+  type ShadowedRule,
+} from './orchestration/route-explainer.js';
+export {
+  runVerifyGate,
+  describeVerificationFailure,
+  type VerifyGateOptions,
+} from './orchestration/verify-gate.js';
+export {
+  ReservationHeartbeat,
+  DEFAULT_RENEW_BEFORE_MS,
+  type ReservationHeartbeatOptions,
+} from './orchestration/reservation-heartbeat.js';
+export {
+  captureWorktreeBase,
+  checkFileScope,
+  describeScopeViolation,
+} from './orchestration/scope-check.js';
+export {
+  ProjectionStore,
+  RunFilterError,
+  isFinishedRunStatus,
+  type ProjectionStoreOptions,
+  type RunFilter,
+  type RunQuery,
+  type RunPage,
+} from './orchestration/projection-store.js';
+export {
+  runLogPath,
+  prepareRunLog,
+  followRunLog,
+  type FollowRunLogOptions,
+} from './orchestration/run-logs.js';
+export {
+  summarizeRunStats,
+  RUN_STATS_GROUP_BY,
+  UNLABELLED_GROUP,
+  type RunStats,
+  type RunStatsGroup,
+  type RunStatsGroupBy,
+} from './orchestration/run-stats.js';
+export {
+  Orchestrator,
+  DEFAULT_MAX_HANDOFF_HOPS,
+  checkHandoffChain,
+  RunCancelError,
+  type OrchestratorOptions,
+  type RunTaskOptions,
+  type PromptPreviewOptions,
+  type PromptPreview,
+  type CancelRunOptions,
+} from './orchestration/orchestrator.js';
+export {
+  TaskDispatcher,
+  type DispatcherOptions,
+  type DispatchOptions,
+  type DispatchError,
+  type DispatchSummary,
+} from './orchestration/dispatcher.js';
@@ -0,0 +1,422 @@
+import { execFile } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { promisify } from 'node:util';
+import type { SoloEnvelope } from './solo-types.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Where Solo commands go; the default backend runs the `solo` binary. */
+export interface SoloBackend {
+  /** Runs one command, given as `solo` arguments, and returns its JSON envelope. */
+  execute(args: string[]): Promise<SoloEnvelope<unknown>>;
+}
+
+export interface FakeSoloBackendOptions {
+  /** Project the worktrees are created from. */
+  projectRoot: string;
+  /** JSON store; defaults to `.fleet/solo-fake/store.json` in the project. */
+  storePath?: string;
+  /** Reservation length reported by `session start`. */
+  reservationMs?: number;
+}
+
+interface FakeTask {
+  id: string;
+  title: string;
+  type: string;
+  status: string;
+  priority: string;
+  priority_value: number;
+  description?: string;
+  acceptance_criteria?: string;
+  definition_of_done?: string;
+  parent?: string;
+  labels: string[];
+  affected_files: string[];
+  deps: string[];
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FakeSession {
+  id: string;
+  task_id: string;
+  worker: string;
+  pid?: number;
+  reservation_id: string;
+  reservation_token: string;
+  worktree_path: string;
+  branch: string;
+  started_at: string;
+  expires_at: string;
+  ended_at?: string;
+  result?: string;
+  notes?: string;
+  files?: string[];
+  commits?: string[];
+}
+
+interface FakeHandoff {
+  id: string;
+  task_id: string;
+  from?: string;
+  to: string;
+  summary: string;
+  remaining_work: string;
+  files: string[];
+  created_at: string;
+}
+
+interface FakeStore {
+  version: 1;
+  counter: number;
+  tasks: FakeTask[];
+  sessions: FakeSession[];
+  handoffs: FakeHandoff[];
+}
+
+type ParsedArgs = { positional: string[]; flags: Record<string, string | true> };
+
+const BOOLEAN_FLAGS = new Set(['--json', '--available']);
+
+const PRIORITY_VALUES: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const DEFAULT_RESERVATION_MS = 30 * 60 * 1000;
+
+/** A failed command; becomes an `ok: false` envelope. */
+class FakeSoloError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * In-process stand-in for the `solo` binary, for offline development and
+ * tests. It answers the commands `SoloAdapter` sends from a JSON store, and
+ * gives each session a git worktree of the project (a plain directory when
+ * the project has no commits). Commands are serialized within one process;
+ * writes are atomic, but two processes sharing a store can overwrite each
+ * other's changes.
+ */
+export class FakeSoloBackend implements SoloBackend {
+  readonly storePath: string;
+  private readonly projectRoot: string;
+  private readonly reservationMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FakeSoloBackendOptions) {
+    this.projectRoot = options.projectRoot;
+    this.storePath = options.storePath ?? join(options.projectRoot, '.fleet', 'solo-fake', 'store.json');
+    this.reservationMs = options.reservationMs ?? DEFAULT_RESERVATION_MS;
+  }
+
+  execute(args: string[]): Promise<SoloEnvelope<unknown>> {
+    const next = this.queue.then(() => this.dispatch(parseArgs(args)));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async dispatch(args: ParsedArgs): Promise<SoloEnvelope<unknown>> {
+    const [group, command, taskId] = args.positional;
+    try {
+      const store = this.load();
+      const data = await this.handle(store, `${group ?? ''} ${command ?? ''}`, taskId, args.flags);
+      return { ok: true, data };
+    } catch (error) {
+      if (error instanceof FakeSoloError) {
+        return { ok: false, error: { code: error.code, message: error.message } };
+      }
+      throw error;
+    }
+  }
+
+  private async handle(store: FakeStore, command: string, taskId: string | undefined, flags: ParsedArgs['flags']): Promise<unknown> {
+    switch (command) {
+      case 'task list': {
+        const limit = Number(flags['--limit'] ?? 20);
+        const tasks = store.tasks
+          .filter(task => flags['--available'] !== true || isAvailable(store, task))
+          .sort((a, b) => a.priority_value - b.priority_value || a.created_at.localeCompare(b.created_at));
+        return { tasks: tasks.slice(0, limit).map(listItem), total: tasks.length, limit, offset: 0 };
+      }
+      case 'task show': {
+        const task = findTask(store, taskId);
+        const session = activeSession(store, task.id);
+        return {
+          task: { ...task },
+          dependencies: dependencyRefs(store, task),
+          active_reservation: session ? reservation(session) : null,
+          session_count: store.sessions.filter(session => session.task_id === task.id).length,
+        };
+      }
+      case 'task create': {
+        const title = stringFlag(flags, '--title');
+        if (!title) {
+          throw new FakeSoloError('VALIDATION_ERROR', 'task create requires --title');
+        }
+        const now = new Date().toISOString();
+        const priority = stringFlag(flags, '--priority') ?? 'medium';
+        const task: FakeTask = {
+          id: `T-${++store.counter}`,
+          title,
+          type: stringFlag(flags, '--type') ?? 'task',
+          status: 'ready',
+          priority: priority in PRIORITY_VALUES ? priority : 'medium',
+          priority_value: PRIORITY_VALUES[priority] ?? (Number.isFinite(Number(priority)) ? Number(priority) : 2),
+          ...optional('description', stringFlag(flags, '--description')),
+          ...optional('acceptance_criteria', stringFlag(flags, '--acceptance-criteria')),
+          ...optional('definition_of_done', stringFlag(flags, '--definition-of-done')),
+          ...optional('parent', stringFlag(flags, '--parent')),
+          labels: csvFlag(flags, '--labels'),
+          affected_files: csvFlag(flags, '--affected-files'),
+          deps: csvFlag(flags, '--deps'),
+          version: 1,
+          created_at: now,
+          updated_at: now,
+        };
+        store.tasks.push(task);
+        this.save(store);
+        const { id, type, status, priority: label, priority_value, version, created_at } = task;
+        return { task: { id, title, type, status, priority: label, priority_value, version, created_at } };
+      }
+      case 'task context': {
+        const task = findTask(store, taskId);
+        return {
+          task: { ...task },
+          dependencies: dependencyRefs(store, task),
+          handoffs: store.handoffs.filter(handoff => handoff.task_id === task.id),
+          sessions: store.sessions.filter(session => session.task_id === task.id).map(({ reservation_token: _token, ...session }) => session),
+        };
+      }
+      case 'session start': {
+        const task = findTask(store, taskId);
+        if (activeSession(store, task.id)) {
+          throw new FakeSoloError('RESERVATION_CONFLICT', `Task ${task.id} is already reserved`);
+        }
+        if (task.status === 'done') {
+          throw new FakeSoloError('TASK_NOT_AVAILABLE', `Task ${task.id} is already done`);
+        }
+        const worker = stringFlag(flags, '--worker') ?? 'unknown';
+        const { path, branch } = await this.prepareWorktree(task.id);
+        const now = Date.now();
+        const session: FakeSession = {
+          id: `S-${++store.counter}`,
+          task_id: task.id,
+          worker,
+          ...(flags['--pid'] ? { pid: Number(flags['--pid']) } : {}),
+          reservation_id: `R-${store.counter}`,
+          reservation_token: `fake-${store.counter}-${Math.random().toString(16).slice(2)}`,
+          worktree_path: path,
+          branch,
+          started_at: new Date(now).toISOString(),
+          expires_at: new Date(now + this.reservationMs).toISOString(),
+        };
+        store.sessions.push(session);
+        updateTask(task, 'in_progress');
+        this.save(store);
+        return {
+          session_id: session.id,
+          reservation_id: session.reservation_id,
+          reservation_token: session.reservation_token,
+          worktree_path: relative(this.projectRoot, path) || '.',
+          branch,
+          expires_at: session.expires_at,
+          context: {
+            task: { ...task },
+            dependencies: dependencyRefs(store, task),
+            handoffs: store.handoffs.filter(handoff => handoff.task_id === task.id),
+          },
+        };
+      }
+      case 'session end': {
+        const task = findTask(store, taskId);
+        const session = activeSession(store, task.id);
+        if (!session) {
+          throw new FakeSoloError('NO_ACTIVE_SESSION', `Task ${task.id} has no active session`);
+        }
+        const result = stringFlag(flags, '--result') ?? 'completed';
+        endSession(session, result, {
+          ...optional('notes', stringFlag(flags, '--notes')),
+          files: csvFlag(flags, '--files'),
+          commits: csvFlag(flags, '--commits'),
+        });
+        updateTask(task, stringFlag(flags, '--status') ?? (result === 'completed' ? 'done' : 'ready'));
+        this.save(store);
+        return { session: { ...session }, task: { id: task.id, status: task.status, version: task.version } };
+      }
+      case 'handoff create': {
+        const task = findTask(store, taskId);
+        const session = activeSession(store, task.id);
+        const handoff: FakeHandoff = {
+          id: `H-${++store.counter}`,
+          task_id: task.id,
+          ...optional('from', session?.worker),
+          to: stringFlag(flags, '--to') ?? '',
+          summary: stringFlag(flags, '--summary') ?? '',
+          remaining_work: stringFlag(flags, '--remaining-work') ?? '',
+          files: csvFlag(flags, '--files'),
+          created_at: new Date().toISOString(),
+        };
+        store.handoffs.push(handoff);
+        // A handoff releases the reservation so the next worker can start.
+        if (session) {
+          endSession(session, 'handoff', { files: handoff.files });
+        }
+        updateTask(task, 'ready');
+        this.save(store);
+        return { handoff };
+      }
+      case 'reservation renew': {
+        const task = findTask(store, taskId);
+        const session = activeSession(store, task.id);
+        if (!session) {
+          throw new FakeSoloError('RESERVATION_NOT_FOUND', `Task ${task.id} has no active reservation`);
+        }
+        const token = stringFlag(flags, '--token');
+        if (token && token !== session.reservation_token) {
+          throw new FakeSoloError('RESERVATION_TOKEN_MISMATCH', `Reservation token does not match task ${task.id}`);
+        }
+        if (Date.parse(session.expires_at) <= Date.now()) {
+          throw new FakeSoloError('RESERVATION_EXPIRED', `Reservation for task ${task.id} expired at ${session.expires_at}`);
+        }
+        session.expires_at = new Date(Date.now() + this.reservationMs).toISOString();
+        this.save(store);
+        return { reservation_id: session.reservation_id, expires_at: session.expires_at };
+      }
+      case 'worktree inspect': {
+        const task = findTask(store, taskId);
+        const path = this.worktreePath(task.id);
+        return {
+          task_id: task.id,
+          worktree_path: relative(this.projectRoot, path),
+          branch: branchName(task.id),
+          exists: existsSync(path),
+        };
+      }
+      default:
+        throw new FakeSoloError('UNKNOWN_COMMAND', `The fake Solo backend does not support '${command.trim()}'`);
+    }
+  }
+
+  private worktreePath(taskId: string): string {
+    return join(dirname(this.storePath), 'worktrees', taskId);
+  }
+
+  /** Reuses the task's worktree across sessions, like Solo does. */
+  private async prepareWorktree(taskId: string): Promise<{ path: string; branch: string }> {
+    const path = this.worktreePath(taskId);
+    const branch = branchName(taskId);
+    if (existsSync(path)) {
+      return { path, branch };
+    }
+
+    mkdirSync(dirname(path), { recursive: true });
+    const git = (args: string[]) => execFileAsync('git', args, { cwd: this.projectRoot });
+    try {
+      await git(['rev-parse', '--verify', '--quiet', 'HEAD']);
+    } catch {
+      mkdirSync(path, { recursive: true });
+      return { path, branch };
+    }
+
+    const branchExists = await git(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]).then(() => true, () => false);
+    await git(branchExists ? ['worktree', 'add', path, branch] : ['worktree', 'add', '-b', branch, path, 'HEAD']);
+    return { path, branch };
+  }
+
+  private load(): FakeStore {
+    if (!existsSync(this.storePath)) {
+      return { version: 1, counter: 0, tasks: [], sessions: [], handoffs: [] };
+    }
+    return JSON.parse(readFileSync(this.storePath, 'utf-8')) as FakeStore;
+  }
+
+  private save(store: FakeStore): void {
+    mkdirSync(dirname(this.storePath), { recursive: true });
+    const temporary = `${this.storePath}.${process.pid}.tmp`;
+    writeFileSync(temporary, `${JSON.stringify(store, null, 2)}\n`);
+    renameSync(temporary, this.storePath);
+  }
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+    } else if (BOOLEAN_FLAGS.has(arg)) {
+      parsed.flags[arg] = true;
+    } else {
+      parsed.flags[arg] = args[++index] ?? '';
+    }
+  }
+  return parsed;
+}
+
+function stringFlag(flags: ParsedArgs['flags'], name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function csvFlag(flags: ParsedArgs['flags'], name: string): string[] {
+  return (stringFlag(flags, name) ?? '').split(',').map(value => value.trim()).filter(Boolean);
+}
+
+function optional<K extends string>(key: K, value: string | undefined): { [P in K]?: string } {
+  return value === undefined ? {} : { [key]: value } as { [P in K]?: string };
+}
+
+function findTask(store: FakeStore, taskId: string | undefined): FakeTask {
+  const task = store.tasks.find(entry => entry.id === taskId);
+  if (!task) {
+    throw new FakeSoloError('TASK_NOT_FOUND', `Task not found: ${taskId ?? ''}`);
+  }
+  return task;
+}
+
+function activeSession(store: FakeStore, taskId: string): FakeSession | undefined {
+  return store.sessions.find(session => session.task_id === taskId && !session.ended_at);
+}
+
+function isAvailable(store: FakeStore, task: FakeTask): boolean {
+  return task.status === 'ready'
+    && !activeSession(store, task.id)
+    && task.deps.every(dep => store.tasks.find(entry => entry.id === dep)?.status === 'done');
+}
+
+function dependencyRefs(store: FakeStore, task: FakeTask): Array<Record<string, unknown>> {
+  return task.deps.map(dep => {
+    const dependency = store.tasks.find(entry => entry.id === dep);
+    return dependency ? { id: dependency.id, title: dependency.title, status: dependency.status } : { id: dep };
+  });
+}
+
+function listItem(task: FakeTask): Record<string, unknown> {
+  const { id, title, description, type, status, priority, priority_value, labels, affected_files } = task;
+  return { id, title, ...optional('description', description), type, status, priority, priority_value, labels, affected_files };
+}
+
+function reservation(session: FakeSession): Record<string, unknown> {
+  return { id: session.reservation_id, worker: session.worker, expires_at: session.expires_at };
+}
+
+function updateTask(task: FakeTask, status: string): void {
+  task.status = status;
+  task.version += 1;
+  task.updated_at = new Date().toISOString();
+}
+
+function endSession(session: FakeSession, result: string, details: { notes?: string; files?: string[]; commits?: string[] }): void {
+  session.ended_at = new Date().toISOString();
+  session.result = result;
+  if (details.notes) session.notes = details.notes;
+  if (details.files && details.files.length > 0) session.files = details.files;
+  if (details.commits && details.commits.length > 0) session.commits = details.commits;
+}
+
+function branchName(taskId: string): string {
+  return `solo/${taskId}`;
+}
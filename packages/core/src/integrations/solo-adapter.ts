@@ -1,16 +1,44 @@
 import { execFile } from 'node:child_process';
+import { resolve } from 'node:path';
 import { promisify } from 'node:util';
-import type { OrchestrationTaskRef } from '../orchestration/types.js';
-import type { SoloCreateTaskInput, SoloCreatedTask, SoloEnvelope, SoloSessionStartData, SoloTaskCreateData, SoloTaskListData, SoloTaskShowData } from './solo-types.js';
-import { SoloCommandError, isRetryableSoloError } from './solo-errors.js';
+import type { OrchestrationTaskRef, TaskDependencyRef } from '../orchestration/types.js';
+import type { SoloCreateTaskInput, SoloCreatedTask, SoloEnvelope, SoloReservationRenewData, SoloSessionStartData, SoloTaskCreateData, SoloTaskListData, SoloTaskShowData } from './solo-types.js';
+import {
+  SoloBinaryMissingError,
+  SoloCommandError,
+  createSoloError,
+  isRetryableSoloError,
+  isSoloOutage,
+  parseRetryHint,
+} from './solo-errors.js';
+import { SoloCircuitBreaker, type SoloCircuitOptions, type SoloCircuitSnapshot } from './solo-circuit.js';
+import { FakeSoloBackend, type SoloBackend } from './fake-solo-backend.js';
 
 const execFileAsync = promisify(execFile);
 
+/** `cli` runs the `solo` binary; `fake` answers from a local store, see `FakeSoloBackend`. */
+export type SoloBackendKind = 'cli' | 'fake';
+
 export interface SoloAdapterOptions {
   binaryPath?: string;
   cwd?: string;
   retries?: number;
   retryDelayMs?: number;
+  backend?: SoloBackendKind | SoloBackend;
+  /** Store of the `fake` backend, relative to `cwd`. */
+  fakeStorePath?: string;
+  /** Upper bound on the wait between retries, including waits Solo asks for. */
+  maxRetryDelayMs?: number;
+  /** Shared by every adapter for the same binary and directory; `false` turns it off. */
+  circuitBreaker?: SoloCircuitOptions | false;
+}
+
+export interface SoloHealth {
+  ok: boolean;
+  backend: SoloBackendKind | 'custom';
+  circuit?: SoloCircuitSnapshot;
+  error?: string;
+  code?: string;
 }
 
 export interface SoloSessionContext {
@@ -29,22 +57,61 @@ export class SoloAdapter {
   private readonly cwd: string;
   private readonly retries: number;
   private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly backend: SoloBackend | undefined;
+  private readonly backendKind: SoloHealth['backend'];
+  private readonly circuit: SoloCircuitBreaker | undefined;
 
   constructor(options: SoloAdapterOptions = {}) {
     this.binaryPath = options.binaryPath ?? 'solo';
     this.cwd = options.cwd ?? process.cwd();
-    this.retries = options.retries ?? 3;
+    this.retries = Math.max(1, options.retries ?? 3);
     this.retryDelayMs = options.retryDelayMs ?? 250;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5_000;
+    this.backend = options.backend === 'fake'
+      ? new FakeSoloBackend({
+          projectRoot: this.cwd,
+          ...(options.fakeStorePath ? { storePath: resolve(this.cwd, options.fakeStorePath) } : {}),
+        })
+      : options.backend === 'cli' ? undefined : options.backend;
+    this.backendKind = typeof options.backend === 'object' ? 'custom' : options.backend ?? 'cli';
+    this.circuit = options.circuitBreaker === false
+      ? undefined
+      : typeof options.backend === 'object'
+        ? new SoloCircuitBreaker(options.circuitBreaker)
+        : SoloCircuitBreaker.for(`${this.backendKind}:${this.binaryPath}:${this.cwd}`, options.circuitBreaker);
+  }
+
+  /** Runs a cheap command to see whether Solo answers. Never throws. */
+  async checkHealth(): Promise<SoloHealth> {
+    const backend = this.backendKind;
+    try {
+      await this.run<SoloTaskListData>(['task', 'list', '--limit', '1', '--json']);
+      return { ok: true, backend, ...this.circuitField() };
+    } catch (error) {
+      return {
+        ok: false,
+        backend,
+        ...this.circuitField(),
+        error: error instanceof Error ? error.message : String(error),
+        ...(error instanceof SoloCommandError ? { code: error.code } : {}),
+      };
+    }
+  }
+
+  circuitState(): SoloCircuitSnapshot | undefined {
+    return this.circuit?.snapshot();
   }
 
   async listAvailableTasks(limit = 20): Promise<OrchestrationTaskRef[]> {
     const data = await this.run<SoloTaskListData>(['task', 'list', '--available', '--limit', String(limit), '--json']);
-    return (data.tasks ?? []).map(task => normalizeTask(task));
+    return (data.tasks ?? []).map(task => normalizeSoloTask(task));
   }
 
   async showTask(taskId: string): Promise<Record<string, unknown>> {
     const data = await this.run<SoloTaskShowData>(['task', 'show', taskId, '--json']);
-    return data.task ?? data;
+    if (!data.task) return data;
+    return data.dependencies ? { ...data.task, dependencies: data.dependencies } : data.task;
   }
 
   async createTask(input: SoloCreateTaskInput): Promise<SoloCreatedTask> {
@@ -130,28 +197,65 @@ export class SoloAdapter {
     return this.run<Record<string, unknown>>(args);
   }
 
+  /** Extends the task's reservation; Solo decides the new expiry. */
+  async renewReservation(taskId: string, reservationToken?: string): Promise<{ expiresAt?: string }> {
+    const args = ['reservation', 'renew', taskId, '--json'];
+    if (reservationToken) args.push('--token', reservationToken);
+    const data = await this.run<SoloReservationRenewData>(args);
+    return data.expires_at ? { expiresAt: data.expires_at } : {};
+  }
+
   async inspectWorktree(taskId: string): Promise<Record<string, unknown>> {
     return this.run<Record<string, unknown>>(['worktree', 'inspect', taskId, '--json']);
   }
 
   private async run<T>(args: string[]): Promise<T> {
-    let lastError: SoloCommandError | undefined;
+    this.circuit?.acquire();
+    let lastError = new SoloCommandError('SOLO_COMMAND_FAILED', 'Solo command failed');
 
     for (let attempt = 1; attempt <= this.retries; attempt++) {
       try {
-        const { stdout, stderr } = await execFileAsync(this.binaryPath, args, { cwd: this.cwd });
-        return parseSoloResponse<T>(stdout, stderr);
+        const data = await this.execute<T>(args);
+        this.circuit?.recordSuccess();
+        return data;
       } catch (error) {
-        const normalized = normalizeSoloFailure(error);
-        lastError = normalized;
-        if (!normalized.retryable || attempt === this.retries) {
-          throw normalized;
+        lastError = normalizeSoloFailure(error, this.binaryPath);
+        if (!lastError.retryable || attempt === this.retries) {
+          break;
         }
-        await sleep(this.retryDelayMs * attempt);
+        await sleep(this.retryDelay(attempt, lastError.retryHint));
       }
     }
 
-    throw lastError ?? new SoloCommandError('SOLO_COMMAND_FAILED', 'Solo command failed');
+    // An error Solo answered with still shows it is up.
+    if (isSoloOutage(lastError)) {
+      this.circuit?.recordFailure(lastError.message);
+    } else {
+      this.circuit?.recordSuccess();
+    }
+    throw lastError;
+  }
+
+  private async execute<T>(args: string[]): Promise<T> {
+    if (this.backend) {
+      return unwrapEnvelope(await this.backend.execute(args) as SoloEnvelope<T>);
+    }
+    const { stdout, stderr } = await execFileAsync(this.binaryPath, args, { cwd: this.cwd });
+    return parseSoloResponse<T>(stdout, stderr);
+  }
+
+  /** Exponential backoff with equal jitter; a `retry_hint` from Solo takes precedence. */
+  private retryDelay(attempt: number, retryHint: string | undefined): number {
+    const hinted = parseRetryHint(retryHint);
+    if (hinted !== undefined) {
+      return Math.min(hinted, this.maxRetryDelayMs);
+    }
+    const ceiling = Math.min(this.retryDelayMs * 2 ** (attempt - 1), this.maxRetryDelayMs);
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  private circuitField(): { circuit?: SoloCircuitSnapshot } {
+    return this.circuit ? { circuit: this.circuit.snapshot() } : {};
   }
 }
 
@@ -181,23 +285,31 @@ function parseSoloResponse<T>(stdout: string, stderr: string): T {
     throw new SoloCommandError('SOLO_INVALID_JSON', 'Solo command returned invalid JSON');
   }
 
-  if (!parsed.ok) {
-    throw new SoloCommandError(
-      parsed.error.code,
-      parsed.error.message,
-      parsed.error.retryable ?? isRetryableSoloError(parsed.error.code),
-      parsed.error.retry_hint,
+  return unwrapEnvelope(parsed);
+}
+
+function unwrapEnvelope<T>(envelope: SoloEnvelope<T>): T {
+  if (!envelope.ok) {
+    throw createSoloError(
+      envelope.error.code,
+      envelope.error.message,
+      envelope.error.retryable ?? isRetryableSoloError(envelope.error.code),
+      envelope.error.retry_hint,
     );
   }
 
-  return parsed.data;
+  return envelope.data;
 }
 
-function normalizeSoloFailure(error: unknown): SoloCommandError {
+function normalizeSoloFailure(error: unknown, binaryPath: string): SoloCommandError {
   if (error instanceof SoloCommandError) {
     return error;
   }
 
+  if (typeof error === 'object' && error !== null && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+    return new SoloBinaryMissingError(binaryPath);
+  }
+
   if (typeof error === 'object' && error !== null && 'stdout' in error) {
     const stdout = String((error as { stdout?: string }).stdout ?? '');
     const stderr = String((error as { stderr?: string }).stderr ?? '');
@@ -218,7 +330,8 @@ function normalizeSoloFailure(error: unknown): SoloCommandError {
   return new SoloCommandError('SOLO_EXEC_ERROR', String(error));
 }
 
-function normalizeTask(task: Record<string, unknown>): OrchestrationTaskRef {
+/** Maps a task as printed by `solo task list --json` to the orchestrator's task shape. */
+export function normalizeSoloTask(task: Record<string, unknown>): OrchestrationTaskRef {
   return {
     taskId: String(task.id ?? ''),
     title: String(task.title ?? ''),
@@ -229,9 +342,29 @@ function normalizeTask(task: Record<string, unknown>): OrchestrationTaskRef {
     labels: Array.isArray(task.labels) ? task.labels.map(value => String(value)) : [],
     status: readOptionalString(task.status),
     affectedFiles: Array.isArray(task.affected_files) ? task.affected_files.map(value => String(value)) : [],
+    ...optionalField('acceptanceCriteria', readOptionalString(task.acceptance_criteria)),
+    ...optionalField('definitionOfDone', readOptionalString(task.definition_of_done)),
+    ...(Array.isArray(task.dependencies) ? { dependencies: task.dependencies.flatMap(readDependency) } : {}),
   };
 }
 
+function readDependency(value: unknown): TaskDependencyRef[] {
+  if (typeof value === 'string') return [{ taskId: value }];
+  if (!value || typeof value !== 'object') return [];
+  const dependency = value as Record<string, unknown>;
+  const taskId = readOptionalString(dependency.id) ?? readOptionalString(dependency.task_id);
+  if (!taskId) return [];
+  return [{
+    taskId,
+    ...optionalField('title', readOptionalString(dependency.title)),
+    ...optionalField('status', readOptionalString(dependency.status)),
+  }];
+}
+
+function optionalField<K extends string>(key: K, value: string | undefined): { [P in K]?: string } {
+  return value === undefined ? {} : { [key]: value } as { [P in K]?: string };
+}
+
 function readOptionalString(value: unknown): string | undefined {
   return typeof value === 'string' && value.length > 0 ? value : undefined;
 }
@@ -0,0 +1,103 @@
+import { SoloUnavailableError } from './solo-errors.js';
+
+export type SoloCircuitStatus = 'closed' | 'open' | 'half_open';
+
+export interface SoloCircuitOptions {
+  /** Consecutive failed commands that open the circuit. */
+  failureThreshold?: number;
+  /** How long the circuit stays open before one trial command is let through. */
+  resetAfterMs?: number;
+}
+
+export interface SoloCircuitSnapshot {
+  status: SoloCircuitStatus;
+  consecutiveFailures: number;
+  /** Set while the circuit is open. */
+  openedAt?: string;
+  retryAfterMs?: number;
+  lastError?: string;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_RESET_AFTER_MS = 30_000;
+
+/** One breaker per Solo target, so every adapter in the process sees the same state. */
+const circuits = new Map<string, SoloCircuitBreaker>();
+
+/**
+ * Stops calling Solo after repeated outages. Closed, it lets every command
+ * through and counts consecutive failures; at the threshold it opens and
+ * rejects commands with `SoloUnavailableError`. After `resetAfterMs` it lets
+ * one trial command through: success closes it, failure opens it again.
+ */
+export class SoloCircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetAfterMs: number;
+  private consecutiveFailures = 0;
+  private openedAt: number | undefined;
+  private trialInFlight = false;
+  private lastError: string | undefined;
+
+  constructor(options: SoloCircuitOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetAfterMs = options.resetAfterMs ?? DEFAULT_RESET_AFTER_MS;
+  }
+
+  /** The shared breaker for `key`, created with `options` on first use. */
+  static for(key: string, options: SoloCircuitOptions = {}): SoloCircuitBreaker {
+    let circuit = circuits.get(key);
+    if (!circuit) {
+      circuit = new SoloCircuitBreaker(options);
+      circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  get status(): SoloCircuitStatus {
+    if (this.openedAt === undefined) return 'closed';
+    return Date.now() - this.openedAt >= this.resetAfterMs ? 'half_open' : 'open';
+  }
+
+  /** Throws `SoloUnavailableError` unless a command may run now. */
+  acquire(): void {
+    const status = this.status;
+    if (status === 'closed') return;
+    if (status === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new SoloUnavailableError(
+      `Solo is unavailable after ${this.consecutiveFailures} consecutive failures${this.lastError ? ` (last: ${this.lastError})` : ''}`,
+      this.retryAfterMs(),
+    );
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+    this.lastError = undefined;
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures += 1;
+    this.lastError = error;
+    if (this.trialInFlight || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  snapshot(): SoloCircuitSnapshot {
+    return {
+      status: this.status,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt !== undefined ? { openedAt: new Date(this.openedAt).toISOString(), retryAfterMs: this.retryAfterMs() } : {}),
+      ...(this.lastError ? { lastError: this.lastError } : {}),
+    };
+  }
+
+  private retryAfterMs(): number {
+    return this.openedAt === undefined ? 0 : Math.max(0, this.openedAt + this.resetAfterMs - Date.now());
+  }
+}
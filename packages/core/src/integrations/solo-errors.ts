@@ -14,6 +14,89 @@ export class SoloCommandError extends Error {
   }
 }
 
+/** The task, session or reservation does not exist. */
+export class SoloNotFoundError extends SoloCommandError {
+  constructor(code: string, message: string, retryable = false, retryHint?: string, exitCode?: number) {
+    super(code, message, retryable, retryHint, exitCode);
+    this.name = 'SoloNotFoundError';
+  }
+}
+
+/** Another session holds the task, or the task is not in a state that allows the command. */
+export class SoloConflictError extends SoloCommandError {
+  constructor(code: string, message: string, retryable = false, retryHint?: string, exitCode?: number) {
+    super(code, message, retryable, retryHint, exitCode);
+    this.name = 'SoloConflictError';
+  }
+}
+
+/** The record changed since it was read; usually worth retrying. */
+export class SoloVersionMismatchError extends SoloCommandError {
+  constructor(code: string, message: string, retryable = false, retryHint?: string, exitCode?: number) {
+    super(code, message, retryable, retryHint, exitCode);
+    this.name = 'SoloVersionMismatchError';
+  }
+}
+
+/** The `solo` binary is not installed or not on PATH. */
+export class SoloBinaryMissingError extends SoloCommandError {
+  constructor(binaryPath: string) {
+    super('SOLO_BINARY_MISSING', `Solo binary not found: ${binaryPath}`);
+    this.name = 'SoloBinaryMissingError';
+  }
+}
+
+/** The circuit breaker is open: Solo failed repeatedly and is not called until `retryAfterMs` passes. */
+export class SoloUnavailableError extends SoloCommandError {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super('SOLO_UNAVAILABLE', message);
+    this.name = 'SoloUnavailableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const CONFLICT_CODES = new Set(['CONFLICT', 'RESERVATION_CONFLICT', 'ALREADY_RESERVED', 'TASK_NOT_AVAILABLE', 'RESERVATION_TOKEN_MISMATCH']);
+
+const VERSION_MISMATCH_CODES = new Set(['VERSION_CONFLICT', 'VERSION_MISMATCH']);
+
+/** Failures that say nothing about the command and everything about Solo being reachable. */
+const OUTAGE_CODES = new Set(['SOLO_BINARY_MISSING', 'SOLO_EXEC_ERROR', 'SOLO_EMPTY_RESPONSE', 'SOLO_INVALID_JSON', 'SQLITE_BUSY']);
+
+/** Builds the typed error for a Solo error code. */
+export function createSoloError(code: string, message: string, retryable = false, retryHint?: string, exitCode?: number): SoloCommandError {
+  if (code === 'NOT_FOUND' || code.endsWith('_NOT_FOUND')) {
+    return new SoloNotFoundError(code, message, retryable, retryHint, exitCode);
+  }
+  if (CONFLICT_CODES.has(code)) {
+    return new SoloConflictError(code, message, retryable, retryHint, exitCode);
+  }
+  if (VERSION_MISMATCH_CODES.has(code)) {
+    return new SoloVersionMismatchError(code, message, retryable, retryHint, exitCode);
+  }
+  return new SoloCommandError(code, message, retryable, retryHint, exitCode);
+}
+
 export function isRetryableSoloError(code: string): boolean {
-  return code === 'SQLITE_BUSY' || code === 'VERSION_CONFLICT';
+  return code === 'SQLITE_BUSY' || code === 'VERSION_CONFLICT' || code === 'VERSION_MISMATCH';
+}
+
+/** Whether a failure counts towards opening the circuit breaker. */
+export function isSoloOutage(error: SoloCommandError): boolean {
+  return OUTAGE_CODES.has(error.code);
+}
+
+/**
+ * Reads a `retry_hint` such as `500ms`, `2s`, `1m` or `retry after 2s` as
+ * milliseconds; a bare number is milliseconds. Undefined when there is no
+ * duration in it.
+ */
+export function parseRetryHint(hint: string | undefined): number | undefined {
+  const match = hint?.match(/(\d+(?:\.\d+)?)\s*(ms|s|sec|secs|seconds?|m|min|mins|minutes?)?\b/i);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  const unit = (match[2] ?? 'ms').toLowerCase();
+  if (unit === 'ms') return value;
+  return unit.startsWith('m') ? value * 60_000 : value * 1000;
 }
@@ -81,3 +81,8 @@ export interface SoloSessionStartData {
   expires_at?: string;
   context: Record<string, unknown>;
 }
+
+export interface SoloReservationRenewData {
+  reservation_id?: string;
+  expires_at?: string;
+}
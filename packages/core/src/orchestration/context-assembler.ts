@@ -0,0 +1,283 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import type {
+  ContextSectionKind,
+  OrchestrationRunRecord,
+  OrchestrationTaskRef,
+  RunContextSummary,
+} from './types.js';
+
+export interface ContextConfig {
+  budget_tokens?: number;
+  /** Include the current content of the task's affected files. */
+  files?: boolean;
+  /** Include dependency tasks with the summary of their latest completed run. */
+  dependencies?: boolean;
+  /** Include tech orders from `.flightline/tech-orders` that share terms with the task. */
+  tech_orders?: boolean;
+}
+
+export interface ContextSection {
+  kind: ContextSectionKind;
+  /** What the section was read from: `solo`, a dependency or tech order id, or a file path. */
+  source: string;
+  content: string;
+  tokens: number;
+  truncated?: boolean;
+}
+
+export interface OmittedContext {
+  kind: ContextSectionKind;
+  source: string;
+  reason: string;
+}
+
+export interface AssembledContext {
+  budgetTokens: number;
+  tokens: number;
+  sections: ContextSection[];
+  omitted: OmittedContext[];
+}
+
+export interface AssembleContextOptions {
+  task: OrchestrationTaskRef;
+  /** Context bundle returned by Solo for the task or session. */
+  contextBundle: Record<string, unknown>;
+  /** Directory affected files are read from, normally the session worktree. */
+  filesRoot: string;
+  /** Project whose `.flightline/tech-orders` is searched. */
+  projectRoot: string;
+  /** Earlier runs, for dependency summaries. */
+  runs?: OrchestrationRunRecord[];
+  config?: ContextConfig | undefined;
+}
+
+interface TechOrder {
+  id?: string;
+  name: string;
+  pattern: string;
+  context?: unknown;
+  anti_pattern?: boolean;
+  success_rate?: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET_TOKENS = 8_000;
+
+/** Below this, a section that does not fit is dropped rather than cut down to a stub. */
+const MIN_SECTION_TOKENS = 100;
+
+/** Larger files are skipped without reading them. */
+const MAX_FILE_BYTES = 1_000_000;
+
+const MAX_TECH_ORDERS = 3;
+
+const TRUNCATION_MARKER = '\n[truncated to fit the context budget]';
+
+/**
+ * Rough token count for budgeting: about four characters per token for
+ * English and code. Harnesses tokenize differently, so budgets should leave
+ * headroom below the model's window.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collects the context a harness gets with its task: Solo's context bundle,
+ * dependency summaries, relevant tech orders and the current content of the
+ * affected files, in that order of priority. Sections are added until the
+ * token budget runs out; the one that crosses it is truncated, and the rest
+ * are listed in `omitted` with the reason.
+ */
+export function assembleRunContext(options: AssembleContextOptions): AssembledContext {
+  const config = options.config ?? {};
+  const budgetTokens = config.budget_tokens ?? DEFAULT_CONTEXT_BUDGET_TOKENS;
+  const candidates: Array<Omit<ContextSection, 'tokens'>> = [];
+  const omitted: OmittedContext[] = [];
+
+  if (Object.keys(options.contextBundle).length > 0) {
+    candidates.push({ kind: 'solo', source: 'solo', content: JSON.stringify(options.contextBundle, null, 2) });
+  }
+  if (config.dependencies !== false) {
+    candidates.push(...dependencySections(options.task, options.runs ?? []));
+  }
+  if (config.tech_orders !== false) {
+    candidates.push(...techOrderSections(options.task, options.projectRoot, omitted));
+  }
+  if (config.files !== false) {
+    candidates.push(...fileSections(options.task, options.filesRoot, omitted));
+  }
+
+  const sections: ContextSection[] = [];
+  let remaining = budgetTokens;
+  for (const candidate of candidates) {
+    const tokens = estimateTokens(candidate.content);
+    if (tokens <= remaining) {
+      sections.push({ ...candidate, tokens });
+      remaining -= tokens;
+    } else if (remaining >= MIN_SECTION_TOKENS) {
+      const content = candidate.content.slice(0, remaining * 4 - TRUNCATION_MARKER.length) + TRUNCATION_MARKER;
+      sections.push({ ...candidate, content, tokens: estimateTokens(content), truncated: true });
+      remaining = 0;
+    } else {
+      omitted.push({ kind: candidate.kind, source: candidate.source, reason: `over budget (${tokens} tokens)` });
+    }
+  }
+
+  return {
+    budgetTokens,
+    tokens: budgetTokens - remaining,
+    sections,
+    omitted,
+  };
+}
+
+/** Joins the sections of one kind for a prompt variable; empty when there are none. */
+export function renderContextSections(context: AssembledContext, kind: ContextSectionKind): string {
+  return context.sections
+    .filter(section => section.kind === kind)
+    .map(section => section.content)
+    .join(kind === 'file' ? '\n\n' : '\n');
+}
+
+export function runContextPath(rootDir: string, runId: string): string {
+  return join(rootDir, '.fleet', 'orchestration', 'context', `${runId}.json`);
+}
+
+/**
+ * Stores the assembled context next to the run logs so what a harness was
+ * given can be audited later. A retried run overwrites it with the context of
+ * its latest attempt.
+ */
+export function writeRunContext(rootDir: string, runId: string, context: AssembledContext): RunContextSummary {
+  const path = runContextPath(rootDir, runId);
+  const dir = join(rootDir, '.fleet', 'orchestration', 'context');
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, `${JSON.stringify(context, null, 2)}\n`);
+
+  return {
+    file: path,
+    tokens: context.tokens,
+    budgetTokens: context.budgetTokens,
+    sections: context.sections.map(section => ({
+      kind: section.kind,
+      source: section.source,
+      tokens: section.tokens,
+      ...(section.truncated ? { truncated: true } : {}),
+    })),
+    omitted: context.omitted.map(entry => `${entry.source}: ${entry.reason}`),
+  };
+}
+
+export function readRunContext(rootDir: string, runId: string): AssembledContext | undefined {
+  const path = runContextPath(rootDir, runId);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as AssembledContext;
+}
+
+function dependencySections(task: OrchestrationTaskRef, runs: OrchestrationRunRecord[]): Array<Omit<ContextSection, 'tokens'>> {
+  return (task.dependencies ?? []).map(dependency => {
+    const latest = runs
+      .filter(run => run.taskId === dependency.taskId && run.status === 'completed')
+      .sort((a, b) => (b.endedAt ?? b.startedAt).localeCompare(a.endedAt ?? a.startedAt))[0];
+    const heading = [dependency.taskId, dependency.title, dependency.status && `(${dependency.status})`]
+      .filter(Boolean)
+      .join(' ');
+    return {
+      kind: 'dependency' as const,
+      source: dependency.taskId,
+      content: latest?.summary ? `- ${heading}\n  Completed by ${latest.harness}: ${latest.summary}` : `- ${heading}`,
+    };
+  });
+}
+
+function techOrderSections(
+  task: OrchestrationTaskRef,
+  projectRoot: string,
+  omitted: OmittedContext[],
+): Array<Omit<ContextSection, 'tokens'>> {
+  const dir = join(projectRoot, '.flightline', 'tech-orders');
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const taskTerms = terms([task.title, task.description ?? '', ...task.labels, ...task.affectedFiles].join(' '));
+  const scored: Array<{ order: TechOrder; score: number }> = [];
+  for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+    let order: TechOrder;
+    try {
+      order = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as TechOrder;
+    } catch {
+      omitted.push({ kind: 'tech_order', source: file, reason: 'invalid JSON' });
+      continue;
+    }
+    if (typeof order.name !== 'string' || typeof order.pattern !== 'string') continue;
+
+    const orderTerms = terms(`${order.name} ${order.pattern}`);
+    const score = Array.from(orderTerms).filter(term => taskTerms.has(term)).length;
+    if (score > 0) {
+      scored.push({ order, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || (b.order.success_rate ?? 0) - (a.order.success_rate ?? 0))
+    .slice(0, MAX_TECH_ORDERS)
+    .map(({ order }) => ({
+      kind: 'tech_order' as const,
+      source: order.id ?? order.name,
+      content: [
+        `- ${order.name}${order.anti_pattern ? ' (anti-pattern: avoid this)' : ''}`,
+        `  Pattern: ${order.pattern}`,
+        ...(order.context === undefined || order.context === null
+          ? []
+          : [`  Context: ${typeof order.context === 'string' ? order.context : JSON.stringify(order.context)}`]),
+      ].join('\n'),
+    }));
+}
+
+function fileSections(
+  task: OrchestrationTaskRef,
+  filesRoot: string,
+  omitted: OmittedContext[],
+): Array<Omit<ContextSection, 'tokens'>> {
+  const sections: Array<Omit<ContextSection, 'tokens'>> = [];
+  for (const file of task.affectedFiles) {
+    const skip = (reason: string) => omitted.push({ kind: 'file', source: file, reason });
+    if (/[*?[\]{}]/.test(file)) {
+      skip('glob pattern');
+      continue;
+    }
+
+    const path = resolve(filesRoot, file);
+    const fromRoot = relative(filesRoot, path);
+    if (fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+      skip('outside the worktree');
+      continue;
+    }
+    if (!existsSync(path) || !statSync(path).isFile()) {
+      skip('not found');
+      continue;
+    }
+    if (statSync(path).size > MAX_FILE_BYTES) {
+      skip(`larger than ${MAX_FILE_BYTES} bytes`);
+      continue;
+    }
+
+    const content = readFileSync(path, 'utf-8');
+    if (content.includes('\u0000')) {
+      skip('binary');
+      continue;
+    }
+    sections.push({ kind: 'file', source: fromRoot, content: content.trimEnd() });
+  }
+  return sections;
+}
+
+function terms(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(term => term.length >= 4));
+}
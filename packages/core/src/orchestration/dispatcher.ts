@@ -0,0 +1,183 @@
+import type { SoloAdapter } from '../integrations/solo-adapter.js';
+import type { Orchestrator } from './orchestrator.js';
+import type { RoutingConfigShape, RoutingDecision } from './routing-engine.js';
+import type { HarnessId, OrchestrationRunRecord, OrchestrationTaskRef, RunStatus } from './types.js';
+import type { HarnessLoadMap } from './weighted-routing.js';
+
+export interface DispatcherOptions {
+  orchestrator: Orchestrator;
+  solo: SoloAdapter;
+  routingConfig: RoutingConfigShape;
+}
+
+export interface DispatchOptions {
+  concurrency?: number;
+  maxPerHarness?: Record<string, number>;
+  maxTasks?: number;
+  pollLimit?: number;
+  /** Stops new dispatches; runs in flight finish. */
+  signal?: AbortSignal;
+  /** Stops new dispatches and cancels the runs in flight, as `cancelRun` would. */
+  cancelSignal?: AbortSignal;
+  onRunStarted?: (taskId: string, harness: HarnessId) => void;
+  onRunFinished?: (run: OrchestrationRunRecord) => void;
+}
+
+/** A run that threw, or, without `taskId` and `harness`, a failed poll of Solo. */
+export interface DispatchError {
+  taskId?: string;
+  harness?: HarnessId;
+  error: string;
+}
+
+export interface DispatchSummary {
+  stoppedBy: 'drained' | 'signal' | 'max_tasks' | 'error';
+  dispatched: number;
+  runs: OrchestrationRunRecord[];
+  errors: DispatchError[];
+  byStatus: Partial<Record<RunStatus, number>>;
+  byHarness: Record<string, number>;
+}
+
+/**
+ * Drains the Solo backlog by repeatedly polling available tasks and running them
+ * through the orchestrator, bounded by a global and per-harness concurrency cap.
+ * Each task is attempted at most once per dispatch so failed tasks that stay
+ * available do not spin.
+ */
+export class TaskDispatcher {
+  private readonly orchestrator: Orchestrator;
+  private readonly solo: SoloAdapter;
+  private readonly routingConfig: RoutingConfigShape;
+
+  constructor(options: DispatcherOptions) {
+    this.orchestrator = options.orchestrator;
+    this.solo = options.solo;
+    this.routingConfig = options.routingConfig;
+  }
+
+  async dispatch(options: DispatchOptions = {}): Promise<DispatchSummary> {
+    const concurrency = options.concurrency ?? this.routingConfig.dispatch?.concurrency ?? 1;
+    const maxPerHarness = { ...this.routingConfig.dispatch?.max_per_harness, ...options.maxPerHarness };
+    const pollLimit = options.pollLimit ?? Math.max(20, concurrency * 2);
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('Dispatch concurrency must be a positive integer');
+    }
+
+    const signals = [options.signal, options.cancelSignal].filter((signal): signal is AbortSignal => signal !== undefined);
+    const aborted = signals.length > 0 ? Promise.race(signals.map(waitForAbort)) : undefined;
+    const attempted = new Set<string>();
+    const inFlight = new Map<string, { harness: HarnessId; promise: Promise<void> }>();
+    const summary: DispatchSummary = {
+      stoppedBy: 'drained',
+      dispatched: 0,
+      runs: [],
+      errors: [],
+      byStatus: {},
+      byHarness: {},
+    };
+
+    const runningOn = (harness: HarnessId): number =>
+      Array.from(inFlight.values()).filter(entry => entry.harness === harness).length;
+
+    // Runs launched in this loop may not be in the projection yet, so weighted
+    // rules see at least the dispatcher's own count for each harness.
+    const currentLoad = (): HarnessLoadMap => {
+      const load = this.orchestrator.harnessLoad();
+      for (const { harness } of inFlight.values()) {
+        load[harness] ??= { inFlight: 0, recent: [] };
+      }
+      for (const [harness, entry] of Object.entries(load)) {
+        entry.inFlight = Math.max(entry.inFlight, runningOn(harness));
+      }
+      return load;
+    };
+
+    const launch = (taskId: string, route: RoutingDecision): void => {
+      const harness = route.selection.harness;
+      attempted.add(taskId);
+      summary.dispatched++;
+      summary.byHarness[harness] = (summary.byHarness[harness] ?? 0) + 1;
+      options.onRunStarted?.(taskId, harness);
+
+      const promise = this.orchestrator.runTask(taskId, { route, ...(options.cancelSignal ? { signal: options.cancelSignal } : {}) })
+        .then(run => {
+          summary.runs.push(run);
+          summary.byStatus[run.status] = (summary.byStatus[run.status] ?? 0) + 1;
+          options.onRunFinished?.(run);
+        })
+        .catch(error => {
+          summary.errors.push({
+            taskId,
+            harness,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })
+        .finally(() => {
+          inFlight.delete(taskId);
+        });
+
+      inFlight.set(taskId, { harness, promise });
+    };
+
+    while (true) {
+      if (signals.some(signal => signal.aborted)) {
+        summary.stoppedBy = 'signal';
+        break;
+      }
+
+      if (options.maxTasks !== undefined && summary.dispatched >= options.maxTasks) {
+        summary.stoppedBy = 'max_tasks';
+        break;
+      }
+
+      let launched = 0;
+      if (inFlight.size < concurrency) {
+        // Tasks tried earlier may still be listed, e.g. after a failed run, so
+        // the page reaches past all of them before the backlog counts as drained.
+        let tasks: OrchestrationTaskRef[];
+        try {
+          tasks = await this.solo.listAvailableTasks(pollLimit + attempted.size);
+        } catch (error) {
+          // Solo went away mid-drain: launch nothing more, but still record the runs in flight.
+          summary.stoppedBy = 'error';
+          summary.errors.push({ error: `Polling Solo failed: ${error instanceof Error ? error.message : String(error)}` });
+          break;
+        }
+        for (const task of tasks) {
+          if (inFlight.size >= concurrency) break;
+          if (options.maxTasks !== undefined && summary.dispatched >= options.maxTasks) break;
+          if (attempted.has(task.taskId) || inFlight.has(task.taskId)) continue;
+
+          const route = this.orchestrator.routeTask(task, currentLoad());
+          const harness = route.selection.harness;
+          const cap = maxPerHarness[harness];
+          if (cap !== undefined && runningOn(harness) >= cap) continue;
+
+          launch(task.taskId, route);
+          launched++;
+        }
+      }
+
+      if (inFlight.size === 0) {
+        break;
+      }
+
+      if (launched === 0 || inFlight.size >= concurrency) {
+        await Promise.race([
+          ...Array.from(inFlight.values()).map(entry => entry.promise),
+          ...(aborted ? [aborted] : []),
+        ]);
+      }
+    }
+
+    await Promise.all(Array.from(inFlight.values()).map(entry => entry.promise));
+    return summary;
+  }
+}
+
+function waitForAbort(signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.resolve();
+  return new Promise(resolve => signal.addEventListener('abort', () => resolve(), { once: true }));
+}
@@ -1,34 +1,154 @@
 import { randomUUID } from 'node:crypto';
 import { resolve } from 'node:path';
-import { HarnessRegistry } from '../harnesses/registry.js';
-import type { SoloAdapter } from '../integrations/solo-adapter.js';
-import { buildHarnessPrompt } from './prompt-builder.js';
-import { ProjectionStore } from './projection-store.js';
-import { resolveHarnessRoute } from './routing-engine.js';
-import type { OrchestrationRunRecord, OrchestrationTaskRef } from './types.js';
+import {
+  DEFAULT_KILL_GRACE_MS,
+  HarnessProcessError,
+  isProcessAlive,
+  terminateProcessGroup,
+} from '../harnesses/process.js';
+import { BUILTIN_HARNESS_IDS, HarnessRegistry, createHarnessRegistry } from '../harnesses/registry.js';
+import { normalizeSoloTask, type SoloAdapter, type SoloSessionContext } from '../integrations/solo-adapter.js';
+import { assembleRunContext, writeRunContext, type AssembledContext } from './context-assembler.js';
+import { buildHarnessPrompt, buildRepairPrompt } from './prompt-builder.js';
+import { describeInjectionFlags, detectPromptInjection, injectionFields } from './prompt-safety.js';
+import { resolvePromptTemplate } from './prompt-templates.js';
+import {
+  ProjectionStore,
+  isFinishedRunStatus,
+  type RunFilter,
+  type RunPage,
+  type RunQuery,
+} from './projection-store.js';
+import { prepareRunLog } from './run-logs.js';
+import { resolveHarnessRoute, type RoutingConfigShape, type RoutingDecision } from './routing-engine.js';
+import { summarizeRunStats, type RunStats, type RunStatsGroupBy } from './run-stats.js';
+import { ReservationHeartbeat } from './reservation-heartbeat.js';
+import { captureWorktreeBase, checkFileScope, describeScopeViolation } from './scope-check.js';
+import { describeVerificationFailure, runVerifyGate } from './verify-gate.js';
+import { summarizeHarnessLoad, type HarnessLoadMap } from './weighted-routing.js';
+import type { HarnessAdapter } from '../harnesses/types.js';
+import type {
+  FallbackTrigger,
+  HandoffContext,
+  HarnessId,
+  HarnessLaunchRequest,
+  HarnessPolicy,
+  HarnessProgressEvent,
+  HarnessRunResult,
+  HarnessUsage,
+  InjectionPolicy,
+  OrchestrationRunRecord,
+  OrchestrationTaskRef,
+  RetryContext,
+  RetryPolicy,
+  RunAttempt,
+  RunContextSummary,
+  RunInjectionCheck,
+  RunResultValidation,
+  ScopeViolationPolicy,
+  VerifyGateConfig,
+} from './types.js';
 
 export interface OrchestratorOptions {
   solo: SoloAdapter;
-  routingConfig: {
-    defaults: {
-      harness: 'claude-code' | 'opencode' | 'codex';
-      timeout_ms: number;
-    };
-    rules: Array<{
-      id: string;
-      when: Record<string, unknown>;
-      select: {
-        harness: 'claude-code' | 'opencode' | 'codex';
-        timeout_ms?: number;
-      };
-    }>;
-  };
+  routingConfig: RoutingConfigShape;
   projectRoot?: string;
   registry?: HarnessRegistry;
+  /** How long before a Solo reservation expires it is renewed; see `ReservationHeartbeat`. */
+  renewBeforeMs?: number;
 }
 
 export interface RunTaskOptions {
-  harnessOverride?: 'claude-code' | 'opencode' | 'codex';
+  harnessOverride?: HarnessId | undefined;
+  /** Launch the harness named in a handoff result instead of stopping at the handoff. */
+  chain?: boolean | undefined;
+  maxHops?: number | undefined;
+  onProgress?: ((runId: string, event: HarnessProgressEvent) => void) | undefined;
+  /** Aborting cancels the run in flight, as `cancelRun` would. */
+  signal?: AbortSignal | undefined;
+  /** A decision already resolved by the caller, e.g. the dispatcher; skips routing. */
+  route?: RoutingDecision | undefined;
+  /** Run a task that the `require_approval` injection policy would hold. */
+  approveFlagged?: boolean | undefined;
+}
+
+export interface PromptPreviewOptions {
+  harnessOverride?: HarnessId | undefined;
+}
+
+/** The prompt a run of a task would start with, minus session details. */
+export interface PromptPreview {
+  taskId: string;
+  harness: HarnessId;
+  ruleId: string;
+  /** Where the template came from, e.g. `.fleet/prompts/codex.md`. */
+  template: string;
+  context: AssembledContext;
+  /** Present when the task text matches an injection pattern. */
+  injection?: RunInjectionCheck;
+  prompt: string;
+}
+
+export interface CancelRunOptions {
+  graceMs?: number | undefined;
+}
+
+export const DEFAULT_MAX_HANDOFF_HOPS = 3;
+
+/** Extra time for the owning process to close the Solo session after the harness exits. */
+const CANCEL_SETTLE_MS = 10_000;
+
+/** Harness output carried into a retry prompt. */
+const RETRY_OUTPUT_TAIL = 2_000;
+
+export class RunCancelError extends Error {
+  code: 'RUN_NOT_FOUND' | 'RUN_FINISHED' | 'RUN_NOT_STOPPED';
+
+  constructor(code: RunCancelError['code'], message: string) {
+    super(message);
+    this.name = 'RunCancelError';
+    this.code = code;
+  }
+}
+
+interface RunLaunch {
+  harness: HarnessId;
+  ruleId: string;
+  reason: string;
+  timeoutMs: number;
+  parentRunId?: string;
+  hop?: number;
+  handoff?: HandoffContext;
+  onProgress?: ((runId: string, event: HarnessProgressEvent) => void) | undefined;
+  signal?: AbortSignal | undefined;
+  verify?: VerifyGateConfig | undefined;
+  retry?: RetryPolicy | undefined;
+  onInjection?: InjectionPolicy | undefined;
+  approveFlagged?: boolean | undefined;
+  repairOutput?: boolean | undefined;
+  policy: HarnessPolicy;
+  onScopeViolation?: ScopeViolationPolicy | undefined;
+  /** Set by `runWithFallback` when the task text was flagged. */
+  injection?: RunInjectionCheck;
+}
+
+/** Per-attempt state of one logical run; every attempt shares its run id. */
+interface RunAttemptState {
+  runId: string;
+  startedAt: string;
+  /** 1-based; only set when a retry policy applies. */
+  attempt?: number;
+  retryContext?: RetryContext;
+  /** Usage and harness time of earlier attempts, added to this attempt's. */
+  carried: Pick<OrchestrationRunRecord, 'usage' | 'durationMs'>;
+}
+
+interface RunOutcome {
+  record: OrchestrationRunRecord;
+  result?: HarnessRunResult;
+  failureClass?: FallbackTrigger;
+  /** Harness output of a failed attempt, for the retry prompt. */
+  output?: string;
 }
 
 export class Orchestrator {
@@ -37,68 +157,625 @@ export class Orchestrator {
   private readonly registry: HarnessRegistry;
   private readonly store: ProjectionStore;
   private readonly projectRoot: string;
+  private readonly activeRuns = new Map<string, AbortController>();
+  private readonly renewBeforeMs: number | undefined;
 
   constructor(options: OrchestratorOptions) {
     this.solo = options.solo;
     this.routingConfig = options.routingConfig;
-    this.registry = options.registry ?? new HarnessRegistry();
+    this.registry = options.registry ?? createHarnessRegistry(options.routingConfig.harnesses);
     this.projectRoot = options.projectRoot ?? process.cwd();
     this.store = new ProjectionStore(this.projectRoot);
+    this.renewBeforeMs = options.renewBeforeMs;
+  }
+
+  listRuns(filter: RunFilter = {}): OrchestrationRunRecord[] {
+    return this.store.list(filter);
   }
 
-  listRuns(): OrchestrationRunRecord[] {
-    return this.store.list();
+  queryRuns(query: RunQuery = {}): RunPage {
+    return this.store.query(query);
+  }
+
+  runStats(groupBy: RunStatsGroupBy, filter: RunFilter = {}): RunStats {
+    return summarizeRunStats(this.store.list(filter), groupBy);
+  }
+
+  /** In-flight runs and recent outcomes per harness, for weighted rules. */
+  harnessLoad(): HarnessLoadMap {
+    return summarizeHarnessLoad(this.store.list());
+  }
+
+  routeTask(task: OrchestrationTaskRef, load: HarnessLoadMap = this.harnessLoad()): RoutingDecision {
+    return resolveHarnessRoute(task, this.routingConfig, load);
+  }
+
+  /**
+   * Renders the prompt `runTask` would send, without reserving the task. No
+   * session exists yet, so session variables hold placeholders, the context
+   * bundle comes from `solo task context` and affected files are read from
+   * the project root instead of a worktree.
+   */
+  async previewPrompt(taskId: string, options: PromptPreviewOptions = {}): Promise<PromptPreview> {
+    const task = await this.loadTask(taskId);
+    const route = this.routeTask(task);
+    const harness = options.harnessOverride ?? route.selection.harness;
+    const ruleId = options.harnessOverride ? 'manual-override' : route.selection.ruleId;
+    const session = {
+      taskId,
+      sessionId: '<session-id>',
+      reservationId: '<reservation-id>',
+      worktreePath: '<worktree>',
+      branch: '<branch>',
+      contextBundle: await this.solo.getTaskContext(taskId),
+    };
+    const context = assembleRunContext({
+      task,
+      contextBundle: session.contextBundle,
+      filesRoot: this.projectRoot,
+      projectRoot: this.projectRoot,
+      runs: this.store.list(),
+      config: this.routingConfig.context,
+    });
+    const injection = checkInjection(task, { onInjection: route.onInjection, approveFlagged: false });
+
+    return {
+      taskId,
+      harness,
+      ruleId,
+      template: resolvePromptTemplate(this.projectRoot, harness, ruleId).name,
+      context,
+      ...(injection ? { injection } : {}),
+      prompt: buildHarnessPrompt(task, session, harness, undefined, undefined, {
+        projectRoot: this.projectRoot,
+        ruleId,
+        context,
+      }),
+    };
   }
 
   async runTask(taskId: string, options: RunTaskOptions = {}): Promise<OrchestrationRunRecord> {
     const task = await this.loadTask(taskId);
-    const route = resolveHarnessRoute(task, this.routingConfig);
+    const route = options.route ?? this.routeTask(task);
     const selectedHarness = options.harnessOverride ?? route.selection.harness;
-    const adapter = this.registry.getAdapter(selectedHarness);
+    const chain = options.chain ?? this.routingConfig.handoff?.chain ?? false;
+    const maxHops = options.maxHops ?? this.routingConfig.handoff?.max_hops ?? DEFAULT_MAX_HANDOFF_HOPS;
+
+    let outcome = await this.runWithFallback(task, {
+      harness: selectedHarness,
+      ruleId: options.harnessOverride ? 'manual-override' : route.selection.ruleId,
+      reason: options.harnessOverride
+        ? `Manual harness override selected '${selectedHarness}'`
+        : route.selection.reason,
+      timeoutMs: route.timeoutMs,
+      onProgress: options.onProgress,
+      signal: options.signal,
+      verify: route.verify,
+      retry: route.retry,
+      onInjection: route.onInjection,
+      approveFlagged: options.approveFlagged,
+      repairOutput: route.repairOutput,
+      policy: this.effectivePolicy(route.policy),
+      onScopeViolation: route.onScopeViolation,
+    }, options.harnessOverride ? [] : route.fallback, route.fallbackOn);
+
+    // A fallback may have run the task on another harness than the one routed.
+    const visited: HarnessId[] = [outcome.record.harness];
+    while (chain && !options.signal?.aborted && outcome.record.status === 'handoff' && outcome.result?.nextWorker) {
+      const previous = outcome.record;
+      const nextWorker = outcome.result.nextWorker;
+      const stopReason = checkHandoffChain(visited, nextWorker, maxHops)
+        ?? (this.registry.getAdapter(nextWorker) ? undefined : `No harness adapter registered for ${nextWorker}`);
 
-    if (!adapter) {
-      throw new Error(`No harness adapter registered for ${selectedHarness}`);
+      if (stopReason) {
+        const stopped: OrchestrationRunRecord = { ...previous, chainStopReason: stopReason };
+        this.store.append(stopped);
+        return stopped;
+      }
+
+      visited.push(nextWorker);
+      try {
+        outcome = await this.runWithFallback(task, {
+          harness: nextWorker,
+          ruleId: 'handoff',
+          reason: `Handoff from '${previous.harness}' (run ${previous.runId})`,
+          timeoutMs: route.timeoutMs,
+          parentRunId: previous.runId,
+          hop: visited.length - 1,
+          handoff: {
+            fromHarness: previous.harness,
+            summary: outcome.result.summary,
+            remainingWork: outcome.result.remainingWork ?? '',
+            filesChanged: outcome.result.filesChanged,
+          },
+          onProgress: options.onProgress,
+          signal: options.signal,
+          verify: route.verify,
+          retry: route.retry,
+          onInjection: route.onInjection,
+          approveFlagged: options.approveFlagged,
+          repairOutput: route.repairOutput,
+          policy: this.effectivePolicy(route.policy),
+          onScopeViolation: route.onScopeViolation,
+        }, [], []);
+      } catch (error) {
+        const stopped: OrchestrationRunRecord = {
+          ...previous,
+          chainStopReason: error instanceof Error ? error.message : String(error),
+        };
+        this.store.append(stopped);
+        return stopped;
+      }
+    }
+
+    return outcome.record;
+  }
+
+  /**
+   * Cancels an in-flight run launched by this or another fleet process. The
+   * harness process group gets SIGTERM, then SIGKILL after `graceMs`; the
+   * owning process then ends the Solo session as `interrupted` and records
+   * the run as `cancelled`. If the owner is gone, this finishes the run itself.
+   */
+  async cancelRun(runId: string, options: CancelRunOptions = {}): Promise<OrchestrationRunRecord> {
+    const graceMs = options.graceMs ?? DEFAULT_KILL_GRACE_MS;
+    const latest = this.store.get(runId);
+    if (!latest) {
+      throw new RunCancelError('RUN_NOT_FOUND', `Run not found: ${runId}`);
+    }
+    if (isFinishedRunStatus(latest.status)) {
+      throw new RunCancelError('RUN_FINISHED', `Run ${runId} already finished with status '${latest.status}'`);
+    }
+
+    this.store.requestCancel(runId);
+    const local = this.activeRuns.get(runId);
+    if (local) {
+      local.abort();
+    } else if (latest.harnessPid !== undefined && latest.status !== 'retrying') {
+      await terminateProcessGroup(latest.harnessPid, graceMs);
     }
 
-    const availability = await adapter.probeAvailability();
-    if (availability.status !== 'available') {
-      throw new Error(`Harness ${selectedHarness} unavailable: ${availability.reason ?? 'unknown error'}`);
+    if (local || (latest.ownerPid !== undefined && isProcessAlive(latest.ownerPid))) {
+      const finished = await this.waitForFinish(runId, graceMs + CANCEL_SETTLE_MS);
+      if (!finished) {
+        throw new RunCancelError('RUN_NOT_STOPPED', `Cancellation requested, but run ${runId} has not stopped yet`);
+      }
+      return finished;
     }
 
-    const runId = randomUUID();
-    const startedAt = new Date().toISOString();
+    // Between retry attempts the previous session has already ended.
+    if (latest.sessionId && latest.status !== 'retrying') {
+      await this.solo.endSession(latest.taskId, 'interrupted', { notes: 'Run cancelled' });
+    }
+    const cancelled: OrchestrationRunRecord = {
+      ...latest,
+      status: 'cancelled',
+      endedAt: new Date().toISOString(),
+      summary: 'Run cancelled',
+    };
+    this.store.append(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Tries the selected harness, then each fallback in order. Unavailable
+   * harnesses are always skipped; a finished run only falls through when its
+   * failure class is listed in `fallbackOn`.
+   */
+  private async runWithFallback(
+    task: OrchestrationTaskRef,
+    launch: RunLaunch,
+    fallback: HarnessId[],
+    fallbackOn: FallbackTrigger[],
+  ): Promise<RunOutcome> {
+    const injection = checkInjection(task, launch);
+    if (injection && injection.policy !== 'flag' && !injection.approved) {
+      return { record: this.recordBlocked(task, launch, injection) };
+    }
+    if (injection) {
+      launch = { ...launch, injection };
+    }
+
+    const candidates = [launch.harness, ...fallback.filter(harness => harness !== launch.harness)];
+    const attempts: RunAttempt[] = [];
+
+    for (const [index, harness] of candidates.entries()) {
+      const isLast = index === candidates.length - 1;
+      const adapter = this.registry.getAdapter(harness);
+      const unavailableReason = adapter
+        ? await describeUnavailable(harness, adapter)
+        : `No harness adapter registered for ${harness}`;
+
+      if (!adapter || unavailableReason) {
+        const reason = unavailableReason ?? `Harness ${harness} unavailable`;
+        attempts.push({ harness, status: 'unavailable', reason });
+        if (isLast) {
+          throw new Error(attempts.length === 1
+            ? reason
+            : `No candidate harness could run the task: ${attempts.map(attempt => attempt.reason).join('; ')}`);
+        }
+        continue;
+      }
+
+      const outcome = await this.executeWithRetry(task, adapter, {
+        ...launch,
+        harness,
+        reason: index === 0 ? launch.reason : `${launch.reason}; fell back to '${harness}'`,
+      }, attempts);
+
+      if (!isLast && outcome.failureClass && fallbackOn.includes(outcome.failureClass)) {
+        attempts.push({
+          harness,
+          runId: outcome.record.runId,
+          status: 'failed',
+          failureClass: outcome.failureClass,
+          reason: outcome.record.summary ?? outcome.failureClass,
+        });
+        continue;
+      }
+
+      return outcome;
+    }
+
+    throw new Error('No candidate harness could run the task');
+  }
+
+  /** Records a launch the injection policy refused; no Solo session is started. */
+  private recordBlocked(task: OrchestrationTaskRef, launch: RunLaunch, injection: RunInjectionCheck): OrchestrationRunRecord {
+    const now = new Date().toISOString();
+    const found = describeInjectionFlags(injection.flags);
+    const record: OrchestrationRunRecord = {
+      runId: randomUUID(),
+      taskId: task.taskId,
+      harness: launch.harness,
+      status: 'blocked',
+      startedAt: now,
+      endedAt: now,
+      ruleId: launch.ruleId,
+      reason: launch.reason,
+      labels: task.labels,
+      ownerPid: process.pid,
+      ...(launch.parentRunId ? { parentRunId: launch.parentRunId, hop: launch.hop ?? 1 } : {}),
+      summary: injection.policy === 'require_approval'
+        ? `Held for approval: possible prompt injection (${found}); review the task and run it again with approval`
+        : `Blocked by injection policy: possible prompt injection (${found})`,
+      injection,
+    };
+    this.store.append(record);
+    return record;
+  }
+
+  /**
+   * Runs the task on one harness. With a retry policy, a failure whose class
+   * is in `retry_on` is recorded as `retrying` and, after a backoff, tried
+   * again in a new Solo session with the previous error and output in the
+   * prompt. All attempts share one run id and log file.
+   */
+  private async executeWithRetry(
+    task: OrchestrationTaskRef,
+    adapter: HarnessAdapter,
+    launch: RunLaunch,
+    previousAttempts: RunAttempt[],
+  ): Promise<RunOutcome> {
+    const policy = launch.retry;
+    const retried: RunAttempt[] = [];
+    let state: RunAttemptState = {
+      runId: randomUUID(),
+      startedAt: new Date().toISOString(),
+      ...(policy ? { attempt: 1 } : {}),
+      carried: {},
+    };
+
+    while (true) {
+      const outcome = await this.executeRun(task, adapter, launch, [...previousAttempts, ...retried], state);
+      if (!policy || outcome.record.status !== 'retrying') {
+        return outcome;
+      }
+
+      const attempt = state.attempt ?? 1;
+      retried.push({
+        harness: launch.harness,
+        runId: state.runId,
+        attempt,
+        status: 'failed',
+        ...(outcome.failureClass ? { failureClass: outcome.failureClass } : {}),
+        reason: outcome.record.summary ?? 'Attempt failed',
+      });
+
+      const delayMs = Math.min(policy.backoff_ms * policy.backoff_multiplier ** (attempt - 1), policy.max_backoff_ms);
+      if (!await this.waitForRetry(state.runId, delayMs, launch.signal)) {
+        const cancelled: OrchestrationRunRecord = {
+          ...outcome.record,
+          status: 'cancelled',
+          endedAt: new Date().toISOString(),
+          summary: 'Run cancelled',
+          attempts: [...previousAttempts, ...retried],
+        };
+        this.store.append(cancelled);
+        return { record: cancelled };
+      }
+
+      state = {
+        runId: state.runId,
+        startedAt: state.startedAt,
+        attempt: attempt + 1,
+        retryContext: {
+          attempt: attempt + 1,
+          maxAttempts: policy.max_attempts,
+          previousError: outcome.record.summary ?? outcome.failureClass ?? 'unknown error',
+          outputTail: tailOutput(outcome.output ?? ''),
+        },
+        carried: {
+          ...(outcome.record.usage ? { usage: outcome.record.usage } : {}),
+          ...(outcome.record.durationMs !== undefined ? { durationMs: outcome.record.durationMs } : {}),
+        },
+      };
+    }
+  }
+
+  private async executeRun(
+    task: OrchestrationTaskRef,
+    adapter: HarnessAdapter,
+    launch: RunLaunch,
+    previousAttempts: RunAttempt[],
+    state: RunAttemptState,
+  ): Promise<RunOutcome> {
+    const { taskId } = task;
+    const { runId, startedAt } = state;
+    const selectedHarness = launch.harness;
+    const withAttempts = (record: OrchestrationRunRecord): OrchestrationRunRecord => previousAttempts.length > 0
+      ? {
+          ...record,
+          attempts: [...previousAttempts, {
+            harness: selectedHarness,
+            runId: record.runId,
+            ...(state.attempt !== undefined ? { attempt: state.attempt } : {}),
+            status: record.status === 'retrying' ? 'failed' : record.status as RunAttempt['status'],
+          }],
+        }
+      : record;
+
+    const logFile = prepareRunLog(this.projectRoot, runId);
     const baseRecord: OrchestrationRunRecord = {
       runId,
       taskId,
       harness: selectedHarness,
       status: 'claiming',
       startedAt,
-      ruleId: options.harnessOverride ? 'manual-override' : route.selection.ruleId,
-      reason: options.harnessOverride
-        ? `Manual harness override selected '${selectedHarness}'`
-        : route.selection.reason,
+      ...(state.attempt !== undefined ? { attempt: state.attempt } : {}),
+      ruleId: launch.ruleId,
+      reason: launch.reason,
+      labels: task.labels,
+      logFile,
+      ownerPid: process.pid,
+      ...(launch.parentRunId ? { parentRunId: launch.parentRunId, hop: launch.hop ?? 1 } : {}),
+      ...(launch.injection ? { injection: launch.injection } : {}),
+      policy: launch.policy,
     };
     this.store.append(baseRecord);
 
-    const session = await this.solo.startSession(taskId, selectedHarness);
-    const worktreePath = resolve(this.projectRoot, session.worktreePath);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    launch.signal?.addEventListener('abort', abort, { once: true });
+    if (launch.signal?.aborted) abort();
+    this.activeRuns.set(runId, controller);
 
-    this.store.append({
+    try {
+      return await this.launchHarness(task, adapter, launch, state, baseRecord, controller, withAttempts);
+    } finally {
+      this.activeRuns.delete(runId);
+      launch.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async launchHarness(
+    task: OrchestrationTaskRef,
+    adapter: HarnessAdapter,
+    launch: RunLaunch,
+    state: RunAttemptState,
+    baseRecord: OrchestrationRunRecord,
+    controller: AbortController,
+    withAttempts: (record: OrchestrationRunRecord) => OrchestrationRunRecord,
+  ): Promise<RunOutcome> {
+    const { taskId } = task;
+    const { runId, harness: selectedHarness, logFile } = baseRecord;
+    const onProgress = launch.onProgress;
+
+    // Until the run is `running`, a failure must still finish its record, or
+    // load tracking counts it as in flight for as long as this process lives.
+    let session: SoloSessionContext | undefined;
+    let prepared: { worktreePath: string; context: AssembledContext; contextSummary: RunContextSummary };
+    try {
+      session = await this.solo.startSession(taskId, selectedHarness);
+      const filesRoot = resolve(this.projectRoot, session.worktreePath);
+      const assembled = assembleRunContext({
+        task,
+        contextBundle: session.contextBundle,
+        filesRoot,
+        projectRoot: this.projectRoot,
+        runs: this.store.list(),
+        config: this.routingConfig.context,
+      });
+      prepared = { worktreePath: filesRoot, context: assembled, contextSummary: writeRunContext(this.projectRoot, runId, assembled) };
+    } catch (error) {
+      const summary = error instanceof Error ? error.message : String(error);
+      const failedRecord = withAttempts({
+        ...baseRecord,
+        status: 'failed',
+        ...(session ? { sessionId: session.sessionId } : {}),
+        endedAt: new Date().toISOString(),
+        summary,
+      });
+      this.store.append(failedRecord);
+      // Solo refusing the session (a conflict, an outage) stays the caller's error.
+      if (!session) throw error;
+      await this.solo.endSession(taskId, 'failed', { notes: summary });
+      return { record: failedRecord, failureClass: classifyThrownFailure(error) };
+    }
+    const { worktreePath, context, contextSummary } = prepared;
+
+    const runningRecord: OrchestrationRunRecord = {
       ...baseRecord,
       status: 'running',
       sessionId: session.sessionId,
       worktreePath,
-    });
+      context: contextSummary,
+      ...(session.expiresAt ? { reservation: { expiresAt: session.expiresAt, renewals: [] } } : {}),
+    };
+    this.store.append(runningRecord);
+    // Latest in-flight record, so renewals keep the harness pid.
+    let liveRecord = runningRecord;
+
+    // A run can outlast its reservation; renew it until the session ends and
+    // cancel the run if Solo refuses.
+    const heartbeat = session.expiresAt
+      ? new ReservationHeartbeat({
+          expiresAt: session.expiresAt,
+          ...(this.renewBeforeMs !== undefined ? { renewBeforeMs: this.renewBeforeMs } : {}),
+          renew: () => this.solo.renewReservation(taskId, session.reservationToken),
+          onRenewal: reservation => {
+            liveRecord = { ...liveRecord, reservation };
+            this.store.append(liveRecord);
+            const latest = reservation.renewals[reservation.renewals.length - 1];
+            onProgress?.(runId, {
+              kind: 'message',
+              text: latest?.ok ? `Renewed Solo reservation until ${latest.expiresAt}` : `Solo reservation renewal failed: ${latest?.error}`,
+            });
+          },
+          onFailure: () => controller.abort(),
+        }).start()
+      : undefined;
+    const reservation = () => (heartbeat ? { reservation: heartbeat.reservation } : {});
+
+    let harnessStartedAt: number | undefined;
+    let harnessEndedAt: number | undefined;
+    // Usage and harness time cover every attempt of the logical run.
+    const accounting = (usage?: HarnessUsage) => {
+      const durationMs = harnessStartedAt === undefined
+        ? state.carried.durationMs
+        : (state.carried.durationMs ?? 0) + (harnessEndedAt ?? Date.now()) - harnessStartedAt;
+      const total = addUsage(state.carried.usage, usage);
+      return {
+        ...(total ? { usage: total } : {}),
+        ...(durationMs !== undefined ? { durationMs } : {}),
+      };
+    };
+
+    const isCancelled = () => controller.signal.aborted || this.store.isCancelRequested(runId);
+    // A retryable failure becomes `retrying` while attempts remain.
+    const finalStatus = (failureClass: FallbackTrigger): 'failed' | 'retrying' => launch.retry
+      && (state.attempt ?? 1) < launch.retry.max_attempts
+      && launch.retry.retry_on.includes(failureClass)
+      && !isCancelled()
+      ? 'retrying'
+      : 'failed';
+    const finishCancelled = async (): Promise<RunOutcome> => {
+      heartbeat?.stop();
+      const duration = accounting();
+      const summary = heartbeat?.failure ? `Solo reservation renewal failed: ${heartbeat.failure}` : 'Run cancelled';
+      // Solo may refuse to end a session whose reservation is already gone.
+      await this.solo.endSession(taskId, 'interrupted', { notes: summary }).catch(error => {
+        if (!heartbeat?.failure) throw error;
+      });
+      const cancelledRecord = withAttempts({
+        ...runningRecord,
+        status: 'cancelled',
+        endedAt: new Date().toISOString(),
+        summary,
+        ...reservation(),
+        ...duration,
+      });
+      this.store.append(cancelledRecord);
+      return { record: cancelledRecord };
+    };
+
+    if (isCancelled()) {
+      return finishCancelled();
+    }
 
     try {
-      const result = await adapter.run({
+      // Changes are measured from here, so ones the harness commits still count.
+      const scopeBase = await captureWorktreeBase(worktreePath);
+      harnessStartedAt = Date.now();
+      const harnesses = this.harnessIds();
+      const request: HarnessLaunchRequest = {
         harness: selectedHarness,
         worktreePath,
         task,
         sessionId: session.sessionId,
-        prompt: buildHarnessPrompt(task, session, selectedHarness),
-        timeoutMs: route.timeoutMs,
-      });
+        prompt: buildHarnessPrompt(task, session, selectedHarness, launch.handoff, state.retryContext, {
+          projectRoot: this.projectRoot,
+          ruleId: launch.ruleId,
+          context,
+        }),
+        timeoutMs: launch.timeoutMs,
+        ...(logFile ? { logFile } : {}),
+        signal: controller.signal,
+        onSpawn: harnessPid => {
+          liveRecord = { ...liveRecord, harnessPid };
+          this.store.append(liveRecord);
+          // A cancel issued before the pid was recorded could not reach the harness.
+          if (this.store.isCancelRequested(runId)) controller.abort();
+        },
+        ...(onProgress ? { onProgress: (event: HarnessProgressEvent) => onProgress(runId, event) } : {}),
+        harnesses,
+        policy: launch.policy,
+      };
+      let harnessResult = await adapter.run(request);
+      let resultValidation: RunResultValidation | undefined;
+      if (harnessResult.validationErrors) {
+        resultValidation = { errors: harnessResult.validationErrors };
+        // One re-prompt in the same session; the work is already in the worktree.
+        if (launch.repairOutput && !isCancelled()) {
+          onProgress?.(runId, { kind: 'message', text: 'Result failed validation; asking for a repaired result' });
+          const repair = await adapter.run({
+            ...request,
+            prompt: buildRepairPrompt(task, session, harnessResult.validationErrors, tailOutput(harnessResult.rawOutput ?? ''), harnesses),
+          });
+          const repaired = !repair.validationErrors;
+          resultValidation = {
+            ...resultValidation,
+            repaired,
+            ...(repair.validationErrors ? { repairErrors: repair.validationErrors } : {}),
+          };
+          const usage = addUsage(harnessResult.usage, repair.usage);
+          harnessResult = { ...(repaired ? repair : harnessResult), ...(usage ? { usage } : {}) };
+        }
+      }
+      harnessEndedAt = Date.now();
+
+      const scope = scopeBase
+        ? await checkFileScope(worktreePath, scopeBase, task.affectedFiles, harnessResult.filesChanged, launch.onScopeViolation ?? 'flag')
+        : undefined;
+      if (scope && !scope.ok && harnessResult.status !== 'failed') {
+        const violation = describeScopeViolation(scope);
+        onProgress?.(runId, { kind: 'message', text: `Scope violation: ${violation}` });
+        if (scope.policy === 'fail') {
+          harnessResult = {
+            ...harnessResult,
+            status: 'failed',
+            summary: `Scope violation: ${violation}. Harness reported: ${harnessResult.summary}`,
+            error: 'scope_violation',
+          };
+        }
+      }
+
+      const verification = harnessResult.status === 'completed' && launch.verify
+        ? await runVerifyGate(launch.verify, worktreePath, harnessResult.filesChanged, { base: scopeBase, logFile, signal: controller.signal })
+        : undefined;
+      const result: HarnessRunResult = verification && !verification.ok
+        ? {
+            ...harnessResult,
+            status: 'failed',
+            summary: `Verification failed: ${describeVerificationFailure(verification)}. Harness reported: ${harnessResult.summary}`,
+            error: 'verification_failed',
+          }
+        : harnessResult;
+
+      heartbeat?.stop();
+      if (heartbeat?.failure) {
+        return finishCancelled();
+      }
 
       if (result.status === 'handoff' && result.nextWorker) {
         await this.solo.createHandoff(taskId, {
@@ -110,51 +787,181 @@ export class Orchestrator {
       } else if (result.status === 'completed') {
         await this.solo.endSession(taskId, 'completed', { files: result.filesChanged });
       } else {
+        const failedCheck = verification?.checks.find(check => !check.ok);
         await this.solo.endSession(taskId, 'failed', {
-          notes: result.error ?? result.summary,
+          notes: failedCheck
+            ? `${result.summary}\n\n${failedCheck.output}`
+            : result.error === 'scope_violation' ? result.summary : result.error ?? result.summary,
           files: result.filesChanged,
         });
       }
 
-      const finalRecord: OrchestrationRunRecord = {
+      const failureClass = result.status === 'failed' ? classifyResultFailure(result) : undefined;
+      const finalRecord = withAttempts({
         ...baseRecord,
-        status: result.status,
+        status: failureClass ? finalStatus(failureClass) : result.status,
         sessionId: session.sessionId,
         worktreePath,
+        context: contextSummary,
         endedAt: new Date().toISOString(),
         summary: result.summary,
-      };
+        ...(result.nextWorker ? { nextWorker: result.nextWorker } : {}),
+        ...(verification ? { verification } : {}),
+        ...(resultValidation ? { resultValidation } : {}),
+        ...(scope ? { scope } : {}),
+        ...reservation(),
+        ...accounting(result.usage),
+      });
       this.store.append(finalRecord);
-      return finalRecord;
+      return {
+        record: finalRecord,
+        result,
+        ...(failureClass ? { failureClass } : {}),
+        ...(result.rawOutput ? { output: result.rawOutput } : {}),
+      };
     } catch (error) {
+      if (isCancelled()) {
+        return finishCancelled();
+      }
+
+      heartbeat?.stop();
+      const duration = accounting();
+      const failureClass = classifyThrownFailure(error);
       await this.solo.endSession(taskId, 'failed', {
         notes: error instanceof Error ? error.message : String(error),
       });
-      const failedRecord: OrchestrationRunRecord = {
+      const failedRecord = withAttempts({
         ...baseRecord,
-        status: 'failed',
+        status: finalStatus(failureClass),
         sessionId: session.sessionId,
         worktreePath,
+        context: contextSummary,
         endedAt: new Date().toISOString(),
         summary: error instanceof Error ? error.message : String(error),
-      };
+        ...reservation(),
+        ...duration,
+      });
       this.store.append(failedRecord);
-      return failedRecord;
+      return {
+        record: failedRecord,
+        failureClass,
+        ...(error instanceof HarnessProcessError ? { output: `${error.stdout}${error.stderr}` } : {}),
+      };
+    }
+  }
+
+  /**
+   * Sleeps before the next attempt. Returns false when the run is cancelled
+   * in the meantime, locally or through a cancel request from another process.
+   */
+  private async waitForRetry(runId: string, delayMs: number, signal: AbortSignal | undefined): Promise<boolean> {
+    const deadline = Date.now() + delayMs;
+    while (true) {
+      if (signal?.aborted || this.store.isCancelRequested(runId)) {
+        return false;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return true;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(remaining, 100)));
     }
   }
 
+  private async waitForFinish(runId: string, timeoutMs: number): Promise<OrchestrationRunRecord | undefined> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const latest = this.store.get(runId);
+      if (latest && isFinishedRunStatus(latest.status)) {
+        return latest;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return undefined;
+  }
+
+  /** The routed policy with `read_dirs` resolved against the project root. */
+  private effectivePolicy(policy: HarnessPolicy): HarnessPolicy {
+    return { ...policy, read_dirs: policy.read_dirs.map(dir => resolve(this.projectRoot, dir)) };
+  }
+
+  /** Built-in and configured harnesses, which a handoff result may name as `nextWorker`. */
+  private harnessIds(): HarnessId[] {
+    return [...BUILTIN_HARNESS_IDS, ...(this.routingConfig.harnesses ?? []).map(definition => definition.id)];
+  }
+
   private async loadTask(taskId: string): Promise<OrchestrationTaskRef> {
     const task = await this.solo.showTask(taskId);
-    return {
-      taskId,
-      title: String(task.title ?? ''),
-      description: typeof task.description === 'string' ? task.description : undefined,
-      type: typeof task.type === 'string' ? task.type : undefined,
-      priority: typeof task.priority === 'string' ? task.priority : undefined,
-      priorityValue: typeof task.priority_value === 'number' ? task.priority_value : undefined,
-      labels: Array.isArray(task.labels) ? task.labels.map(value => String(value)) : [],
-      status: typeof task.status === 'string' ? task.status : undefined,
-      affectedFiles: Array.isArray(task.affected_files) ? task.affected_files.map(value => String(value)) : [],
-    };
+    return normalizeSoloTask({ ...task, id: taskId });
+  }
+}
+
+/**
+ * Scans the untrusted text of a launch for injection patterns. Returns
+ * nothing when the text is clean.
+ */
+function checkInjection(
+  task: OrchestrationTaskRef,
+  launch: Pick<RunLaunch, 'handoff' | 'onInjection' | 'approveFlagged'>,
+): RunInjectionCheck | undefined {
+  const flags = detectPromptInjection(injectionFields(task, launch.handoff));
+  if (flags.length === 0) {
+    return undefined;
+  }
+  const policy = launch.onInjection ?? 'flag';
+  return { policy, flags, ...(policy === 'require_approval' && launch.approveFlagged ? { approved: true } : {}) };
+}
+
+/**
+ * Returns why a handoff chain must stop before launching `next`, or undefined
+ * when the hop is allowed. A harness that already ran in this chain counts as
+ * a loop (A→B→A).
+ */
+export function checkHandoffChain(visited: HarnessId[], next: HarnessId, maxHops: number): string | undefined {
+  if (visited.length - 1 >= maxHops) {
+    return `Handoff chain reached the maximum of ${maxHops} hop(s)`;
+  }
+
+  if (visited.includes(next)) {
+    return `Handoff loop detected: ${[...visited, next].join(' → ')}`;
+  }
+
+  return undefined;
+}
+
+async function describeUnavailable(harness: HarnessId, adapter: HarnessAdapter): Promise<string | undefined> {
+  const availability = await adapter.probeAvailability();
+  return availability.status === 'available'
+    ? undefined
+    : `Harness ${harness} unavailable: ${availability.reason ?? 'unknown error'}`;
+}
+
+function addUsage(a: HarnessUsage | undefined, b: HarnessUsage | undefined): HarnessUsage | undefined {
+  if (!a || !b) return a ?? b;
+  const sum = (key: keyof HarnessUsage) => a[key] === undefined && b[key] === undefined
+    ? {}
+    : { [key]: (a[key] ?? 0) + (b[key] ?? 0) };
+  return { ...sum('inputTokens'), ...sum('outputTokens'), ...sum('totalTokens'), ...sum('costUsd') };
+}
+
+function tailOutput(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > RETRY_OUTPUT_TAIL ? `…${trimmed.slice(-RETRY_OUTPUT_TAIL)}` : trimmed;
+}
+
+function classifyResultFailure(result: HarnessRunResult): FallbackTrigger {
+  if (result.error === 'timeout' || result.error === 'invalid_json' || result.error === 'empty_output') {
+    return result.error;
+  }
+  return 'error';
+}
+
+function classifyThrownFailure(error: unknown): FallbackTrigger {
+  if (typeof error === 'object' && error !== null) {
+    const candidate = error as { killed?: boolean; code?: unknown };
+    if (candidate.killed === true || candidate.code === 'ETIMEDOUT') {
+      return 'timeout';
+    }
   }
+  return 'error';
 }
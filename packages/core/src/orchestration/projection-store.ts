@@ -1,30 +1,322 @@
-import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
 import { join } from 'node:path';
-import type { OrchestrationRunRecord } from './types.js';
+import { isProcessAlive } from '../harnesses/process.js';
+import type { OrchestrationRunRecord, RunStatus } from './types.js';
 
+const FINISHED_STATUSES: RunStatus[] = ['completed', 'failed', 'handoff', 'cancelled', 'blocked'];
+
+const RUN_STATUSES: RunStatus[] = ['pending', 'routing', 'claiming', 'running', 'retrying', ...FINISHED_STATUSES];
+
+/** Appends between checks for whether the log has enough superseded lines to compact. */
+const COMPACT_CHECK_INTERVAL = 200;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** A compaction lock this old is abandoned even if its pid is alive (pids get reused). */
+const COMPACT_LOCK_STALE_MS = 30_000;
+
+export function isFinishedRunStatus(status: RunStatus): boolean {
+  return FINISHED_STATUSES.includes(status);
+}
+
+/** A run filter naming an unknown status or a time that does not parse. */
+export class RunFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunFilterError';
+  }
+}
+
+export interface RunFilter {
+  taskId?: string | undefined;
+  harness?: string | undefined;
+  status?: RunStatus | RunStatus[] | undefined;
+  /** Inclusive ISO timestamps compared against `startedAt`. */
+  since?: string | undefined;
+  until?: string | undefined;
+}
+
+export interface RunQuery extends RunFilter {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface RunPage {
+  runs: OrchestrationRunRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface ProjectionStoreOptions {
+  /** Rewrite the log once superseded lines outnumber live runs by this factor. */
+  compactRatio?: number;
+}
+
+/**
+ * Append-only projection of run state transitions in `runs.jsonl`. Each run
+ * appends a record per transition; reads fold them by `runId` into current
+ * state. The folded index is kept in memory and refreshed incrementally from
+ * the last byte read, so other processes' appends are picked up cheaply.
+ */
 export class ProjectionStore {
   private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly cancelDir: string;
+  private readonly compactRatio: number;
+  private runs = new Map<string, OrchestrationRunRecord>();
+  private lineCount = 0;
+  private offset = 0;
+  private inode?: number;
+  private appendsSinceCheck = 0;
 
-  constructor(rootDir: string = process.cwd()) {
+  constructor(rootDir: string = process.cwd(), options: ProjectionStoreOptions = {}) {
     const dir = join(rootDir, '.fleet', 'orchestration');
     if (!existsSync(dir)) {
       mkdirSync(dir, { recursive: true });
     }
     this.filePath = join(dir, 'runs.jsonl');
+    this.lockPath = `${this.filePath}.lock`;
+    this.cancelDir = join(dir, 'cancel');
+    this.compactRatio = options.compactRatio ?? 4;
   }
 
   append(record: OrchestrationRunRecord): void {
-    appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+    // A crash mid-write can leave a partial last line; start on a fresh line so
+    // this record is not glued onto it.
+    const separator = this.endsWithPartialLine() ? '\n' : '';
+    appendFileSync(this.filePath, `${separator}${JSON.stringify(record)}\n`, 'utf-8');
+
+    if (++this.appendsSinceCheck >= COMPACT_CHECK_INTERVAL) {
+      this.appendsSinceCheck = 0;
+      this.compactIfNeeded();
+    }
+  }
+
+  /** Current state of every run matching the filter, oldest first. Throws `RunFilterError` for an invalid filter. */
+  list(filter: RunFilter = {}): OrchestrationRunRecord[] {
+    validateFilter(filter);
+    this.refresh();
+    return Array.from(this.runs.values()).filter(record => matchesFilter(record, filter));
+  }
+
+  /** A page of matching runs, newest first. */
+  query(query: RunQuery = {}): RunPage {
+    const matching = this.list(query).reverse();
+    const offset = Number.isInteger(query.offset) ? Math.max(0, query.offset!) : 0;
+    const limit = Number.isInteger(query.limit) ? Math.max(1, query.limit!) : DEFAULT_PAGE_SIZE;
+    return {
+      runs: matching.slice(offset, offset + limit),
+      total: matching.length,
+      offset,
+      limit,
+    };
+  }
+
+  get(runId: string): OrchestrationRunRecord | undefined {
+    this.refresh();
+    return this.runs.get(runId);
+  }
+
+  /**
+   * Rewrites the log with one folded record per run and drops cancel markers
+   * for runs that have finished. Appends from other processes do not wait for
+   * it: lines they add after the snapshot are copied over before the rename.
+   * A lock file keeps two processes from compacting at once; while another
+   * process holds it, this is skipped.
+   */
+  compact(): void {
+    if (!this.acquireCompactionLock()) return;
+    try {
+      this.refresh();
+      const snapshotOffset = this.offset;
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      const lines = Array.from(this.runs.values()).map(record => `${JSON.stringify(record)}\n`);
+      writeFileSync(tempPath, lines.join(''), 'utf-8');
+      const late = this.readFrom(snapshotOffset);
+      if (late.length > 0) appendFileSync(tempPath, late);
+      renameSync(tempPath, this.filePath);
+      this.reset();
+      this.refresh();
+    } finally {
+      unlinkSync(this.lockPath);
+    }
+
+    if (existsSync(this.cancelDir)) {
+      for (const runId of readdirSync(this.cancelDir)) {
+        const run = this.runs.get(runId);
+        if (!run || isFinishedRunStatus(run.status)) {
+          unlinkSync(join(this.cancelDir, runId));
+        }
+      }
+    }
+  }
+
+  /**
+   * Cancellation requests are marker files so the process that owns a run can
+   * see a cancel issued from another CLI invocation or the API server.
+   */
+  requestCancel(runId: string): void {
+    if (!existsSync(this.cancelDir)) {
+      mkdirSync(this.cancelDir, { recursive: true });
+    }
+    writeFileSync(join(this.cancelDir, runId), new Date().toISOString(), 'utf-8');
   }
 
-  list(): OrchestrationRunRecord[] {
+  isCancelRequested(runId: string): boolean {
+    return existsSync(join(this.cancelDir, runId));
+  }
+
+  private compactIfNeeded(): void {
+    this.refresh();
+    if (this.lineCount > this.runs.size * this.compactRatio) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Folds any complete lines appended since the last read. A trailing line
+   * without a newline is left for the next refresh, and unparsable complete
+   * lines (a torn write followed by later appends) are skipped.
+   */
+  private refresh(): void {
     if (!existsSync(this.filePath)) {
-      return [];
+      this.reset();
+      this.runs.clear();
+      return;
+    }
+
+    const stats = statSync(this.filePath);
+    if (stats.ino !== this.inode || stats.size < this.offset) {
+      this.reset();
+      this.runs.clear();
+      this.inode = stats.ino;
+    }
+    if (stats.size === this.offset) {
+      return;
+    }
+
+    const buffer = this.readFrom(this.offset, stats.size);
+    const lastNewline = buffer.lastIndexOf(0x0a);
+    if (lastNewline === -1) {
+      return;
+    }
+    this.offset += lastNewline + 1;
+
+    for (const line of buffer.subarray(0, lastNewline).toString('utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      let record: OrchestrationRunRecord;
+      try {
+        record = JSON.parse(line) as OrchestrationRunRecord;
+      } catch {
+        continue;
+      }
+      this.lineCount++;
+      // A retry starts a new attempt from scratch; fields of the failed attempt
+      // (session, endedAt, harnessPid) must not leak into it.
+      const previous = this.runs.get(record.runId);
+      this.runs.set(record.runId, previous && previous.attempt === record.attempt ? { ...previous, ...record } : record);
+    }
+  }
+
+  /** Bytes of the log from `start` to `end`, or to its current end. */
+  private readFrom(start: number, end = existsSync(this.filePath) ? statSync(this.filePath).size : 0): Buffer {
+    const buffer = Buffer.alloc(Math.max(0, end - start));
+    if (buffer.length === 0) return buffer;
+    const fd = openSync(this.filePath, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, start);
+    } finally {
+      closeSync(fd);
+    }
+    return buffer;
+  }
+
+  /** Creates the lock file, replacing one left by a dead or stuck compaction. */
+  private acquireCompactionLock(): boolean {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        writeFileSync(this.lockPath, JSON.stringify({ pid: process.pid, at: Date.now() }), { flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST' || !this.isLockStale()) return false;
+        try {
+          unlinkSync(this.lockPath);
+        } catch {
+          // Another process cleared it first.
+        }
+      }
     }
+    return false;
+  }
+
+  private isLockStale(): boolean {
+    try {
+      const lock = JSON.parse(readFileSync(this.lockPath, 'utf-8')) as { pid?: number; at?: number };
+      return typeof lock.pid !== 'number' || !isProcessAlive(lock.pid) || Date.now() - (lock.at ?? 0) > COMPACT_LOCK_STALE_MS;
+    } catch {
+      // Unreadable: gone already, or written by a crashed compaction.
+      return true;
+    }
+  }
+
+  private reset(): void {
+    this.offset = 0;
+    this.lineCount = 0;
+    delete this.inode;
+  }
+
+  private endsWithPartialLine(): boolean {
+    if (!existsSync(this.filePath)) return false;
+    const size = statSync(this.filePath).size;
+    if (size === 0) return false;
+
+    const last = Buffer.alloc(1);
+    const fd = openSync(this.filePath, 'r');
+    try {
+      readSync(fd, last, 0, 1, size - 1);
+    } finally {
+      closeSync(fd);
+    }
+    return last[0] !== 0x0a;
+  }
+}
+
+function validateFilter(filter: RunFilter): void {
+  const statuses = filter.status === undefined ? [] : Array.isArray(filter.status) ? filter.status : [filter.status];
+  const unknown = statuses.find(status => !RUN_STATUSES.includes(status));
+  if (unknown !== undefined) {
+    throw new RunFilterError(`Unknown run status '${unknown}'; expected one of: ${RUN_STATUSES.join(', ')}`);
+  }
+  for (const field of ['since', 'until'] as const) {
+    const value = filter[field];
+    if (value && Number.isNaN(Date.parse(value))) {
+      throw new RunFilterError(`${field} must be a date or ISO timestamp, got '${value}'`);
+    }
+  }
+}
 
-    return readFileSync(this.filePath, 'utf-8')
-      .split('\n')
-      .filter(line => line.trim().length > 0)
-      .map(line => JSON.parse(line) as OrchestrationRunRecord);
+function matchesFilter(record: OrchestrationRunRecord, filter: RunFilter): boolean {
+  if (filter.taskId && record.taskId !== filter.taskId) return false;
+  if (filter.harness && record.harness !== filter.harness) return false;
+  if (filter.status) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    if (!statuses.includes(record.status)) return false;
   }
+  if (filter.since && Date.parse(record.startedAt) < Date.parse(filter.since)) return false;
+  if (filter.until && Date.parse(record.startedAt) > Date.parse(filter.until)) return false;
+  return true;
 }
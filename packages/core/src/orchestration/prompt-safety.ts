@@ -0,0 +1,101 @@
+import type { HandoffContext, InjectionFlag, OrchestrationTaskRef } from './types.js';
+
+interface InjectionPattern {
+  id: string;
+  pattern: RegExp;
+}
+
+/**
+ * Phrases and markup that try to pass task text off as instructions. Matching
+ * one does not prove an attack, so a match is only a flag; the routing policy
+ * decides what happens next.
+ */
+const INJECTION_PATTERNS: InjectionPattern[] = [
+  {
+    id: 'ignore_instructions',
+    pattern: /\b(?:ignore|disregard|forget|override)\b[^\n]{0,40}?\b(?:previous|prior|above|earlier|preceding|all|any|your|the|system)\b[^\n]{0,20}?\b(?:instructions?|rules|prompts?|directions|guidelines)\b/i,
+  },
+  {
+    // Headers of the packaged prompt, or a system prompt, at the start of a line.
+    id: 'fake_header',
+    pattern: /^[ \t#*]*(?:SYSTEM(?: RULES| PROMPT)?|SUCCESS REQUIREMENTS|SOLO CONTEXT|PREVIOUS HANDOFF|TASK|DEVELOPER)[ \t]*:/m,
+  },
+  {
+    id: 'role_marker',
+    pattern: /<\|(?:im_start|im_end|system|endoftext)\|>|<\/?(?:system|assistant|instructions?)>|\[\/?INST\]/i,
+  },
+  {
+    id: 'role_override',
+    pattern: /\b(?:you are now|from now on,? you|new instructions\s*:)/i,
+  },
+  {
+    id: 'data_delimiter',
+    pattern: /(?:BEGIN|END) UNTRUSTED DATA/,
+  },
+];
+
+const EXCERPT_CONTEXT = 30;
+
+/**
+ * Quotes a single-line value as a JSON string, so quotes, newlines and
+ * control characters in it cannot break out onto lines of their own.
+ */
+export function quoteInline(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Wraps multi-line untrusted text in a labelled data block. Every line is
+ * prefixed with `| `, so the text cannot close the block early or start a
+ * line that looks like a prompt header.
+ */
+export function quoteBlock(label: string, value: string): string {
+  const lines = value.replace(/\r\n?/g, '\n').split('\n').map(line => (line ? `| ${line}` : '|'));
+  return [`BEGIN UNTRUSTED DATA (${label})`, ...lines, `END UNTRUSTED DATA (${label})`].join('\n');
+}
+
+/** Returns every injection pattern found in the given fields, at most one per pattern and field. */
+export function detectPromptInjection(fields: Record<string, string>): InjectionFlag[] {
+  const flags: InjectionFlag[] = [];
+  for (const [field, text] of Object.entries(fields)) {
+    for (const { id, pattern } of INJECTION_PATTERNS) {
+      const match = pattern.exec(text);
+      if (match) {
+        flags.push({ field, pattern: id, excerpt: excerpt(text, match.index, match[0].length) });
+      }
+    }
+  }
+  return flags;
+}
+
+/**
+ * The untrusted text a launch puts in the prompt before its session starts:
+ * the task's own fields, its dependencies and any handoff from another
+ * harness. Project-owned context such as file contents is not checked.
+ */
+export function injectionFields(task: OrchestrationTaskRef, handoff?: HandoffContext): Record<string, string> {
+  const fields: Record<string, string> = {
+    title: task.title,
+    description: task.description ?? '',
+    acceptance_criteria: task.acceptanceCriteria ?? '',
+    definition_of_done: task.definitionOfDone ?? '',
+    labels: task.labels.join('\n'),
+    affected_files: task.affectedFiles.join('\n'),
+    dependencies: (task.dependencies ?? []).map(dependency => dependency.title ?? '').join('\n'),
+  };
+  if (handoff) {
+    fields['handoff.summary'] = handoff.summary;
+    fields['handoff.remaining_work'] = handoff.remainingWork;
+  }
+  return Object.fromEntries(Object.entries(fields).filter(([, text]) => text.length > 0));
+}
+
+export function describeInjectionFlags(flags: InjectionFlag[]): string {
+  return flags.map(flag => `${flag.pattern} in ${flag.field}`).join(', ');
+}
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_CONTEXT);
+  const end = Math.min(text.length, index + length + EXCERPT_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,92 @@
+import type { ReservationRenewal, RunReservation } from './types.js';
+
+/** How long before expiry a reservation is renewed by default. */
+export const DEFAULT_RENEW_BEFORE_MS = 60_000;
+
+export interface ReservationHeartbeatOptions {
+  expiresAt: string;
+  renewBeforeMs?: number;
+  /** Renews the reservation and returns its new expiry. */
+  renew: () => Promise<{ expiresAt?: string | undefined }>;
+  /** Called after every renewal attempt, successful or not. */
+  onRenewal?: (reservation: RunReservation) => void;
+  /** Called once when a renewal fails; the heartbeat stops. */
+  onFailure: (error: string) => void;
+}
+
+/**
+ * Keeps a Solo reservation alive while a harness runs. Each renewal is
+ * scheduled `renewBeforeMs` before the current expiry, or halfway there for
+ * reservations shorter than that. The first failed renewal stops the
+ * heartbeat and is reported through `onFailure`.
+ */
+export class ReservationHeartbeat {
+  private readonly options: ReservationHeartbeatOptions;
+  private readonly renewBeforeMs: number;
+  private readonly renewals: ReservationRenewal[] = [];
+  private expiresAt: string;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private stopped = false;
+  private failed: string | undefined;
+
+  constructor(options: ReservationHeartbeatOptions) {
+    this.options = options;
+    this.renewBeforeMs = options.renewBeforeMs ?? DEFAULT_RENEW_BEFORE_MS;
+    this.expiresAt = options.expiresAt;
+  }
+
+  /** Set once a renewal failed. */
+  get failure(): string | undefined {
+    return this.failed;
+  }
+
+  get reservation(): RunReservation {
+    return { expiresAt: this.expiresAt, renewals: [...this.renewals] };
+  }
+
+  start(): this {
+    this.schedule();
+    return this;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped) return;
+    const remaining = Date.parse(this.expiresAt) - Date.now();
+    const delay = Number.isNaN(remaining) ? undefined : Math.max(0, remaining > this.renewBeforeMs ? remaining - this.renewBeforeMs : remaining / 2);
+    if (delay === undefined) return;
+    this.timer = setTimeout(() => void this.renew(), delay);
+    this.timer.unref?.();
+  }
+
+  private async renew(): Promise<void> {
+    this.timer = undefined;
+    const at = new Date().toISOString();
+    try {
+      const { expiresAt } = await this.options.renew();
+      if (this.stopped) return;
+      // A renewal that does not move the expiry forward would spin.
+      if (!expiresAt || Date.parse(expiresAt) <= Date.parse(this.expiresAt)) {
+        throw new Error(`Solo did not extend the reservation past ${this.expiresAt}`);
+      }
+      this.expiresAt = expiresAt;
+      this.renewals.push({ at, ok: true, expiresAt });
+      this.options.onRenewal?.(this.reservation);
+      this.schedule();
+    } catch (error) {
+      if (this.stopped) return;
+      this.failed = error instanceof Error ? error.message : String(error);
+      this.renewals.push({ at, ok: false, error: this.failed });
+      this.stop();
+      this.options.onRenewal?.(this.reservation);
+      this.options.onFailure(this.failed);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { evaluateCondition, type ConditionFailure } from './rule-matcher.js';
+import { resolveHarnessRoute, type RoutingConfigShape, type RoutingDecision } from './routing-engine.js';
+import type { OrchestrationTaskRef } from './types.js';
+import type { HarnessLoadMap } from './weighted-routing.js';
+
+export interface RuleEvaluation {
+  ruleId: string;
+  matched: boolean;
+  /** Empty when the rule matched. */
+  failures: ConditionFailure[];
+}
+
+export interface RouteExplanation {
+  taskId: string;
+  title: string;
+  decision: RoutingDecision;
+  /** Rules in order up to and including the one that matched. */
+  evaluations: RuleEvaluation[];
+}
+
+export interface RuleCoverage {
+  ruleId: string;
+  /** Tasks whose attributes satisfy the rule's conditions. */
+  matched: number;
+  /** Tasks actually routed by the rule, i.e. no earlier rule matched them. */
+  selected: number;
+}
+
+export interface ShadowedRule {
+  ruleId: string;
+  /** Earlier rules that took every task this rule matched. */
+  shadowedBy: string[];
+}
+
+export interface RoutingSimulation {
+  tasks: RouteExplanation[];
+  rules: RuleCoverage[];
+  /** Tasks that fell through to `defaults`. */
+  unmatched: number;
+  /** Rules whose conditions no task satisfies. */
+  neverMatched: string[];
+  /** Rules that match some tasks but never win because an earlier rule always matches first. */
+  shadowed: ShadowedRule[];
+}
+
+/**
+ * Explains how a task is routed: each rule evaluated before the winner, with
+ * every condition it failed.
+ */
+export function explainRoute(
+  task: OrchestrationTaskRef,
+  config: RoutingConfigShape,
+  load: HarnessLoadMap = {},
+): RouteExplanation {
+  const evaluations: RuleEvaluation[] = [];
+  for (const evaluation of evaluateRules(task, config)) {
+    evaluations.push(evaluation);
+    if (evaluation.matched) break;
+  }
+
+  return {
+    taskId: task.taskId,
+    title: task.title,
+    decision: resolveHarnessRoute(task, config, load),
+    evaluations,
+  };
+}
+
+/**
+ * Routes a whole backlog without running anything and reports rules that
+ * never match any task or are always pre-empted by an earlier rule.
+ */
+export function simulateRouting(tasks: OrchestrationTaskRef[], config: RoutingConfigShape): RoutingSimulation {
+  const coverage = new Map<string, RuleCoverage>(
+    config.rules.map(rule => [rule.id, { ruleId: rule.id, matched: 0, selected: 0 }]),
+  );
+  const shadowedBy = new Map<string, Set<string>>();
+  const explanations: RouteExplanation[] = [];
+  let unmatched = 0;
+
+  for (const task of tasks) {
+    const evaluations = evaluateRules(task, config);
+    const winner = evaluations.find(evaluation => evaluation.matched);
+
+    for (const evaluation of evaluations.filter(entry => entry.matched)) {
+      const rule = coverage.get(evaluation.ruleId)!;
+      rule.matched++;
+      if (evaluation === winner) {
+        rule.selected++;
+      } else {
+        const by = shadowedBy.get(evaluation.ruleId) ?? new Set<string>();
+        by.add(winner!.ruleId);
+        shadowedBy.set(evaluation.ruleId, by);
+      }
+    }
+    if (!winner) unmatched++;
+
+    explanations.push({
+      taskId: task.taskId,
+      title: task.title,
+      decision: resolveHarnessRoute(task, config),
+      evaluations: winner ? evaluations.slice(0, evaluations.indexOf(winner) + 1) : evaluations,
+    });
+  }
+
+  const rules = Array.from(coverage.values());
+  return {
+    tasks: explanations,
+    rules,
+    unmatched,
+    neverMatched: rules.filter(rule => rule.matched === 0).map(rule => rule.ruleId),
+    shadowed: rules
+      .filter(rule => rule.matched > 0 && rule.selected === 0)
+      .map(rule => ({ ruleId: rule.ruleId, shadowedBy: Array.from(shadowedBy.get(rule.ruleId) ?? []) })),
+  };
+}
+
+function evaluateRules(task: OrchestrationTaskRef, config: RoutingConfigShape): RuleEvaluation[] {
+  return config.rules.map(rule => {
+    const failures = evaluateCondition(task, rule.when);
+    return { ruleId: rule.id, matched: failures.length === 0, failures };
+  });
+}
@@ -1,33 +1,140 @@
-import type { HarnessSelection, OrchestrationTaskRef } from './types.js';
-import { matchRoutingRule } from './rule-matcher.js';
+import { resolveHarnessPolicy } from '../harnesses/policy.js';
+import type { CustomHarnessDefinition } from '../harnesses/types.js';
+import type { ContextConfig } from './context-assembler.js';
+import type {
+  FallbackTrigger,
+  HarnessId,
+  HarnessPolicy,
+  HarnessPolicyConfig,
+  HarnessScore,
+  HarnessSelection,
+  InjectionPolicy,
+  OrchestrationTaskRef,
+  RetryPolicy,
+  RoutingStrategy,
+  ScopeViolationPolicy,
+  VerifyGateConfig,
+} from './types.js';
+import { matchRoutingRule, type RoutingRuleCondition } from './rule-matcher.js';
+import { describeScores, scoreHarnesses, type HarnessLoadMap } from './weighted-routing.js';
+
+const DEFAULT_SUCCESS_WINDOW = 20;
 
 export interface RoutingConfigShape {
   defaults: {
     harness: HarnessSelection['harness'];
     timeout_ms: number;
+    fallback?: HarnessId[];
+    fallback_on?: FallbackTrigger[];
+    verify?: VerifyGateConfig;
+    retry?: RetryPolicy;
+    on_injection?: InjectionPolicy;
+    repair_output?: boolean;
+    policy?: HarnessPolicyConfig;
+    on_scope_violation?: ScopeViolationPolicy;
   };
   rules: Array<{
     id: string;
-    when: Record<string, unknown>;
+    when: RoutingRuleCondition;
     select: {
       harness: HarnessSelection['harness'];
+      strategy?: RoutingStrategy;
+      candidates?: HarnessId[];
+      success_window?: number;
       timeout_ms?: number;
+      fallback?: HarnessId[];
+      fallback_on?: FallbackTrigger[];
+      verify?: VerifyGateConfig;
+      retry?: RetryPolicy;
+      on_injection?: InjectionPolicy;
+      repair_output?: boolean;
+      policy?: HarnessPolicyConfig;
+      on_scope_violation?: ScopeViolationPolicy;
     };
   }>;
+  harnesses?: CustomHarnessDefinition[];
+  handoff?: {
+    chain?: boolean;
+    max_hops?: number;
+  };
+  dispatch?: {
+    concurrency?: number;
+    max_per_harness?: Record<string, number>;
+  };
+  context?: ContextConfig;
 }
 
 export interface RoutingDecision {
   selection: HarnessSelection;
   timeoutMs: number;
+  /** Harnesses tried in order when the selected one is unavailable or fails with a `fallbackOn` class. */
+  fallback: HarnessId[];
+  fallbackOn: FallbackTrigger[];
+  /** Checks a `completed` result must pass; a rule's gate replaces the default one. */
+  verify?: VerifyGateConfig;
+  /** Retries on the same harness before falling back; a rule's policy replaces the default one. */
+  retry?: RetryPolicy;
+  /** Candidates of a weighted rule, best first. */
+  scores?: HarnessScore[];
+  /** What to do when task text matches an injection pattern; `flag` when unset. */
+  onInjection?: InjectionPolicy;
+  /** Re-prompt once for the structured result when a harness returns an invalid one. */
+  repairOutput?: boolean;
+  /** What the harness may do; a rule's policy replaces the default one. */
+  policy: HarnessPolicy;
+  /** What to do when a run changes files outside the task's affected files; `flag` when unset. */
+  onScopeViolation?: ScopeViolationPolicy;
 }
 
-export function resolveHarnessRoute(task: OrchestrationTaskRef, config: RoutingConfigShape): RoutingDecision {
+/**
+ * Picks the harness for a task: the first matching rule wins, falling back to
+ * `defaults`. Weighted rules rank their candidates against `load`; without it
+ * every candidate scores the same and the first one is selected.
+ */
+export function resolveHarnessRoute(
+  task: OrchestrationTaskRef,
+  config: RoutingConfigShape,
+  load: HarnessLoadMap = {},
+): RoutingDecision {
   const matched = matchRoutingRule(task, config.rules);
   if (matched) {
     const rule = config.rules.find(entry => entry.id === matched.ruleId);
+    if (rule?.select.strategy === 'weighted' && rule.select.candidates) {
+      const scores = scoreHarnesses(rule.select.candidates, load, {
+        maxPerHarness: config.dispatch?.max_per_harness,
+        window: rule.select.success_window ?? DEFAULT_SUCCESS_WINDOW,
+      });
+      const [best, ...rest] = scores;
+      return {
+        selection: {
+          harness: best!.harness,
+          ruleId: rule.id,
+          reason: `Matched routing rule '${rule.id}'; weighted selection of '${best!.harness}': ${describeScores(scores)}`,
+        },
+        timeoutMs: rule.select.timeout_ms ?? config.defaults.timeout_ms,
+        fallback: [...rest.map(entry => entry.harness), ...(rule.select.fallback ?? [])],
+        fallbackOn: rule.select.fallback_on ?? config.defaults.fallback_on ?? [],
+        ...enabledGate(rule.select.verify ?? config.defaults.verify),
+        ...retryingPolicy(rule.select.retry ?? config.defaults.retry),
+        ...injectionPolicy(rule.select.on_injection ?? config.defaults.on_injection),
+        ...outputRepair(rule.select.repair_output ?? config.defaults.repair_output),
+        policy: resolveHarnessPolicy(rule.select.policy ?? config.defaults.policy),
+        ...scopePolicy(rule.select.on_scope_violation ?? config.defaults.on_scope_violation),
+        scores,
+      };
+    }
+
     return {
       selection: matched,
       timeoutMs: rule?.select.timeout_ms ?? config.defaults.timeout_ms,
+      fallback: rule?.select.fallback ?? [],
+      fallbackOn: rule?.select.fallback_on ?? config.defaults.fallback_on ?? [],
+      ...enabledGate(rule?.select.verify ?? config.defaults.verify),
+      ...retryingPolicy(rule?.select.retry ?? config.defaults.retry),
+      ...injectionPolicy(rule?.select.on_injection ?? config.defaults.on_injection),
+      ...outputRepair(rule?.select.repair_output ?? config.defaults.repair_output),
+      policy: resolveHarnessPolicy(rule?.select.policy ?? config.defaults.policy),
+      ...scopePolicy(rule?.select.on_scope_violation ?? config.defaults.on_scope_violation),
     };
   }
 
@@ -38,5 +145,33 @@ export function resolveHarnessRoute(task: OrchestrationTaskRef, config: RoutingC
       reason: `No routing rule matched; using default harness '${config.defaults.harness}'`,
     },
     timeoutMs: config.defaults.timeout_ms,
+    fallback: config.defaults.fallback ?? [],
+    fallbackOn: config.defaults.fallback_on ?? [],
+    ...enabledGate(config.defaults.verify),
+    ...retryingPolicy(config.defaults.retry),
+    ...injectionPolicy(config.defaults.on_injection),
+    ...outputRepair(config.defaults.repair_output),
+    policy: resolveHarnessPolicy(config.defaults.policy),
+    ...scopePolicy(config.defaults.on_scope_violation),
   };
 }
+
+function enabledGate(verify: VerifyGateConfig | undefined): { verify?: VerifyGateConfig } {
+  return verify?.enabled ? { verify } : {};
+}
+
+function retryingPolicy(retry: RetryPolicy | undefined): { retry?: RetryPolicy } {
+  return retry && retry.max_attempts > 1 ? { retry } : {};
+}
+
+function injectionPolicy(policy: InjectionPolicy | undefined): { onInjection?: InjectionPolicy } {
+  return policy ? { onInjection: policy } : {};
+}
+
+function outputRepair(repair: boolean | undefined): { repairOutput?: boolean } {
+  return repair ? { repairOutput: true } : {};
+}
+
+function scopePolicy(policy: ScopeViolationPolicy | undefined): { onScopeViolation?: ScopeViolationPolicy } {
+  return policy ? { onScopeViolation: policy } : {};
+}
@@ -1,12 +1,40 @@
-import type { HarnessSelection, OrchestrationTaskRef } from './types.js';
+import type {
+  FallbackTrigger,
+  HarnessSelection,
+  OrchestrationTaskRef,
+  RetryPolicy,
+  VerifyGateConfig,
+} from './types.js';
 
+/** Numeric bounds; every bound present must hold. */
+export interface NumericRange {
+  eq?: number;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Every field present must match. `all`, `any` and `not` nest further
+ * conditions, so rules can express OR and negation.
+ */
 export interface RoutingRuleCondition {
   task_id?: string | string[];
   task_type?: string | string[];
+  /** Task has every one of these labels. */
   labels?: string[];
+  /** Task has at least one of these labels. */
+  any_labels?: string[];
   priority?: string | string[];
+  priority_value?: NumericRange;
   title_regex?: string;
+  description_regex?: string;
   affected_files_glob?: string[];
+  affected_files_count?: NumericRange;
+  all?: RoutingRuleCondition[];
+  any?: RoutingRuleCondition[];
+  not?: RoutingRuleCondition;
 }
 
 export interface RoutingRule {
@@ -15,12 +43,23 @@ export interface RoutingRule {
   select: {
     harness: HarnessSelection['harness'];
     timeout_ms?: number;
+    fallback?: HarnessSelection['harness'][];
+    fallback_on?: FallbackTrigger[];
+    verify?: VerifyGateConfig;
+    retry?: RetryPolicy;
   };
 }
 
+/** One condition of a rule's `when` that a task did not satisfy. */
+export interface ConditionFailure {
+  /** Path within `when`, e.g. `any_labels` or `all[1].priority_value`. */
+  path: string;
+  reason: string;
+}
+
 export function matchRoutingRule(task: OrchestrationTaskRef, rules: RoutingRule[]): HarnessSelection | null {
   for (const rule of rules) {
-    if (!matchesCondition(task, rule.when)) {
+    if (evaluateCondition(task, rule.when).length > 0) {
       continue;
     }
 
@@ -34,38 +73,110 @@ export function matchRoutingRule(task: OrchestrationTaskRef, rules: RoutingRule[
   return null;
 }
 
-function matchesCondition(task: OrchestrationTaskRef, when: RoutingRuleCondition): boolean {
+/**
+ * Returns every condition in `when` the task fails; an empty list means the
+ * condition matches. Unlike matching, this does not stop at the first
+ * failure, so explanations can list them all.
+ */
+export function evaluateCondition(
+  task: OrchestrationTaskRef,
+  when: RoutingRuleCondition,
+  path = '',
+): ConditionFailure[] {
+  const failures: ConditionFailure[] = [];
+  const fail = (key: string, reason: string) => failures.push({ path: path ? `${path}.${key}` : key, reason });
+
   if (when.task_id && !matchesValue(task.taskId, when.task_id)) {
-    return false;
+    fail('task_id', `task id ${task.taskId} is not ${describeExpected(when.task_id)}`);
   }
 
   if (when.task_type && !matchesValue(task.type, when.task_type)) {
-    return false;
+    fail('task_type', `type ${task.type ?? '(none)'} is not ${describeExpected(when.task_type)}`);
   }
 
   if (when.priority && !matchesValue(task.priority, when.priority)) {
-    return false;
+    fail('priority', `priority ${task.priority ?? '(none)'} is not ${describeExpected(when.priority)}`);
   }
 
-  if (when.labels && !when.labels.every(label => task.labels.includes(label))) {
-    return false;
+  if (when.priority_value && !matchesRange(task.priorityValue, when.priority_value)) {
+    fail('priority_value', task.priorityValue === undefined
+      ? 'task has no priority_value'
+      : `priority_value ${task.priorityValue} is not ${describeRange(when.priority_value)}`);
   }
 
-  if (when.title_regex) {
-    const regex = new RegExp(when.title_regex, 'i');
-    if (!regex.test(task.title)) {
-      return false;
+  if (when.labels) {
+    const missing = when.labels.filter(label => !task.labels.includes(label));
+    if (missing.length > 0) {
+      fail('labels', `missing label(s) ${missing.join(', ')}`);
     }
   }
 
+  if (when.any_labels && !when.any_labels.some(label => task.labels.includes(label))) {
+    fail('any_labels', `has none of the labels ${when.any_labels.join(', ')}`);
+  }
+
+  if (when.title_regex && !new RegExp(when.title_regex, 'i').test(task.title)) {
+    fail('title_regex', `title does not match /${when.title_regex}/i`);
+  }
+
+  if (when.description_regex && !new RegExp(when.description_regex, 'i').test(task.description ?? '')) {
+    fail('description_regex', `description does not match /${when.description_regex}/i`);
+  }
+
   if (when.affected_files_glob && when.affected_files_glob.length > 0) {
     const matched = task.affectedFiles.some(file => when.affected_files_glob!.some(pattern => globMatches(file, pattern)));
     if (!matched) {
-      return false;
+      fail('affected_files_glob', `no affected file matches ${when.affected_files_glob.join(', ')}`);
+    }
+  }
+
+  if (when.affected_files_count && !matchesRange(task.affectedFiles.length, when.affected_files_count)) {
+    fail('affected_files_count', `${task.affectedFiles.length} affected file(s), not ${describeRange(when.affected_files_count)}`);
+  }
+
+  when.all?.forEach((condition, index) => {
+    failures.push(...evaluateCondition(task, condition, path ? `${path}.all[${index}]` : `all[${index}]`));
+  });
+
+  if (when.any) {
+    const alternatives = when.any.map((condition, index) => (
+      evaluateCondition(task, condition, path ? `${path}.any[${index}]` : `any[${index}]`)
+    ));
+    if (alternatives.every(alternative => alternative.length > 0)) {
+      const details = alternatives.flat().map(failure => `${failure.path}: ${failure.reason}`).join('; ');
+      fail('any', `none of ${alternatives.length} alternatives matched (${details})`);
     }
   }
 
-  return true;
+  if (when.not && evaluateCondition(task, when.not).length === 0) {
+    fail('not', 'the negated condition matched');
+  }
+
+  return failures;
+}
+
+function matchesRange(actual: number | undefined, range: NumericRange): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+
+  return (range.eq === undefined || actual === range.eq)
+    && (range.gt === undefined || actual > range.gt)
+    && (range.gte === undefined || actual >= range.gte)
+    && (range.lt === undefined || actual < range.lt)
+    && (range.lte === undefined || actual <= range.lte);
+}
+
+function describeRange(range: NumericRange): string {
+  const bounds: Array<[keyof NumericRange, string]> = [['eq', '='], ['gt', '>'], ['gte', '>='], ['lt', '<'], ['lte', '<=']];
+  return bounds
+    .filter(([key]) => range[key] !== undefined)
+    .map(([key, operator]) => `${operator} ${range[key]}`)
+    .join(', ');
+}
+
+function describeExpected(expected: string | string[]): string {
+  return Array.isArray(expected) ? `one of ${expected.join(', ')}` : expected;
 }
 
 function matchesValue(actual: string | undefined, expected: string | string[]): boolean {
@@ -76,7 +187,8 @@ function matchesValue(actual: string | undefined, expected: string | string[]):
   return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
 }
 
-function globMatches(value: string, pattern: string): boolean {
+/** `**` matches across directories, `*` within one path segment. */
+export function globMatches(value: string, pattern: string): boolean {
   const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
   const regex = escaped.replace(/\*\*/g, '.*').replace(/\*/g, '[^/]*');
   return new RegExp(`^${regex}$`).test(value);
@@ -0,0 +1,81 @@
+import { closeSync, existsSync, mkdirSync, openSync, readSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { ProjectionStore, isFinishedRunStatus } from './projection-store.js';
+
+export interface FollowRunLogOptions {
+  onChunk: (chunk: string) => void;
+  /** Keep polling for new output until the run reaches a finished status. */
+  follow?: boolean;
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+}
+
+export function runLogPath(rootDir: string, runId: string): string {
+  return join(rootDir, '.fleet', 'orchestration', 'logs', `${runId}.log`);
+}
+
+/**
+ * Creates the logs directory and returns the log path for a new run.
+ */
+export function prepareRunLog(rootDir: string, runId: string): string {
+  const dir = join(rootDir, '.fleet', 'orchestration', 'logs');
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return runLogPath(rootDir, runId);
+}
+
+/**
+ * Streams a run's log to `onChunk`. Without `follow` it emits what has been
+ * written so far; with `follow` it tails the file until the run finishes or
+ * the signal aborts.
+ */
+export async function followRunLog(rootDir: string, runId: string, options: FollowRunLogOptions): Promise<void> {
+  const store = new ProjectionStore(rootDir);
+  const path = runLogPath(rootDir, runId);
+  const pollIntervalMs = options.pollIntervalMs ?? 500;
+
+  const isFinished = (): boolean | undefined => {
+    const latest = store.get(runId);
+    return latest ? isFinishedRunStatus(latest.status) : undefined;
+  };
+
+  if (isFinished() === undefined && !existsSync(path)) {
+    throw new Error(`Run not found: ${runId}`);
+  }
+
+  let offset = 0;
+  while (true) {
+    // Check before reading so output written just before the run finished is
+    // still picked up by this final read.
+    const finished = isFinished() ?? true;
+    offset = readFrom(path, offset, options.onChunk);
+
+    if (!options.follow || finished || options.signal?.aborted) {
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+function readFrom(path: string, offset: number, onChunk: (chunk: string) => void): number {
+  if (!existsSync(path)) {
+    return offset;
+  }
+
+  const size = statSync(path).size;
+  if (size <= offset) {
+    return offset;
+  }
+
+  const buffer = Buffer.alloc(size - offset);
+  const fd = openSync(path, 'r');
+  try {
+    readSync(fd, buffer, 0, buffer.length, offset);
+  } finally {
+    closeSync(fd);
+  }
+  onChunk(buffer.toString('utf-8'));
+  return size;
+}
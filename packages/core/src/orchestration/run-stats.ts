@@ -0,0 +1,139 @@
+import { isFinishedRunStatus } from './projection-store.js';
+import type { OrchestrationRunRecord } from './types.js';
+
+export type RunStatsGroupBy = 'harness' | 'rule' | 'label';
+
+export const RUN_STATS_GROUP_BY: RunStatsGroupBy[] = ['harness', 'rule', 'label'];
+
+/** Key used for runs without labels when grouping by label. */
+export const UNLABELLED_GROUP = '(none)';
+
+export interface RunStatsGroup {
+  key: string;
+  runs: number;
+  completed: number;
+  failed: number;
+  handoff: number;
+  cancelled: number;
+  /** Completed runs as a fraction of all runs in the group. */
+  successRate: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  durationMs: number;
+  /** Runs that reported any token count or cost. */
+  runsWithUsage: number;
+  /** Average over runs that reported a cost; undefined when none did. */
+  avgCostUsd?: number | undefined;
+  /** Average over runs with a recorded duration. */
+  avgDurationMs?: number | undefined;
+}
+
+export interface RunStats {
+  groupBy: RunStatsGroupBy;
+  groups: RunStatsGroup[];
+  totals: RunStatsGroup;
+}
+
+interface Accumulator {
+  group: RunStatsGroup;
+  costedRuns: number;
+  timedRuns: number;
+}
+
+/**
+ * Aggregates finished runs by harness, routing rule or task label. A run
+ * with several labels counts towards each of them, so label groups can add
+ * up to more than the totals. Groups are ordered by cost, then run count.
+ * Blocked runs never reached a harness and are left out.
+ */
+export function summarizeRunStats(records: OrchestrationRunRecord[], groupBy: RunStatsGroupBy): RunStats {
+  const finished = records.filter(record => isFinishedRunStatus(record.status) && record.status !== 'blocked');
+  const groups = new Map<string, Accumulator>();
+  const totals = createAccumulator('total');
+
+  for (const record of finished) {
+    addRun(totals, record);
+    for (const key of groupKeys(record, groupBy)) {
+      let accumulator = groups.get(key);
+      if (!accumulator) {
+        accumulator = createAccumulator(key);
+        groups.set(key, accumulator);
+      }
+      addRun(accumulator, record);
+    }
+  }
+
+  return {
+    groupBy,
+    groups: Array.from(groups.values())
+      .map(finish)
+      .sort((a, b) => b.costUsd - a.costUsd || b.runs - a.runs || a.key.localeCompare(b.key)),
+    totals: finish(totals),
+  };
+}
+
+function groupKeys(record: OrchestrationRunRecord, groupBy: RunStatsGroupBy): string[] {
+  if (groupBy === 'harness') return [record.harness];
+  if (groupBy === 'rule') return [record.ruleId];
+  const labels = Array.from(new Set(record.labels ?? []));
+  return labels.length > 0 ? labels : [UNLABELLED_GROUP];
+}
+
+function createAccumulator(key: string): Accumulator {
+  return {
+    group: {
+      key,
+      runs: 0,
+      completed: 0,
+      failed: 0,
+      handoff: 0,
+      cancelled: 0,
+      successRate: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      durationMs: 0,
+      runsWithUsage: 0,
+    },
+    costedRuns: 0,
+    timedRuns: 0,
+  };
+}
+
+function addRun(accumulator: Accumulator, record: OrchestrationRunRecord): void {
+  const { group } = accumulator;
+  group.runs++;
+  if (record.status === 'completed') group.completed++;
+  if (record.status === 'failed') group.failed++;
+  if (record.status === 'handoff') group.handoff++;
+  if (record.status === 'cancelled') group.cancelled++;
+
+  const usage = record.usage;
+  if (usage && Object.keys(usage).length > 0) {
+    group.runsWithUsage++;
+    group.inputTokens += usage.inputTokens ?? 0;
+    group.outputTokens += usage.outputTokens ?? 0;
+    group.totalTokens += usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+    if (usage.costUsd !== undefined) {
+      group.costUsd += usage.costUsd;
+      accumulator.costedRuns++;
+    }
+  }
+
+  if (record.durationMs !== undefined) {
+    group.durationMs += record.durationMs;
+    accumulator.timedRuns++;
+  }
+}
+
+function finish({ group, costedRuns, timedRuns }: Accumulator): RunStatsGroup {
+  return {
+    ...group,
+    successRate: group.runs > 0 ? group.completed / group.runs : 0,
+    ...(costedRuns > 0 ? { avgCostUsd: group.costUsd / costedRuns } : {}),
+    ...(timedRuns > 0 ? { avgDurationMs: Math.round(group.durationMs / timedRuns) } : {}),
+  };
+}
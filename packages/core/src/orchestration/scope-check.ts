@@ -0,0 +1,99 @@
+import { isAbsolute, relative, resolve } from 'node:path';
+import { runHarnessProcess } from '../harnesses/process.js';
+import { globMatches } from './rule-matcher.js';
+import type { FileScopeReport, ScopeViolationPolicy } from './types.js';
+
+const GIT_TIMEOUT_MS = 30_000;
+
+/**
+ * The worktree's commit before the harness starts, so changes it commits
+ * itself still count. Undefined when the worktree is not a git checkout.
+ */
+export async function captureWorktreeBase(worktreePath: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await runHarnessProcess('git', ['rev-parse', 'HEAD'], { cwd: worktreePath, timeoutMs: GIT_TIMEOUT_MS });
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compares what git says changed in the worktree since `base` with the
+ * task's affected files and with the files the harness reported. Affected
+ * files may be paths, globs, or directories ending in `/`; a task without any
+ * has no scope to leave. Reported paths outside the worktree always count as
+ * violations.
+ */
+export async function checkFileScope(
+  worktreePath: string,
+  base: string,
+  affectedFiles: string[],
+  reported: string[],
+  policy: ScopeViolationPolicy,
+): Promise<FileScopeReport> {
+  let changed: string[];
+  try {
+    changed = await listChangedFiles(worktreePath, base);
+  } catch (error) {
+    return {
+      policy,
+      ok: true,
+      changed: [],
+      outOfScope: [],
+      outsideWorktree: [],
+      unreported: [],
+      notChanged: [],
+      error: `git diff failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const outsideWorktree: string[] = [];
+  const reportedPaths = new Set<string>();
+  for (const file of reported) {
+    const path = relative(worktreePath, resolve(worktreePath, file));
+    if (path.startsWith('..') || isAbsolute(path)) {
+      outsideWorktree.push(file);
+    } else {
+      reportedPaths.add(path);
+    }
+  }
+
+  const changedPaths = new Set(changed);
+  const outOfScope = affectedFiles.length > 0
+    ? changed.filter(file => !affectedFiles.some(pattern => inScope(file, pattern)))
+    : [];
+  return {
+    policy,
+    ok: outOfScope.length === 0 && outsideWorktree.length === 0,
+    changed,
+    outOfScope,
+    outsideWorktree,
+    unreported: changed.filter(file => !reportedPaths.has(file)),
+    notChanged: Array.from(reportedPaths).filter(file => !changedPaths.has(file)),
+  };
+}
+
+/** One-line description of the violations, for summaries and Solo notes. */
+export function describeScopeViolation(report: FileScopeReport): string {
+  return [
+    ...(report.outOfScope.length > 0 ? [`changed outside the task's affected files: ${report.outOfScope.join(', ')}`] : []),
+    ...(report.outsideWorktree.length > 0 ? [`reported files outside the worktree: ${report.outsideWorktree.join(', ')}`] : []),
+  ].join('; ');
+}
+
+/** Files changed in the worktree since `base`, committed or not, plus new files. */
+export async function listChangedFiles(worktreePath: string, base: string): Promise<string[]> {
+  const git = async (args: string[]) => (await runHarnessProcess('git', args, { cwd: worktreePath, timeoutMs: GIT_TIMEOUT_MS })).stdout;
+  const tracked = await git(['diff', '--name-only', '--no-renames', '-z', base]);
+  const untracked = await git(['ls-files', '--others', '--exclude-standard', '-z']);
+  return Array.from(new Set([...tracked.split('\0'), ...untracked.split('\0')].filter(Boolean))).sort();
+}
+
+function inScope(file: string, pattern: string): boolean {
+  const normalized = pattern.replace(/^\.\//, '');
+  if (normalized.endsWith('/')) {
+    return file.startsWith(normalized);
+  }
+  return file === normalized || globMatches(file, normalized);
+}
@@ -1,4 +1,6 @@
-export type HarnessId = 'claude-code' | 'opencode' | 'codex';
+export type BuiltinHarnessId = 'claude-code' | 'opencode' | 'codex';
+
+export type HarnessId = BuiltinHarnessId | (string & {});
 
 export type HarnessAvailabilityStatus = 'available' | 'unavailable';
 
@@ -12,6 +14,16 @@ export interface OrchestrationTaskRef {
   labels: string[];
   status?: string;
   affectedFiles: string[];
+  acceptanceCriteria?: string;
+  definitionOfDone?: string;
+  /** Tasks this one depends on, as reported by `solo task show`. */
+  dependencies?: TaskDependencyRef[];
+}
+
+export interface TaskDependencyRef {
+  taskId: string;
+  title?: string;
+  status?: string;
 }
 
 export interface HarnessAvailability {
@@ -34,7 +46,53 @@ export type RunStatus =
   | 'running'
   | 'completed'
   | 'failed'
-  | 'handoff';
+  | 'handoff'
+  | 'cancelled'
+  /** An attempt failed and another one will start after the retry backoff. */
+  | 'retrying'
+  /** The injection policy stopped the task before a Solo session started. */
+  | 'blocked';
+
+/**
+ * What happens when task text matches a prompt-injection pattern: `flag`
+ * records the match and runs the task, `block` refuses it, and
+ * `require_approval` refuses it unless the run is explicitly approved.
+ */
+export type InjectionPolicy = 'flag' | 'block' | 'require_approval';
+
+/** One suspicious pattern found in untrusted task text. */
+export interface InjectionFlag {
+  /** Where it was found, e.g. `description` or `handoff.summary`. */
+  field: string;
+  pattern: string;
+  excerpt: string;
+}
+
+export interface RunInjectionCheck {
+  policy: InjectionPolicy;
+  flags: InjectionFlag[];
+  /** Set when a `require_approval` task was run with approval. */
+  approved?: boolean;
+}
+
+/**
+ * `static` always selects the rule's harness; `weighted` picks among its
+ * candidates by recent success rate and free concurrency.
+ */
+export type RoutingStrategy = 'static' | 'weighted';
+
+/** Why a weighted rule ranked a candidate where it did. */
+export interface HarnessScore {
+  harness: HarnessId;
+  score: number;
+  /** Completed runs among the `finished` ones in the success window. */
+  completed: number;
+  finished: number;
+  /** Smoothed so harnesses without history start at 0.5. */
+  successRate: number;
+  inFlight: number;
+  maxConcurrency?: number;
+}
 
 export interface HarnessLaunchRequest {
   harness: HarnessId;
@@ -43,6 +101,46 @@ export interface HarnessLaunchRequest {
   sessionId: string;
   prompt: string;
   timeoutMs: number;
+  /** Harness stdout/stderr is appended here as it arrives. */
+  logFile?: string;
+  onProgress?: (event: HarnessProgressEvent) => void;
+  /** Aborted when the run is cancelled; adapters terminate the harness process group. */
+  signal?: AbortSignal;
+  onSpawn?: (pid: number) => void;
+  /** Harness ids a handoff result may name as `nextWorker`. */
+  harnesses?: HarnessId[];
+  /** What the harness may do; adapters without one apply the default policy. */
+  policy?: HarnessPolicy;
+}
+
+/** Tool names in a harness policy; each adapter maps them to its own. */
+export type HarnessTool = 'read' | 'edit' | 'write' | 'bash' | 'glob' | 'grep' | 'web_fetch' | 'web_search';
+
+/** What a harness may do. Mirrors `policy` in fleet.routing.yaml, where every field is optional. */
+export interface HarnessPolicyConfig {
+  tools?: HarnessTool[];
+  /** Command patterns: a command, or a prefix followed by ` *`. An empty `allow` allows any command. */
+  bash?: { allow?: string[]; deny?: string[] };
+  network?: boolean;
+  /** Directories outside the worktree the harness may read. */
+  read_dirs?: string[];
+}
+
+/** A policy with its defaults filled in, as passed to adapters and recorded on the run. */
+export interface HarnessPolicy {
+  tools: HarnessTool[];
+  bash: { allow: string[]; deny: string[] };
+  network: boolean;
+  read_dirs: string[];
+}
+
+/**
+ * A human-readable step parsed from a harness's streamed output, e.g. one
+ * Claude Code stream-json event.
+ */
+export interface HarnessProgressEvent {
+  kind: 'init' | 'message' | 'tool_use' | 'result';
+  text: string;
 }
 
 export interface HarnessRunResult {
@@ -53,6 +151,93 @@ export interface HarnessRunResult {
   filesChanged: string[];
   error?: string;
   rawOutput?: string;
+  usage?: HarnessUsage;
+  /** Why the structured result was rejected; set with `error: 'invalid_json'`. */
+  validationErrors?: string[];
+}
+
+/**
+ * Token and cost figures reported by a harness for one run. Fields the
+ * harness does not report are left out.
+ */
+export interface HarnessUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  /** Input plus output; the only figure for harnesses that report a combined count. */
+  totalTokens?: number;
+  costUsd?: number;
+}
+
+/**
+ * Failure classes that can move a run on to the next fallback harness.
+ * `error` covers any failure that is not one of the named classes.
+ */
+export type FallbackTrigger = 'timeout' | 'invalid_json' | 'empty_output' | 'error';
+
+/**
+ * Post-run checks that must pass before a self-reported `completed` run is
+ * accepted. Mirrors `verify` in fleet.routing.yaml.
+ */
+export interface VerifyGateConfig {
+  enabled: boolean;
+  tests?: {
+    command: string;
+    timeout_seconds: number;
+  };
+  commands: string[];
+  command_timeout_seconds: number;
+  check_files: boolean;
+}
+
+/**
+ * How a failed attempt is retried on the same harness. Mirrors `retry` in
+ * fleet.routing.yaml; `max_attempts` counts the first attempt.
+ */
+export interface RetryPolicy {
+  max_attempts: number;
+  backoff_ms: number;
+  backoff_multiplier: number;
+  max_backoff_ms: number;
+  retry_on: FallbackTrigger[];
+}
+
+/** What the next attempt is told about the one that failed before it. */
+export interface RetryContext {
+  attempt: number;
+  maxAttempts: number;
+  previousError: string;
+  /** Tail of the previous attempt's harness output. */
+  outputTail: string;
+}
+
+export interface VerifyCheckResult {
+  name: 'tests' | 'files' | 'command';
+  command?: string;
+  ok: boolean;
+  /** Tail of the check output. */
+  output: string;
+}
+
+export interface VerificationResult {
+  ok: boolean;
+  checks: VerifyCheckResult[];
+}
+
+export interface RunAttempt {
+  harness: HarnessId;
+  runId?: string;
+  /** Retry attempt number within the run, when a retry policy applied. */
+  attempt?: number;
+  status: 'unavailable' | 'completed' | 'failed' | 'handoff' | 'cancelled';
+  failureClass?: FallbackTrigger;
+  reason?: string;
+}
+
+export interface HandoffContext {
+  fromHarness: HarnessId;
+  summary: string;
+  remainingWork: string;
+  filesChanged: string[];
 }
 
 export interface OrchestrationRunRecord {
@@ -64,7 +249,98 @@ export interface OrchestrationRunRecord {
   endedAt?: string;
   ruleId: string;
   reason: string;
+  /** Current attempt, 1-based, when a retry policy applies. */
+  attempt?: number;
+  /** Task labels at launch, kept for per-label reporting. */
+  labels?: string[];
   sessionId?: string;
   worktreePath?: string;
+  logFile?: string;
+  /** Process group of the running harness, used to cancel it from another process. */
+  harnessPid?: number;
+  /** The fleet process that launched the run. */
+  ownerPid?: number;
   summary?: string;
+  nextWorker?: HarnessId;
+  parentRunId?: string;
+  hop?: number;
+  chainStopReason?: string;
+  attempts?: RunAttempt[];
+  verification?: VerificationResult;
+  /** Summed over all attempts of the run. */
+  usage?: HarnessUsage;
+  /** Wall-clock time the harness process ran, summed over all attempts. */
+  durationMs?: number;
+  /** What was assembled into the prompt's context; the content is in `context.file`. */
+  context?: RunContextSummary;
+  /** Present when untrusted task text matched a prompt-injection pattern. */
+  injection?: RunInjectionCheck;
+  /** Present when the harness's structured result failed validation. */
+  resultValidation?: RunResultValidation;
+  /** The sandbox policy the harness was launched with. */
+  policy?: HarnessPolicy;
+  /** What git says the run changed, compared with the task scope and the reported files. */
+  scope?: FileScopeReport;
+  /** Present when the Solo reservation has an expiry, with every renewal made during the run. */
+  reservation?: RunReservation;
+}
+
+/** The Solo reservation of a run's current attempt. */
+export interface RunReservation {
+  /** Current expiry, after the last successful renewal. */
+  expiresAt: string;
+  renewals: ReservationRenewal[];
+}
+
+export interface ReservationRenewal {
+  at: string;
+  ok: boolean;
+  /** New expiry, when the renewal succeeded. */
+  expiresAt?: string;
+  error?: string;
+}
+
+/**
+ * What happens when a run changes files outside the task's affected files:
+ * `flag` records the report and keeps the result, `fail` fails the run.
+ */
+export type ScopeViolationPolicy = 'flag' | 'fail';
+
+/** Paths are relative to the worktree. */
+export interface FileScopeReport {
+  policy: ScopeViolationPolicy;
+  /** False when files were changed outside the task scope or reported outside the worktree. */
+  ok: boolean;
+  /** Changed since the run started, committed or not, including new files. */
+  changed: string[];
+  /** Changed files that match none of the task's affected files. */
+  outOfScope: string[];
+  /** Reported files that resolve outside the worktree. */
+  outsideWorktree: string[];
+  /** Changed but not in the harness's `filesChanged`. */
+  unreported: string[];
+  /** In the harness's `filesChanged` but not changed. */
+  notChanged: string[];
+  /** Set when git could not list the changes; the report is then empty. */
+  error?: string;
+}
+
+/** What was wrong with a harness's structured result and how a repair re-prompt went. */
+export interface RunResultValidation {
+  errors: string[];
+  /** Set when a repair re-prompt ran: whether it returned a valid result. */
+  repaired?: boolean;
+  /** What was wrong with the repair's result, when it was invalid too. */
+  repairErrors?: string[];
+}
+
+export type ContextSectionKind = 'solo' | 'dependency' | 'tech_order' | 'file';
+
+export interface RunContextSummary {
+  file: string;
+  tokens: number;
+  budgetTokens: number;
+  sections: Array<{ kind: ContextSectionKind; source: string; tokens: number; truncated?: boolean }>;
+  /** `source: reason` for each piece left out. */
+  omitted: string[];
 }
@@ -0,0 +1,126 @@
+import { relative, resolve } from 'node:path';
+import { HarnessProcessError, runHarnessProcess } from '../harnesses/process.js';
+import { listChangedFiles } from './scope-check.js';
+import type { VerificationResult, VerifyCheckResult, VerifyGateConfig } from './types.js';
+
+const MAX_CHECK_OUTPUT = 4_000;
+
+export interface VerifyGateOptions {
+  /** Worktree commit before the harness ran; without it only uncommitted changes count. */
+  base?: string | undefined;
+  logFile?: string | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Runs the gate's checks in the worktree in the same order as steer's
+ * deterministic verify (tests, files, acceptance commands) and stops at the
+ * first failure.
+ */
+export async function runVerifyGate(
+  config: VerifyGateConfig,
+  worktreePath: string,
+  filesChanged: string[],
+  options: VerifyGateOptions = {},
+): Promise<VerificationResult> {
+  const checks: VerifyCheckResult[] = [];
+  const finish = (): VerificationResult => ({ ok: checks.every(check => check.ok), checks });
+
+  if (config.tests) {
+    checks.push(await runCheck('tests', config.tests.command, worktreePath, config.tests.timeout_seconds, options));
+    if (!checks[checks.length - 1]!.ok) return finish();
+  }
+
+  if (config.check_files) {
+    checks.push(await checkReportedFiles(worktreePath, filesChanged, options.base));
+    if (!checks[checks.length - 1]!.ok) return finish();
+  }
+
+  for (const command of config.commands) {
+    checks.push(await runCheck('command', command, worktreePath, config.command_timeout_seconds, options));
+    if (!checks[checks.length - 1]!.ok) return finish();
+  }
+
+  return finish();
+}
+
+/** One-line description of the first failing check, for summaries and Solo notes. */
+export function describeVerificationFailure(result: VerificationResult): string | undefined {
+  const failed = result.checks.find(check => !check.ok);
+  if (!failed) return undefined;
+  return failed.command ? `${failed.name} check failed: ${failed.command}` : `${failed.name} check failed`;
+}
+
+async function runCheck(
+  name: VerifyCheckResult['name'],
+  command: string,
+  cwd: string,
+  timeoutSeconds: number,
+  options: VerifyGateOptions,
+): Promise<VerifyCheckResult> {
+  try {
+    const { stdout, stderr } = await runHarnessProcess('/bin/sh', ['-c', command], {
+      cwd,
+      timeoutMs: timeoutSeconds * 1000,
+      ...(options.logFile ? { logFile: options.logFile } : {}),
+      ...(options.signal ? { signal: options.signal } : {}),
+    });
+    return { name, command, ok: true, output: tail(`${stdout}${stderr}`) };
+  } catch (error) {
+    if (error instanceof HarnessProcessError && !error.cancelled) {
+      return { name, command, ok: false, output: tail(`${error.stdout}${error.stderr}\n${error.message}`) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Compares the files a harness reported against what changed in the worktree
+ * since `base`, in both directions, so work the harness committed itself
+ * still counts. Without a base, uncommitted changes are all there is to go on.
+ */
+async function checkReportedFiles(worktreePath: string, filesChanged: string[], base: string | undefined): Promise<VerifyCheckResult> {
+  let changed: Set<string>;
+  try {
+    changed = new Set(base ? await listChangedFiles(worktreePath, base) : parsePorcelainPaths(await gitStatus(worktreePath)));
+  } catch (error) {
+    return { name: 'files', ok: false, output: `git ${base ? 'diff' : 'status'} failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const reported = new Set(filesChanged.map(file => relative(worktreePath, resolve(worktreePath, file))));
+  const unchanged = Array.from(reported).filter(file => !changed.has(file));
+  const unreported = Array.from(changed).filter(file => !reported.has(file));
+
+  const lines: string[] = [];
+  if (unchanged.length > 0) lines.push(`Reported but not changed: ${unchanged.join(', ')}`);
+  if (unreported.length > 0) lines.push(`Changed but not reported: ${unreported.join(', ')}`);
+  return {
+    name: 'files',
+    ok: lines.length === 0,
+    output: lines.length === 0 ? `${changed.size} changed file(s) match the report` : lines.join('\n'),
+  };
+}
+
+async function gitStatus(worktreePath: string): Promise<string> {
+  return (await runHarnessProcess('git', ['status', '--porcelain=v1', '-z', '--untracked-files=all'], {
+    cwd: worktreePath,
+    timeoutMs: 30_000,
+  })).stdout;
+}
+
+function parsePorcelainPaths(status: string): string[] {
+  const entries = status.split('\0').filter(Boolean);
+  const paths: string[] = [];
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]!;
+    paths.push(entry.slice(3));
+    // Renames and copies are followed by their original path.
+    if (entry[0] === 'R' || entry[0] === 'C') index++;
+  }
+  return paths;
+}
+
+function tail(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > MAX_CHECK_OUTPUT ? `…${trimmed.slice(-MAX_CHECK_OUTPUT)}` : trimmed;
+}
@@ -0,0 +1,88 @@
+import { isProcessAlive } from '../harnesses/process.js';
+import { isFinishedRunStatus } from './projection-store.js';
+import type { HarnessId, HarnessScore, OrchestrationRunRecord, RunStatus } from './types.js';
+
+export interface HarnessLoad {
+  /** Unfinished runs whose owning process is still alive. */
+  inFlight: number;
+  /** Statuses of finished, non-cancelled runs, newest first. */
+  recent: RunStatus[];
+}
+
+export type HarnessLoadMap = Record<string, HarnessLoad>;
+
+export interface ScoreOptions {
+  maxPerHarness?: Record<string, number> | undefined;
+  /** Finished runs per harness counted towards its success rate. */
+  window: number;
+}
+
+/**
+ * Builds the per-harness load that weighted rules score against from the run
+ * projection. Runs left unfinished by a process that has since exited are not
+ * counted as in flight, and cancelled or blocked runs say nothing about the
+ * harness so they are left out of the success history.
+ */
+export function summarizeHarnessLoad(
+  records: OrchestrationRunRecord[],
+  isOwnerAlive: (pid: number) => boolean = isProcessAlive,
+): HarnessLoadMap {
+  const load: HarnessLoadMap = {};
+  const entry = (harness: HarnessId): HarnessLoad => (load[harness] ??= { inFlight: 0, recent: [] });
+
+  const finished: OrchestrationRunRecord[] = [];
+  for (const record of records) {
+    if (isFinishedRunStatus(record.status)) {
+      if (record.status !== 'cancelled' && record.status !== 'blocked') finished.push(record);
+    } else if (record.ownerPid === undefined || isOwnerAlive(record.ownerPid)) {
+      entry(record.harness).inFlight++;
+    }
+  }
+
+  finished
+    .sort((a, b) => (b.endedAt ?? b.startedAt).localeCompare(a.endedAt ?? a.startedAt))
+    .forEach(record => entry(record.harness).recent.push(record.status));
+  return load;
+}
+
+/**
+ * Ranks candidates by smoothed success rate times free capacity. A harness
+ * at its `max_per_harness` limit scores 0; one without a limit loses capacity
+ * as 1 / (1 + in-flight runs). Ties keep the configured candidate order.
+ */
+export function scoreHarnesses(candidates: HarnessId[], load: HarnessLoadMap, options: ScoreOptions): HarnessScore[] {
+  return candidates
+    .map(harness => {
+      const entry = load[harness] ?? { inFlight: 0, recent: [] };
+      const window = entry.recent.slice(0, options.window);
+      const completed = window.filter(status => status === 'completed').length;
+      const successRate = (completed + 1) / (window.length + 2);
+      const maxConcurrency = options.maxPerHarness?.[harness];
+      const capacity = maxConcurrency === undefined
+        ? 1 / (1 + entry.inFlight)
+        : Math.max(0, maxConcurrency - entry.inFlight) / maxConcurrency;
+
+      const score: HarnessScore = {
+        harness,
+        score: successRate * capacity,
+        completed,
+        finished: window.length,
+        successRate,
+        inFlight: entry.inFlight,
+      };
+      if (maxConcurrency !== undefined) score.maxConcurrency = maxConcurrency;
+      return score;
+    })
+    .sort((a, b) => b.score - a.score || b.successRate - a.successRate || a.inFlight - b.inFlight);
+}
+
+export function describeScores(scores: HarnessScore[]): string {
+  return scores
+    .map(entry => {
+      const inFlight = entry.maxConcurrency === undefined
+        ? `${entry.inFlight} in flight`
+        : `${entry.inFlight}/${entry.maxConcurrency} in flight`;
+      return `${entry.harness} ${entry.score.toFixed(2)} (${entry.completed}/${entry.finished} completed, ${inFlight})`;
+    })
+    .join(', ');
+}
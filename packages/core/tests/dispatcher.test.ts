@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Orchestrator, TaskDispatcher, type RoutingConfigShape } from '../src/index.js';
+
+const UI_RULES = [{ id: 'ui-opencode', when: { labels: ['ui'] }, select: { harness: 'opencode' } }];
+
+function createFixture(
+  taskIds: Array<{ id: string; labels: string[] }>,
+  rules: RoutingConfigShape['rules'] = UI_RULES,
+  failing: Set<string> = new Set(),
+  failPollAfter = Infinity,
+) {
+  const root = mkdtempSync(join(tmpdir(), 'fleet-dispatcher-'));
+  const finished = new Set<string>();
+  const inFlight = new Map<string, number>();
+  const peaks = { total: 0, perHarness: new Map<string, number>() };
+  let running = 0;
+  let polls = 0;
+
+  const solo = {
+    async listAvailableTasks(limit = 20) {
+      if (++polls > failPollAfter) throw new Error('Solo is unavailable');
+      return taskIds
+        .filter(task => !finished.has(task.id))
+        .slice(0, limit)
+        .map(task => ({ taskId: task.id, title: task.id, labels: task.labels, affectedFiles: [] }));
+    },
+    async showTask(taskId: string) {
+      const task = taskIds.find(entry => entry.id === taskId)!;
+      return { title: taskId, labels: task.labels, affected_files: [] };
+    },
+    async startSession(taskId: string) {
+      const worktreePath = join(root, '.solo', 'worktrees', taskId);
+      mkdirSync(worktreePath, { recursive: true });
+      return { taskId, sessionId: `S-${taskId}`, reservationId: `R-${taskId}`, worktreePath, contextBundle: {} };
+    },
+    async endSession(taskId: string) {
+      // Failed tasks go back to the backlog, as Solo does.
+      if (!failing.has(taskId)) finished.add(taskId);
+      return {};
+    },
+    async createHandoff() {
+      return {};
+    },
+  };
+
+  const adapterFor = (harness: string) => ({
+    id: harness,
+    async probeAvailability() {
+      return { harness, status: 'available' as const };
+    },
+    async run(request: { task: { taskId: string } }) {
+      if (failing.has(request.task.taskId)) {
+        return { status: 'failed' as const, summary: 'broke', filesChanged: [], error: 'broke' };
+      }
+      running++;
+      inFlight.set(harness, (inFlight.get(harness) ?? 0) + 1);
+      peaks.total = Math.max(peaks.total, running);
+      peaks.perHarness.set(harness, Math.max(peaks.perHarness.get(harness) ?? 0, inFlight.get(harness)!));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+      inFlight.set(harness, inFlight.get(harness)! - 1);
+      return { status: 'completed' as const, summary: 'done', filesChanged: [] };
+    },
+  });
+
+  const registry = {
+    getAdapter(id: string) {
+      return adapterFor(id);
+    },
+  };
+
+  const routingConfig = {
+    defaults: { harness: 'claude-code', timeout_ms: 1000 },
+    rules,
+  };
+
+  const orchestrator = new Orchestrator({
+    solo: solo as any,
+    routingConfig,
+    projectRoot: root,
+    registry: registry as any,
+  });
+
+  return { root, peaks, dispatcher: new TaskDispatcher({ orchestrator, solo: solo as any, routingConfig }) };
+}
+
+describe('TaskDispatcher', () => {
+  it('drains the backlog within the global and per-harness caps', async () => {
+    const { root, peaks, dispatcher } = createFixture([
+      { id: 'T-1', labels: [] },
+      { id: 'T-2', labels: ['ui'] },
+      { id: 'T-3', labels: [] },
+      { id: 'T-4', labels: ['ui'] },
+      { id: 'T-5', labels: [] },
+    ]);
+
+    const summary = await dispatcher.dispatch({ concurrency: 3, maxPerHarness: { 'claude-code': 1 } });
+
+    expect(summary.stoppedBy).toBe('drained');
+    expect(summary.dispatched).toBe(5);
+    expect(summary.byStatus.completed).toBe(5);
+    expect(summary.byHarness).toEqual({ 'claude-code': 3, opencode: 2 });
+    expect(peaks.total).toBeLessThanOrEqual(3);
+    expect(peaks.perHarness.get('claude-code')).toBe(1);
+
+    const projection = readFileSync(join(root, '.fleet', 'orchestration', 'runs.jsonl'), 'utf-8');
+    expect(projection.split('\n').filter(line => line.includes('"status":"completed"'))).toHaveLength(5);
+  });
+
+  it('spreads a batch across weighted candidates as runs are launched', async () => {
+    const { dispatcher } = createFixture([
+      { id: 'T-1', labels: ['bulk'] },
+      { id: 'T-2', labels: ['bulk'] },
+    ], [{
+      id: 'bulk',
+      when: { labels: ['bulk'] },
+      select: { harness: 'opencode', strategy: 'weighted', candidates: ['opencode', 'codex'] },
+    }]);
+
+    const summary = await dispatcher.dispatch({ concurrency: 2 });
+
+    expect(summary.byHarness).toEqual({ opencode: 1, codex: 1 });
+    expect(summary.runs.map(run => run.ruleId)).toEqual(['bulk', 'bulk']);
+  });
+
+  it('stops launching new runs once the signal aborts', async () => {
+    const { dispatcher } = createFixture([
+      { id: 'T-1', labels: [] },
+      { id: 'T-2', labels: [] },
+      { id: 'T-3', labels: [] },
+    ]);
+    const controller = new AbortController();
+
+    const summary = await dispatcher.dispatch({
+      concurrency: 1,
+      signal: controller.signal,
+      onRunStarted: () => controller.abort(),
+    });
+
+    expect(summary.stoppedBy).toBe('signal');
+    expect(summary.dispatched).toBe(1);
+    expect(summary.runs).toHaveLength(1);
+  });
+
+  it('cancels the runs in flight once the cancel signal aborts', async () => {
+    const { dispatcher } = createFixture([
+      { id: 'T-1', labels: [] },
+      { id: 'T-2', labels: [] },
+    ]);
+    const controller = new AbortController();
+
+    const summary = await dispatcher.dispatch({
+      concurrency: 1,
+      cancelSignal: controller.signal,
+      onRunStarted: () => controller.abort(),
+    });
+
+    expect(summary.stoppedBy).toBe('signal');
+    expect(summary.dispatched).toBe(1);
+    expect(summary.byStatus).toEqual({ cancelled: 1 });
+  });
+
+  it('finishes the runs in flight and reports the error when polling Solo fails', async () => {
+    const { dispatcher } = createFixture([
+      { id: 'T-1', labels: [] },
+      { id: 'T-2', labels: [] },
+      { id: 'T-3', labels: [] },
+    ], [], new Set(), 1);
+
+    const summary = await dispatcher.dispatch({ concurrency: 2 });
+
+    expect(summary.stoppedBy).toBe('error');
+    expect(summary.dispatched).toBe(2);
+    expect(summary.byStatus).toEqual({ completed: 2 });
+    expect(summary.errors).toEqual([{ error: 'Polling Solo failed: Solo is unavailable' }]);
+  });
+
+  it('looks past tasks it already tried that Solo still lists as available', async () => {
+    const { dispatcher } = createFixture([
+      { id: 'T-1', labels: [] },
+      { id: 'T-2', labels: [] },
+      { id: 'T-3', labels: [] },
+      { id: 'T-4', labels: [] },
+    ], [], new Set(['T-1', 'T-2', 'T-3']));
+
+    const summary = await dispatcher.dispatch({ concurrency: 1, pollLimit: 2 });
+
+    expect(summary.stoppedBy).toBe('drained');
+    expect(summary.dispatched).toBe(4);
+    expect(summary.byStatus).toEqual({ failed: 3, completed: 1 });
+  });
+});
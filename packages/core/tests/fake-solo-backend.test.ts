@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  GenericCliHarnessAdapter,
+  HarnessRegistry,
+  Orchestrator,
+  SoloAdapter,
+} from '../src/index.js';
+
+describe('FakeSoloBackend', () => {
+  it('tracks tasks, reservations and handoffs in its store', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-fake-solo-'));
+    const solo = new SoloAdapter({ cwd: root, backend: 'fake', retries: 1 });
+
+    const schema = await solo.createTask({ title: 'Add schema', priority: 'high', affectedFiles: ['src/schema.ts'] });
+    const api = await solo.createTask({ title: 'Add API', deps: [schema.id] });
+    expect((await solo.listAvailableTasks()).map(task => task.taskId)).toEqual([schema.id]);
+
+    const session = await solo.startSession(schema.id, 'codex');
+    expect(session.worktreePath).toBe(join('.fleet', 'solo-fake', 'worktrees', schema.id));
+    expect(existsSync(join(root, session.worktreePath))).toBe(true);
+    expect(await solo.listAvailableTasks()).toEqual([]);
+    await expect(solo.startSession(schema.id, 'opencode')).rejects.toMatchObject({ code: 'RESERVATION_CONFLICT' });
+
+    await solo.createHandoff(schema.id, { summary: 'Schema drafted', remainingWork: 'Add indexes', to: 'claude-code' });
+    const resumed = await solo.startSession(schema.id, 'claude-code');
+    expect(resumed.contextBundle.handoffs).toMatchObject([{ from: 'codex', to: 'claude-code', remaining_work: 'Add indexes' }]);
+    const renewed = await solo.renewReservation(schema.id, resumed.reservationToken);
+    expect(Date.parse(renewed.expiresAt!)).toBeGreaterThanOrEqual(Date.parse(resumed.expiresAt!));
+    await expect(solo.renewReservation(schema.id, 'stolen')).rejects.toMatchObject({ code: 'RESERVATION_TOKEN_MISMATCH' });
+    await solo.endSession(schema.id, 'completed', { files: ['src/schema.ts'] });
+    await expect(solo.renewReservation(schema.id)).rejects.toMatchObject({ code: 'RESERVATION_NOT_FOUND' });
+
+    expect(await solo.showTask(schema.id)).toMatchObject({ status: 'done', affected_files: ['src/schema.ts'] });
+    expect(await solo.showTask(api.id)).toMatchObject({ dependencies: [{ id: schema.id, title: 'Add schema', status: 'done' }] });
+    expect((await solo.listAvailableTasks()).map(task => task.taskId)).toEqual([api.id]);
+    await expect(solo.showTask('T-404')).rejects.toMatchObject({ code: 'TASK_NOT_FOUND' });
+
+    const store = JSON.parse(readFileSync(join(root, '.fleet', 'solo-fake', 'store.json'), 'utf-8'));
+    expect(store.sessions.map((entry: { worker: string; result: string }) => [entry.worker, entry.result]))
+      .toEqual([['codex', 'handoff'], ['claude-code', 'completed']]);
+  });
+
+  it('runs a task end to end in a git worktree of the project', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-fake-solo-run-'));
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Fleet', '-c', 'user.email=fleet@example.com', ...args], { cwd: root });
+    git('init', '-q');
+    writeFileSync(join(root, '.gitignore'), '.fleet/\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial');
+
+    const solo = new SoloAdapter({ cwd: root, backend: 'fake', retries: 1 });
+    const task = await solo.createTask({ title: 'Write notes', affectedFiles: ['notes.md'] });
+    const template = "printf 'notes\\n' > notes.md; printf '{\"status\":\"completed\",\"summary\":\"Wrote notes\",\"filesChanged\":[\"notes.md\"]}'";
+    const record = await new Orchestrator({
+      solo,
+      routingConfig: { defaults: { harness: 'scripted', timeout_ms: 5000 }, rules: [] },
+      projectRoot: root,
+      registry: new HarnessRegistry([new GenericCliHarnessAdapter('scripted', 'true', [], template)]),
+    }).runTask(task.id);
+
+    expect(record.status).toBe('completed');
+    expect(record.worktreePath).toBe(join(root, '.fleet', 'solo-fake', 'worktrees', task.id));
+    expect(readFileSync(join(record.worktreePath!, 'notes.md'), 'utf-8')).toBe('notes\n');
+    expect(record.scope).toMatchObject({ ok: true, changed: ['notes.md'], unreported: [] });
+    expect(execFileSync('git', ['branch', '--show-current'], { cwd: record.worktreePath!, encoding: 'utf-8' }).trim())
+      .toBe(`solo/${task.id}`);
+    expect(await solo.showTask(task.id)).toMatchObject({ status: 'done' });
+  });
+});
@@ -1,8 +1,32 @@
 import { describe, expect, it } from 'bun:test';
-import { mkdtempSync } from 'node:fs';
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { GenericCliHarnessAdapter, ProjectionStore } from '../src/index.js';
+import {
+  GenericCliHarnessAdapter,
+  buildCodexPrompt,
+  buildOpenCodePrompt,
+  claudePolicyArgs,
+  claudeResultSchema,
+  codexPolicyArgs,
+  openCodePolicyConfig,
+  resolveHarnessPolicy,
+  HarnessProcessError,
+  ProjectionStore,
+  RunFilterError,
+  createHarnessRegistry,
+  expandRunTemplate,
+  extractResultJson,
+  followRunLog,
+  parseClaudeStreamEvent,
+  parseClaudeUsage,
+  parseCodexUsage,
+  parseOpenCodeUsage,
+  prepareRunLog,
+  runHarnessProcess,
+  validateHarnessResult,
+  type RunStatus,
+} from '../src/index.js';
 
 describe('GenericCliHarnessAdapter', () => {
   it('reports successful execution for configured templates', async () => {
@@ -32,6 +56,124 @@ describe('GenericCliHarnessAdapter', () => {
   });
 });
 
+describe('harness result validation', () => {
+  it('extracts the result from plain, fenced and trailing JSON', () => {
+    const result = { status: 'completed', summary: 'ok', filesChanged: [] };
+    const json = JSON.stringify(result);
+
+    expect(extractResultJson(json)).toEqual(result);
+    expect(extractResultJson(`Done. Result:\n\`\`\`json\n${json}\n\`\`\`\nThanks!`)).toEqual(result);
+    expect(extractResultJson(`I changed {two} files.\n${JSON.stringify({ ...result, summary: 'kept {braces}' })}`))
+      .toEqual({ ...result, summary: 'kept {braces}' });
+    expect(extractResultJson('No JSON here')).toBeUndefined();
+  });
+
+  it('rejects unknown statuses and workers with the offending fields', () => {
+    const validation = validateHarnessResult(
+      { status: 'done', summary: 'ok', nextWorker: 'gpt-agent', remainingWork: null },
+      { harnesses: ['claude-code', 'codex'] },
+    );
+
+    expect(validation).toEqual({
+      ok: false,
+      errors: [
+        "status: Invalid enum value. Expected 'completed' | 'failed' | 'handoff', received 'done'",
+        "nextWorker: Invalid enum value. Expected 'claude-code' | 'codex', received 'gpt-agent'",
+      ],
+    });
+    expect(validateHarnessResult({ status: 'handoff', summary: 'half', nextWorker: 'codex', error: null }, {
+      harnesses: ['claude-code', 'codex'],
+    })).toEqual({ ok: true, payload: { status: 'handoff', summary: 'half', nextWorker: 'codex', filesChanged: [] } });
+  });
+
+  it('offers the run\'s harnesses as nextWorker in schemas and prompts', () => {
+    const harnesses = ['claude-code', 'reviewer'];
+
+    expect(claudeResultSchema(harnesses)).toMatchObject({
+      properties: { nextWorker: { type: 'string', enum: ['claude-code', 'reviewer'] } },
+    });
+    expect(claudeResultSchema()).toMatchObject({ properties: { nextWorker: { type: 'string' } } });
+    expect(buildCodexPrompt({ prompt: 'Do it', harnesses }))
+      .toContain('- nextWorker: (optional) "claude-code", "reviewer"');
+    expect(buildOpenCodePrompt({ prompt: 'Do it', harnesses }))
+      .toContain('- nextWorker: (optional) "claude-code", "reviewer"');
+    expect(buildOpenCodePrompt({ prompt: 'Do it' })).toContain('- nextWorker: (optional) a harness id');
+  });
+});
+
+describe('harness sandbox policy', () => {
+  it('keeps the previous flags under the default policy', () => {
+    const policy = resolveHarnessPolicy();
+
+    expect(claudePolicyArgs(policy, '/wt')).toEqual([
+      '--allowedTools', 'Read,Edit,Write,Bash,Glob,Grep',
+      '--disallowedTools', 'WebFetch,WebSearch',
+      '--add-dir', '/wt',
+    ]);
+    expect(codexPolicyArgs(policy)).toEqual(['--full-auto', '--sandbox', 'workspace-write']);
+    expect(codexPolicyArgs(resolveHarnessPolicy({ network: true }))).toEqual([
+      '--full-auto', '--sandbox', 'workspace-write', '-c', 'sandbox_workspace_write.network_access=true',
+    ]);
+  });
+
+  it('translates tools, bash patterns and readable dirs for each harness', () => {
+    const policy = resolveHarnessPolicy({
+      tools: ['read', 'grep', 'bash', 'web_fetch'],
+      bash: { allow: ['npm test', 'git *'], deny: ['git push *'] },
+      read_dirs: ['/opt/docs'],
+    });
+
+    expect(policy.tools).toEqual(['read', 'grep', 'bash']);
+    expect(claudePolicyArgs(policy, '/wt')).toEqual([
+      '--allowedTools', 'Read,Grep,Bash(npm test),Bash(git:*)',
+      '--disallowedTools', 'Edit,Write,Glob,WebFetch,WebSearch,Bash(git push:*)',
+      '--add-dir', '/wt',
+      '--add-dir', '/opt/docs',
+    ]);
+    expect(codexPolicyArgs(policy)).toEqual(['--sandbox', 'read-only']);
+    expect(openCodePolicyConfig(policy)).toEqual({
+      tools: { read: true, edit: false, write: false, bash: true, glob: false, grep: true, webfetch: false },
+      permission: {
+        edit: 'deny',
+        bash: { '*': 'deny', 'npm test': 'allow', 'git *': 'allow', 'git push *': 'deny' },
+        webfetch: 'deny',
+      },
+    });
+  });
+});
+
+describe('expandRunTemplate', () => {
+  it('substitutes placeholders as single-quoted shell words', () => {
+    const expanded = expandRunTemplate('aider --yes --message {prompt} --task {taskId}', {
+      harness: 'aider',
+      worktreePath: '/tmp/wt',
+      task: { taskId: 'T-1', title: 'Test task', labels: [], affectedFiles: [] },
+      sessionId: 'S-1',
+      prompt: "don't $(rm -rf /)",
+      timeoutMs: 1000,
+    });
+
+    expect(expanded).toBe("aider --yes --message 'don'\\''t $(rm -rf /)' --task 'T-1'");
+  });
+});
+
+describe('createHarnessRegistry', () => {
+  it('registers custom harnesses alongside the built-in adapters', () => {
+    const registry = createHarnessRegistry([
+      { id: 'aider', command: 'aider', run_template: 'aider --message {prompt}' },
+    ]);
+
+    expect(registry.listIds()).toEqual(['claude-code', 'opencode', 'codex', 'aider']);
+    expect(registry.getAdapter('aider')).toBeInstanceOf(GenericCliHarnessAdapter);
+  });
+
+  it('rejects custom harnesses that reuse a registered id', () => {
+    expect(() => createHarnessRegistry([
+      { id: 'codex', command: 'codex-wrapper', run_template: 'codex-wrapper {prompt}' },
+    ])).toThrow("Harness 'codex' is already registered");
+  });
+});
+
 describe('ProjectionStore', () => {
   it('appends and lists run projections', () => {
     const root = mkdtempSync(join(tmpdir(), 'fleet-projection-'));
@@ -51,4 +193,285 @@ describe('ProjectionStore', () => {
     expect(runs).toHaveLength(1);
     expect(runs[0]?.runId).toBe('R-1');
   });
+
+  function record(runId: string, status: 'claiming' | 'running' | 'completed' | 'failed', extra: Record<string, unknown> = {}) {
+    return {
+      runId,
+      taskId: `T-${runId}`,
+      harness: 'claude-code',
+      status,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      ruleId: 'defaults',
+      reason: 'test',
+      ...extra,
+    };
+  }
+
+  it('folds status transitions into one record per run', () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-projection-'));
+    const store = new ProjectionStore(root);
+
+    store.append(record('R-1', 'claiming'));
+    store.append(record('R-1', 'running', { sessionId: 'S-1', harnessPid: 42 }));
+    store.append(record('R-2', 'claiming', { harness: 'codex', startedAt: '2026-01-02T00:00:00.000Z' }));
+    store.append(record('R-1', 'completed', { sessionId: 'S-1', summary: 'done' }));
+
+    expect(store.list().map(run => [run.runId, run.status])).toEqual([['R-1', 'completed'], ['R-2', 'claiming']]);
+    expect(store.get('R-1')).toMatchObject({ status: 'completed', harnessPid: 42, summary: 'done' });
+    expect(new ProjectionStore(root).get('R-1')?.status).toBe('completed');
+  });
+
+  it('filters by task, harness, status and time range and pages newest first', () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-projection-'));
+    const store = new ProjectionStore(root);
+    for (let day = 1; day <= 5; day++) {
+      store.append(record(`R-${day}`, day % 2 === 0 ? 'failed' : 'completed', {
+        harness: day === 5 ? 'codex' : 'claude-code',
+        startedAt: `2026-01-0${day}T00:00:00.000Z`,
+      }));
+    }
+
+    expect(store.list({ taskId: 'T-R-3' }).map(run => run.runId)).toEqual(['R-3']);
+    expect(store.list({ harness: 'codex' }).map(run => run.runId)).toEqual(['R-5']);
+    expect(store.list({ status: 'failed' }).map(run => run.runId)).toEqual(['R-2', 'R-4']);
+    expect(store.list({ since: '2026-01-02T00:00:00.000Z', until: '2026-01-03T00:00:00.000Z' }).map(run => run.runId))
+      .toEqual(['R-2', 'R-3']);
+
+    const page = store.query({ limit: 2, offset: 1 });
+    expect(page.total).toBe(5);
+    expect(page.runs.map(run => run.runId)).toEqual(['R-4', 'R-3']);
+  });
+
+  it('rejects unknown statuses and times that do not parse', () => {
+    const store = new ProjectionStore(mkdtempSync(join(tmpdir(), 'fleet-projection-')));
+
+    expect(() => store.query({ status: ['failed', 'done' as RunStatus] })).toThrow(RunFilterError);
+    expect(() => store.query({ status: 'done' as RunStatus })).toThrow("Unknown run status 'done'");
+    expect(() => store.list({ since: 'yesterday' })).toThrow("since must be a date or ISO timestamp, got 'yesterday'");
+    expect(() => store.list({ until: '2026-13-45' })).toThrow(RunFilterError);
+  });
+
+  it('survives a partially written trailing line', () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-projection-'));
+    const store = new ProjectionStore(root);
+    const file = join(root, '.fleet', 'orchestration', 'runs.jsonl');
+
+    store.append(record('R-1', 'running'));
+    appendFileSync(file, '{"runId":"R-1","status":"comp');
+    expect(store.get('R-1')?.status).toBe('running');
+
+    store.append(record('R-2', 'completed'));
+    expect(store.list().map(run => [run.runId, run.status])).toEqual([['R-1', 'running'], ['R-2', 'completed']]);
+  });
+
+  it('compacts superseded lines and keeps the folded state', () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-projection-'));
+    const store = new ProjectionStore(root);
+    const file = join(root, '.fleet', 'orchestration', 'runs.jsonl');
+
+    store.append(record('R-1', 'claiming'));
+    store.append(record('R-1', 'running'));
+    store.append(record('R-1', 'completed'));
+    store.requestCancel('R-1');
+    store.compact();
+
+    expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(1);
+    expect(store.get('R-1')?.status).toBe('completed');
+    expect(store.isCancelRequested('R-1')).toBe(false);
+  });
+
+  it('leaves the log alone while another process holds the compaction lock', () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-projection-'));
+    const store = new ProjectionStore(root);
+    const file = join(root, '.fleet', 'orchestration', 'runs.jsonl');
+    store.append(record('R-1', 'running'));
+    store.append(record('R-1', 'completed'));
+
+    writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, at: Date.now() }));
+    store.compact();
+    expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(2);
+
+    // Appends go ahead without waiting for the compaction to finish.
+    const started = Date.now();
+    store.append(record('R-2', 'running'));
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(3);
+
+    // A lock left by a compaction that died is taken over.
+    writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, at: Date.now() - 60_000 }));
+    store.compact();
+    expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(2);
+    expect(existsSync(`${file}.lock`)).toBe(false);
+    expect(store.get('R-1')?.status).toBe('completed');
+  });
+});
+
+describe('runHarnessProcess', () => {
+  it('streams output to the log file and reports stdout lines as they arrive', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-process-'));
+    const logFile = prepareRunLog(root, 'R-1');
+    const lines: string[] = [];
+
+    const output = await runHarnessProcess('/bin/sh', ['-c', 'echo one; echo two >&2; printf three'], {
+      cwd: root,
+      timeoutMs: 5000,
+      logFile,
+      onStdoutLine: line => lines.push(line),
+    });
+
+    expect(output.stdout).toBe('one\nthree');
+    expect(output.stderr).toBe('two\n');
+    expect(lines).toEqual(['one', 'three']);
+    expect(readFileSync(logFile, 'utf-8')).toContain('two');
+  });
+
+  it('kills the process on timeout and marks the error as killed', async () => {
+    const error = await runHarnessProcess('/bin/sh', ['-c', 'echo started; sleep 5'], {
+      cwd: process.cwd(),
+      timeoutMs: 100,
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(HarnessProcessError);
+    expect(error.killed).toBe(true);
+    expect(error.stdout).toBe('started\n');
+  });
+
+  it('escalates to SIGKILL when a cancelled harness ignores SIGTERM', async () => {
+    const controller = new AbortController();
+    const running = runHarnessProcess('/bin/sh', ['-c', "trap '' TERM; echo ready; sleep 5"], {
+      cwd: process.cwd(),
+      timeoutMs: 10_000,
+      killGraceMs: 100,
+      signal: controller.signal,
+      onStdoutLine: () => controller.abort(),
+    }).catch(caught => caught);
+
+    const error = await running;
+    expect(error).toBeInstanceOf(HarnessProcessError);
+    expect(error.cancelled).toBe(true);
+    expect(error.signal).toBe('SIGKILL');
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    it(`stops the harness process group when fleet is killed by ${signal}`, async () => {
+      const script = [
+        `import { runHarnessProcess } from ${JSON.stringify(join(import.meta.dir, '..', 'src', 'harnesses', 'process.ts'))};`,
+        "runHarnessProcess('/bin/sh', ['-c', 'sleep 30 & wait'], { cwd: '/', timeoutMs: 60_000, onSpawn: pid => console.log(pid) }).catch(() => {});",
+      ].join('\n');
+      const fleet = Bun.spawn(['bun', '-e', script], { stdout: 'pipe', stderr: 'ignore' });
+      const reader = fleet.stdout.getReader();
+      const { value } = await reader.read();
+      const group = Number(new TextDecoder().decode(value).trim());
+
+      fleet.kill(signal);
+      await fleet.exited;
+
+      const deadline = Date.now() + 2000;
+      while (groupAlive(group) && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      expect(fleet.signalCode).toBe(signal);
+      expect(groupAlive(group)).toBe(false);
+    });
+  }
+});
+
+function groupAlive(pid: number): boolean {
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('parseClaudeStreamEvent', () => {
+  it('turns stream-json events into progress events', () => {
+    expect(parseClaudeStreamEvent('{"type":"system","subtype":"init","model":"sonnet"}'))
+      .toEqual([{ kind: 'init', text: 'Session started (sonnet)' }]);
+
+    expect(parseClaudeStreamEvent(JSON.stringify({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Reading the adapter first.' },
+          { type: 'tool_use', name: 'Read', input: { file_path: 'src/solo-adapter.ts' } },
+        ],
+      },
+    }))).toEqual([
+      { kind: 'message', text: 'Reading the adapter first.' },
+      { kind: 'tool_use', text: 'Read src/solo-adapter.ts' },
+    ]);
+
+    expect(parseClaudeStreamEvent('{"type":"result","subtype":"success","num_turns":4}'))
+      .toEqual([{ kind: 'result', text: 'Finished (success) after 4 turn(s)' }]);
+  });
+
+  it('ignores lines that are not events', () => {
+    expect(parseClaudeStreamEvent('not json')).toEqual([]);
+    expect(parseClaudeStreamEvent('{"type":"user","message":{"content":[]}}')).toEqual([]);
+  });
+});
+
+describe('harness usage parsing', () => {
+  it('reads Claude Code token counts and cost from the result event', () => {
+    expect(parseClaudeUsage({
+      type: 'result',
+      total_cost_usd: 0.42,
+      usage: { input_tokens: 100, cache_creation_input_tokens: 20, cache_read_input_tokens: 30, output_tokens: 50 },
+    })).toEqual({ inputTokens: 150, outputTokens: 50, totalTokens: 200, costUsd: 0.42 });
+    expect(parseClaudeUsage({ type: 'result' })).toBeUndefined();
+  });
+
+  it('reads the combined Codex token count', () => {
+    expect(parseCodexUsage('{"status":"completed"}\ntokens used: 12,345\n')).toEqual({ totalTokens: 12345 });
+    expect(parseCodexUsage('tokens used\n2,000')).toEqual({ totalTokens: 2000 });
+    expect(parseCodexUsage('no usage here')).toBeUndefined();
+  });
+
+  it('sums OpenCode step_finish events', () => {
+    const step = (input: number, output: number, cost: number) => JSON.stringify({
+      type: 'step_finish',
+      part: { type: 'step-finish', tokens: { input, output, reasoning: 5, cache: { read: 10, write: 0 } }, cost },
+    });
+    expect(parseOpenCodeUsage([
+      '{"type":"text","part":{"type":"text","text":"working"}}',
+      step(100, 20, 0.01),
+      step(200, 30, 0.02),
+    ].join('\n'))).toEqual({ inputTokens: 320, outputTokens: 60, totalTokens: 380, costUsd: 0.03 });
+    expect(parseOpenCodeUsage('{"status":"completed"}')).toBeUndefined();
+  });
+});
+
+describe('followRunLog', () => {
+  it('tails the log until the run finishes', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-run-log-'));
+    const store = new ProjectionStore(root);
+    const logFile = prepareRunLog(root, 'R-1');
+    const record = {
+      runId: 'R-1',
+      taskId: 'T-1',
+      harness: 'claude-code',
+      status: 'running' as const,
+      startedAt: new Date().toISOString(),
+      ruleId: 'defaults',
+      reason: 'test',
+      logFile,
+    };
+    store.append(record);
+
+    const chunks: string[] = [];
+    const following = followRunLog(root, 'R-1', { follow: true, pollIntervalMs: 10, onChunk: chunk => chunks.push(chunk) });
+
+    await runHarnessProcess('/bin/sh', ['-c', 'echo first; echo second'], { cwd: root, timeoutMs: 5000, logFile });
+    store.append({ ...record, status: 'completed' });
+    await following;
+
+    expect(chunks.join('')).toBe('first\nsecond\n');
+  });
+
+  it('rejects unknown runs', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-run-log-'));
+    await expect(followRunLog(root, 'missing', { onChunk: () => {} })).rejects.toThrow('Run not found: missing');
+  });
 });
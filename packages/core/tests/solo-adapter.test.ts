@@ -2,7 +2,16 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { SoloAdapter, SoloCommandError } from '../src/index.js';
+import {
+  SoloAdapter,
+  SoloBinaryMissingError,
+  SoloCommandError,
+  SoloConflictError,
+  SoloNotFoundError,
+  SoloUnavailableError,
+  SoloVersionMismatchError,
+  parseRetryHint,
+} from '../src/index.js';
 
 describe('SoloAdapter.createTask', () => {
   let tempDir: string;
@@ -82,3 +91,95 @@ describe('SoloAdapter.createTask', () => {
       .rejects.toMatchObject({ code: 'SOLO_MISSING_TASK' });
   });
 });
+
+describe('SoloAdapter failures', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `fleet-solo-failures-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+    await fs.mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Answers each call with the next response, repeating the last one; logs call times.
+  async function writeScriptedSolo(responses: unknown[]): Promise<{ soloBin: string; calls: () => Promise<number[]> }> {
+    const soloBin = join(tempDir, 'solo');
+    const callsFile = join(tempDir, 'calls.log');
+    await fs.writeFile(soloBin, [
+      '#!/usr/bin/env bun',
+      "import { appendFileSync, existsSync, readFileSync } from 'node:fs';",
+      `const responses = ${JSON.stringify(responses)};`,
+      `const calls = existsSync(${JSON.stringify(callsFile)}) ? readFileSync(${JSON.stringify(callsFile)}, 'utf8').split('\\n').filter(Boolean).length : 0;`,
+      `appendFileSync(${JSON.stringify(callsFile)}, Date.now() + '\\n');`,
+      'const response = responses[Math.min(calls, responses.length - 1)];',
+      'console.log(JSON.stringify(response));',
+      'process.exit(response.ok ? 0 : 1);',
+    ].join('\n'));
+    await fs.chmod(soloBin, 0o755);
+    return {
+      soloBin,
+      calls: async () => (await fs.readFile(callsFile, 'utf8')).split('\n').filter(Boolean).map(Number),
+    };
+  }
+
+  const failure = (code: string, extra: Record<string, unknown> = {}) => ({ ok: false, error: { code, message: `${code} happened`, ...extra } });
+
+  it('maps Solo error codes to typed errors', async () => {
+    const cases: Array<[string, unknown]> = [
+      ['TASK_NOT_FOUND', SoloNotFoundError],
+      ['RESERVATION_CONFLICT', SoloConflictError],
+      ['VERSION_MISMATCH', SoloVersionMismatchError],
+      ['PERMISSION_DENIED', SoloCommandError],
+    ];
+    for (const [code, type] of cases) {
+      const { soloBin } = await writeScriptedSolo([failure(code)]);
+      await fs.rm(join(tempDir, 'calls.log'), { force: true });
+      const error = await new SoloAdapter({ binaryPath: soloBin, cwd: tempDir, retries: 1 }).showTask('T-1').catch(caught => caught);
+      expect(error).toBeInstanceOf(type as typeof SoloCommandError);
+      expect(error).toMatchObject({ code, message: `${code} happened` });
+    }
+
+    const missing = await new SoloAdapter({ binaryPath: join(tempDir, 'no-solo'), cwd: tempDir, retries: 1 }).showTask('T-1').catch(caught => caught);
+    expect(missing).toBeInstanceOf(SoloBinaryMissingError);
+    expect(missing.code).toBe('SOLO_BINARY_MISSING');
+  });
+
+  it('backs off between retries and waits as long as retry_hint asks', async () => {
+    const { soloBin, calls } = await writeScriptedSolo([
+      failure('SQLITE_BUSY'),
+      failure('SQLITE_BUSY', { retry_hint: 'retry after 0.4s' }),
+      { ok: true, data: { task: { id: 'T-1', title: 'Busy task' } } },
+    ]);
+
+    const task = await new SoloAdapter({ binaryPath: soloBin, cwd: tempDir, retries: 3, retryDelayMs: 10 }).showTask('T-1');
+
+    expect(task.title).toBe('Busy task');
+    const times = await calls();
+    expect(times).toHaveLength(3);
+    expect(times[2]! - times[1]!).toBeGreaterThanOrEqual(400);
+    expect(parseRetryHint('250ms')).toBe(250);
+    expect(parseRetryHint('1m')).toBe(60_000);
+    expect(parseRetryHint('1500')).toBe(1500);
+    expect(parseRetryHint('later')).toBeUndefined();
+  });
+
+  it('opens the circuit after repeated outages and lets a trial through after the reset', async () => {
+    const binaryPath = join(tempDir, 'solo');
+    const adapter = () => new SoloAdapter({ binaryPath, cwd: tempDir, retries: 1, circuitBreaker: { failureThreshold: 2, resetAfterMs: 200 } });
+
+    await expect(adapter().showTask('T-1')).rejects.toBeInstanceOf(SoloBinaryMissingError);
+    await expect(adapter().showTask('T-1')).rejects.toBeInstanceOf(SoloBinaryMissingError);
+    const open = await adapter().showTask('T-1').catch(caught => caught);
+    expect(open).toBeInstanceOf(SoloUnavailableError);
+    expect(open.message).toBe(`Solo is unavailable after 2 consecutive failures (last: Solo binary not found: ${binaryPath})`);
+    expect(await adapter().checkHealth()).toMatchObject({ ok: false, code: 'SOLO_UNAVAILABLE', circuit: { status: 'open', consecutiveFailures: 2 } });
+
+    await writeScriptedSolo([{ ok: true, data: { tasks: [] } }]);
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect(adapter().circuitState()?.status).toBe('half_open');
+    expect(await adapter().checkHealth()).toEqual({ ok: true, backend: 'cli', circuit: { status: 'closed', consecutiveFailures: 0 } });
+  });
+});
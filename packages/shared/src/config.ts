@@ -59,8 +59,23 @@ export interface FleetProjectConfig {
     claudeCode: boolean;
     openCode: boolean;
   };
+  solo?: FleetSoloConfig;
 }
 
+export type FleetSoloBackend = 'cli' | 'fake';
+
+/**
+ * Where Solo commands go: `cli` runs the `solo` binary, `fake` answers them
+ * from a local JSON store for offline development and CI.
+ */
+export interface FleetSoloConfig {
+  backend?: FleetSoloBackend;
+  /** Store of the `fake` backend, relative to the project root. */
+  store?: string;
+}
+
+export const SOLO_BACKENDS: FleetSoloBackend[] = ['cli', 'fake'];
+
 /**
  * Get the default global configuration
  */
@@ -283,6 +298,25 @@ export function getProjectConfig(startDir?: string): FleetProjectConfig {
   }
 }
 
+/**
+ * Solo adapter options for a project, from the `solo` section of fleet.yaml.
+ * `FLEET_SOLO_BACKEND` overrides the configured backend, e.g. in CI.
+ */
+export function getSoloAdapterOptions(projectRoot: string): { backend?: FleetSoloBackend; fakeStorePath?: string } {
+  const solo = getProjectConfig(projectRoot).solo ?? {};
+  const backend = process.env.FLEET_SOLO_BACKEND || solo.backend;
+  if (backend === undefined) {
+    return {};
+  }
+  if (!(SOLO_BACKENDS as string[]).includes(backend)) {
+    throw new Error(`Solo backend must be one of ${SOLO_BACKENDS.join(', ')}, got '${backend}'`);
+  }
+  return {
+    backend: backend as FleetSoloBackend,
+    ...(solo.store ? { fakeStorePath: solo.store } : {}),
+  };
+}
+
 /**
  * Ensure all required directories exist
  */
@@ -8,6 +8,9 @@ export * from './runtime.js';
 export * from './config.js';
 export * from './project.js';
 export * from './orchestration-config.js';
+export * from './routing-schema.js';
+export * from './routing-migrations.js';
+export * from './routing-config-watcher.js';
 export * from './utils.js';
 export { 
   type ServiceState,
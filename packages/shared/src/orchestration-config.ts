@@ -1,50 +1,264 @@
 import { readFileSync } from 'node:fs';
-import { parse as parseYaml } from 'yaml';
+import { BUILTIN_HARNESS_IDS, type BuiltinHarnessId, type HarnessId } from '@fleettools/core';
+import { isMap, isScalar, isSeq, LineCounter, parseDocument, type Document } from 'yaml';
+import { getCurrentRoutingConfigVersion, migrateRoutingConfig } from './routing-migrations.js';
+import { ROUTING_CONFIG_SCHEMA, validateAgainstSchema } from './routing-schema.js';
 import { findUp } from './utils.js';
 
-export type HarnessId = 'claude-code' | 'opencode' | 'codex';
+export type { BuiltinHarnessId, HarnessId };
 
+export interface FleetHarnessDefinition {
+  id: string;
+  command: string;
+  version_args?: string[];
+  run_template: string;
+}
+
+/** Numeric bounds; every bound present must hold. */
+export interface FleetNumericRange {
+  eq?: number;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Every field present must match. `all`, `any` and `not` nest further
+ * conditions, so rules can express OR and negation.
+ */
 export interface FleetRoutingRuleCondition {
   task_id?: string | string[];
   task_type?: string | string[];
+  /** Task has every one of these labels. */
   labels?: string[];
+  /** Task has at least one of these labels. */
+  any_labels?: string[];
   priority?: string | string[];
+  priority_value?: FleetNumericRange;
   title_regex?: string;
+  description_regex?: string;
   affected_files_glob?: string[];
+  affected_files_count?: FleetNumericRange;
+  all?: FleetRoutingRuleCondition[];
+  any?: FleetRoutingRuleCondition[];
+  not?: FleetRoutingRuleCondition;
+}
+
+export type FleetFallbackTrigger = 'timeout' | 'invalid_json' | 'empty_output' | 'error';
+
+/**
+ * Checks run in the worktree after a harness reports `completed`. A failing
+ * check downgrades the run to `failed`.
+ */
+export interface FleetVerifyGateConfig {
+  enabled: boolean;
+  tests?: {
+    command: string;
+    timeout_seconds: number;
+  };
+  /** Acceptance commands; each must exit 0. */
+  commands: string[];
+  command_timeout_seconds: number;
+  /** Compare the harness's reported filesChanged with `git status` in the worktree. */
+  check_files: boolean;
+}
+
+/**
+ * Re-runs a failed attempt on the same harness in a new Solo session before
+ * any fallback is tried. `max_attempts` counts the first attempt.
+ */
+export interface FleetRetryPolicy {
+  max_attempts: number;
+  /** Delay before the second attempt; multiplied by `backoff_multiplier` for each later one. */
+  backoff_ms: number;
+  backoff_multiplier: number;
+  max_backoff_ms: number;
+  retry_on: FleetFallbackTrigger[];
+}
+
+/**
+ * `static` always selects `harness`. `weighted` scores each of `candidates`
+ * on recent success rate and free concurrency and selects the best one.
+ */
+export type FleetRoutingStrategy = 'static' | 'weighted';
+
+/**
+ * What happens when task text matches a prompt-injection pattern: `flag`
+ * only records it, `block` refuses the task, and `require_approval` refuses
+ * it unless the run is explicitly approved.
+ */
+export type FleetInjectionPolicy = 'flag' | 'block' | 'require_approval';
+
+/**
+ * What happens when a run changes files outside the task's affected files:
+ * `flag` records it, `fail` fails the run.
+ */
+export type FleetScopeViolationPolicy = 'flag' | 'fail';
+
+export type FleetHarnessTool = 'read' | 'edit' | 'write' | 'bash' | 'glob' | 'grep' | 'web_fetch' | 'web_search';
+
+/**
+ * What a harness may do, in harness-neutral terms; each adapter translates it
+ * into its own flags. Unset fields keep the harness defaults.
+ */
+export interface FleetHarnessPolicy {
+  tools?: FleetHarnessTool[];
+  /** Command patterns: a command, or a prefix followed by ` *`. */
+  bash?: { allow?: string[]; deny?: string[] };
+  network?: boolean;
+  /** Directories outside the worktree the harness may read, relative to the project root. */
+  read_dirs?: string[];
 }
 
 export interface FleetRoutingRule {
   id: string;
   when: FleetRoutingRuleCondition;
   select: {
+    /** For `weighted` rules, the first candidate unless set explicitly. */
     harness: HarnessId;
+    strategy?: FleetRoutingStrategy;
+    candidates?: HarnessId[];
+    /** Finished runs per candidate counted towards its success rate. */
+    success_window?: number;
     timeout_ms?: number;
+    fallback?: HarnessId[];
+    fallback_on?: FleetFallbackTrigger[];
+    verify?: FleetVerifyGateConfig;
+    retry?: FleetRetryPolicy;
+    on_injection?: FleetInjectionPolicy;
+    /** Re-prompt once for the structured result when a harness returns an invalid one. */
+    repair_output?: boolean;
+    policy?: FleetHarnessPolicy;
+    on_scope_violation?: FleetScopeViolationPolicy;
   };
 }
 
+export interface FleetDispatchConfig {
+  concurrency: number;
+  max_per_harness: Record<string, number>;
+}
+
+export interface FleetHandoffConfig {
+  chain: boolean;
+  max_hops: number;
+}
+
+/** What is assembled into a harness prompt besides the task itself. */
+export interface FleetContextConfig {
+  budget_tokens: number;
+  files: boolean;
+  dependencies: boolean;
+  tech_orders: boolean;
+}
+
 export interface FleetRoutingConfig {
   version: number;
   defaults: {
     harness: HarnessId;
     timeout_ms: number;
+    fallback?: HarnessId[];
+    fallback_on?: FleetFallbackTrigger[];
+    verify?: FleetVerifyGateConfig;
+    retry?: FleetRetryPolicy;
+    on_injection?: FleetInjectionPolicy;
+    repair_output?: boolean;
+    policy?: FleetHarnessPolicy;
+    on_scope_violation?: FleetScopeViolationPolicy;
   };
   rules: FleetRoutingRule[];
+  harnesses: FleetHarnessDefinition[];
+  handoff: FleetHandoffConfig;
+  dispatch: FleetDispatchConfig;
+  context: FleetContextConfig;
   filePath?: string;
 }
 
-const VALID_HARNESSES: HarnessId[] = ['claude-code', 'opencode', 'codex'];
+/** One problem in a routing file, positioned in the YAML source when it can be. */
+export interface RoutingConfigIssue {
+  /** Config path such as `rules[0].select.harness`; absent for YAML syntax errors. */
+  path?: string;
+  message: string;
+  /** 1-based. */
+  line?: number;
+  column?: number;
+}
+
+export interface RoutingConfigInspection {
+  /** Set only when there are no issues. */
+  config?: FleetRoutingConfig;
+  issues: RoutingConfigIssue[];
+  /** Version the file was written in, when it parsed far enough to tell. */
+  fromVersion?: number;
+  /** Descriptions of the migrations applied to reach the current version. */
+  migrations: string[];
+}
+
+export class RoutingConfigError extends Error {
+  readonly issues: RoutingConfigIssue[];
+  readonly filePath: string | undefined;
+
+  constructor(issues: RoutingConfigIssue[], filePath?: string) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`${first ? formatRoutingConfigIssue(first, filePath) : 'Invalid routing config'}${more}`);
+    this.name = 'RoutingConfigError';
+    this.issues = issues;
+    this.filePath = filePath;
+  }
+}
+
+/** The harnesses core ships adapters for; custom harnesses may not reuse their ids. */
+export const BUILTIN_HARNESSES: readonly BuiltinHarnessId[] = BUILTIN_HARNESS_IDS;
+
+export const FALLBACK_TRIGGERS: FleetFallbackTrigger[] = ['timeout', 'invalid_json', 'empty_output', 'error'];
+
+export const ROUTING_STRATEGIES: FleetRoutingStrategy[] = ['static', 'weighted'];
+
+export const INJECTION_POLICIES: FleetInjectionPolicy[] = ['flag', 'block', 'require_approval'];
+
+export const SCOPE_VIOLATION_POLICIES: FleetScopeViolationPolicy[] = ['flag', 'fail'];
+
+export const HARNESS_TOOLS: FleetHarnessTool[] = ['read', 'edit', 'write', 'bash', 'glob', 'grep', 'web_fetch', 'web_search'];
+
+export const DEFAULT_RETRY_ON: FleetFallbackTrigger[] = ['timeout', 'invalid_json', 'empty_output'];
+
+const HARNESS_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const DEFAULT_SUCCESS_WINDOW = 20;
+
+const DEFAULT_CONTEXT_BUDGET_TOKENS = 8_000;
 
 export function getDefaultRoutingConfig(): FleetRoutingConfig {
   return {
-    version: 1,
+    version: getCurrentRoutingConfigVersion(),
     defaults: {
       harness: 'claude-code',
       timeout_ms: 30 * 60 * 1000,
     },
     rules: [],
+    harnesses: [],
+    handoff: {
+      chain: false,
+      max_hops: 3,
+    },
+    dispatch: {
+      concurrency: 1,
+      max_per_harness: {},
+    },
+    context: {
+      budget_tokens: DEFAULT_CONTEXT_BUDGET_TOKENS,
+      files: true,
+      dependencies: true,
+      tech_orders: true,
+    },
   };
 }
 
+export function getConfiguredHarnessIds(config: Pick<FleetRoutingConfig, 'harnesses'>): HarnessId[] {
+  return [...BUILTIN_HARNESSES, ...config.harnesses.map(harness => harness.id)];
+}
+
 export function findRoutingConfigPath(cwd: string = process.cwd()): string | null {
   return findUp('fleet.routing.yaml', cwd) ?? findUp('fleet.routing.yml', cwd);
 }
@@ -55,11 +269,80 @@ export function loadRoutingConfig(cwd: string = process.cwd()): FleetRoutingConf
     return getDefaultRoutingConfig();
   }
 
-  const content = readFileSync(filePath, 'utf-8');
-  const parsed = parseYaml(content);
-  const config = validateRoutingConfig(parsed);
-  config.filePath = filePath;
-  return config;
+  return parseRoutingConfig(readFileSync(filePath, 'utf-8'), filePath);
+}
+
+/** Parses, migrates and validates routing YAML; throws `RoutingConfigError` listing every issue. */
+export function parseRoutingConfig(content: string, filePath?: string): FleetRoutingConfig {
+  const inspection = inspectRoutingConfig(content);
+  if (!inspection.config) {
+    throw new RoutingConfigError(inspection.issues, filePath);
+  }
+  if (filePath) inspection.config.filePath = filePath;
+  return inspection.config;
+}
+
+/**
+ * Runs every check `loadRoutingConfig` does without throwing: YAML syntax,
+ * version migration, the JSON Schema, then the cross-field validation in
+ * `validateRoutingConfig`. Schema issues are all reported together; the
+ * cross-field checks stop at the first problem.
+ */
+export function inspectRoutingConfig(content: string): RoutingConfigInspection {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  const inspection: RoutingConfigInspection = { issues: [], migrations: [] };
+
+  if (doc.errors.length > 0) {
+    inspection.issues = doc.errors.map(error => ({
+      message: error.message.split('\n')[0] ?? error.message,
+      ...(error.linePos ? { line: error.linePos[0].line, column: error.linePos[0].col } : {}),
+    }));
+    return inspection;
+  }
+
+  const located = (path: string, message: string): RoutingConfigIssue => ({
+    ...(path ? { path } : {}),
+    message,
+    ...locateConfigPath(doc, lineCounter, path),
+  });
+
+  const parsed = (doc.toJS() ?? {}) as unknown;
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    inspection.issues.push(located('', 'Routing config must be an object'));
+    return inspection;
+  }
+
+  let raw = parsed as Record<string, unknown>;
+  try {
+    const migrated = migrateRoutingConfig(raw);
+    raw = migrated.raw;
+    inspection.fromVersion = migrated.fromVersion;
+    inspection.migrations = migrated.applied.map(step => `${step.from} → ${step.to}: ${step.description}`);
+  } catch (error) {
+    inspection.issues.push(located('version', error instanceof Error ? error.message : String(error)));
+    return inspection;
+  }
+
+  const violations = validateAgainstSchema(raw, ROUTING_CONFIG_SCHEMA);
+  if (violations.length > 0) {
+    inspection.issues = violations.map(violation => located(violation.path, violation.message));
+    return inspection;
+  }
+
+  try {
+    inspection.config = validateRoutingConfig(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    inspection.issues.push(located(configPathOf(message), message));
+  }
+  return inspection;
+}
+
+export function formatRoutingConfigIssue(issue: RoutingConfigIssue, filePath?: string): string {
+  const position = issue.line !== undefined ? `${issue.line}:${issue.column ?? 1}` : '';
+  const location = [filePath, position].filter(Boolean).join(':');
+  return location ? `${location}: ${issue.message}` : issue.message;
 }
 
 export function validateRoutingConfig(input: unknown): FleetRoutingConfig {
@@ -72,8 +355,10 @@ export function validateRoutingConfig(input: unknown): FleetRoutingConfig {
   const rules = Array.isArray(raw.rules) ? raw.rules : [];
   const harness = defaults?.harness;
   const timeoutMs = defaults?.timeout_ms;
+  const harnesses = validateHarnessDefinitions(raw.harnesses);
+  const validHarnesses = getConfiguredHarnessIds({ harnesses });
 
-  if (!VALID_HARNESSES.includes((harness as HarnessId | undefined) ?? 'claude-code')) {
+  if (!validHarnesses.includes((harness as HarnessId | undefined) ?? 'claude-code')) {
     throw new Error(`Invalid default harness '${String(harness)}'`);
   }
 
@@ -81,35 +366,176 @@ export function validateRoutingConfig(input: unknown): FleetRoutingConfig {
     throw new Error('defaults.timeout_ms must be a positive integer');
   }
 
-  const validatedRules = rules.map((rule, index) => validateRoutingRule(rule, index));
+  const validatedRules = rules.map((rule, index) => validateRoutingRule(rule, index, validHarnesses));
+  const defaultHarness = (harness as HarnessId | undefined) ?? 'claude-code';
 
   return {
     version: Number(raw.version ?? 1),
     defaults: {
-      harness: (harness as HarnessId | undefined) ?? 'claude-code',
+      harness: defaultHarness,
       timeout_ms: Number(timeoutMs ?? 30 * 60 * 1000),
+      ...normalizeFallback(defaults ?? {}, 'defaults', defaultHarness, validHarnesses),
+      ...normalizeVerifyGate(defaults?.verify, 'defaults.verify'),
+      ...normalizeRetryPolicy(defaults?.retry, 'defaults.retry'),
+      ...normalizeInjectionPolicy(defaults?.on_injection, 'defaults.on_injection'),
+      ...normalizeRepairOutput(defaults?.repair_output, 'defaults.repair_output'),
+      ...normalizeHarnessPolicy(defaults?.policy, 'defaults.policy'),
+      ...normalizeScopeViolationPolicy(defaults?.on_scope_violation, 'defaults.on_scope_violation'),
     },
     rules: validatedRules,
+    harnesses,
+    handoff: validateHandoffConfig(raw.handoff),
+    dispatch: validateDispatchConfig(raw.dispatch, validHarnesses),
+    context: validateContextConfig(raw.context),
   };
 }
 
-function validateRoutingRule(rule: unknown, index: number): FleetRoutingRule {
+function validateHandoffConfig(input: unknown): FleetHandoffConfig {
+  if (input === undefined || input === null) {
+    return { chain: false, max_hops: 3 };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('handoff must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (raw.chain !== undefined && typeof raw.chain !== 'boolean') {
+    throw new Error('handoff.chain must be a boolean');
+  }
+
+  const maxHops = raw.max_hops ?? 3;
+  if (!Number.isInteger(maxHops) || Number(maxHops) <= 0) {
+    throw new Error('handoff.max_hops must be a positive integer');
+  }
+
+  return { chain: raw.chain === true, max_hops: Number(maxHops) };
+}
+
+function validateDispatchConfig(input: unknown, validHarnesses: HarnessId[]): FleetDispatchConfig {
+  if (input === undefined || input === null) {
+    return { concurrency: 1, max_per_harness: {} };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('dispatch must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const concurrency = raw.concurrency ?? 1;
+  if (!Number.isInteger(concurrency) || Number(concurrency) <= 0) {
+    throw new Error('dispatch.concurrency must be a positive integer');
+  }
+
+  const maxPerHarness: Record<string, number> = {};
+  if (raw.max_per_harness !== undefined) {
+    if (!raw.max_per_harness || typeof raw.max_per_harness !== 'object' || Array.isArray(raw.max_per_harness)) {
+      throw new Error('dispatch.max_per_harness must be a map of harness to limit');
+    }
+    for (const [harness, limit] of Object.entries(raw.max_per_harness as Record<string, unknown>)) {
+      if (!validHarnesses.includes(harness)) {
+        throw new Error(`dispatch.max_per_harness.${harness} is not a configured harness`);
+      }
+      if (!Number.isInteger(limit) || Number(limit) <= 0) {
+        throw new Error(`dispatch.max_per_harness.${harness} must be a positive integer`);
+      }
+      maxPerHarness[harness] = Number(limit);
+    }
+  }
+
+  return { concurrency: Number(concurrency), max_per_harness: maxPerHarness };
+}
+
+function validateContextConfig(input: unknown): FleetContextConfig {
+  if (input === undefined || input === null) {
+    return { budget_tokens: DEFAULT_CONTEXT_BUDGET_TOKENS, files: true, dependencies: true, tech_orders: true };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('context must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const budgetTokens = raw.budget_tokens ?? DEFAULT_CONTEXT_BUDGET_TOKENS;
+  if (!Number.isInteger(budgetTokens) || Number(budgetTokens) <= 0) {
+    throw new Error('context.budget_tokens must be a positive integer');
+  }
+
+  for (const key of ['files', 'dependencies', 'tech_orders']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      throw new Error(`context.${key} must be a boolean`);
+    }
+  }
+
+  return {
+    budget_tokens: Number(budgetTokens),
+    files: raw.files !== false,
+    dependencies: raw.dependencies !== false,
+    tech_orders: raw.tech_orders !== false,
+  };
+}
+
+function validateHarnessDefinitions(input: unknown): FleetHarnessDefinition[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    throw new Error('harnesses must be an array');
+  }
+
+  const seen = new Set<string>();
+  return input.map((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`harnesses[${index}] must be an object`);
+    }
+
+    const raw = entry as Record<string, unknown>;
+    const id = normalizeString(raw.id, `harnesses[${index}].id`);
+    if (!HARNESS_ID_PATTERN.test(id)) {
+      throw new Error(`harnesses[${index}].id must contain only letters, digits, '.', '_' or '-'`);
+    }
+    if ((BUILTIN_HARNESSES as readonly string[]).includes(id)) {
+      throw new Error(`harnesses[${index}].id '${id}' conflicts with a built-in harness`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`harnesses[${index}].id '${id}' is declared more than once`);
+    }
+    seen.add(id);
+
+    const definition: FleetHarnessDefinition = {
+      id,
+      command: normalizeString(raw.command, `harnesses[${index}].command`),
+      run_template: normalizeString(raw.run_template, `harnesses[${index}].run_template`),
+    };
+    if (raw.version_args !== undefined) {
+      definition.version_args = normalizeStringArray(raw.version_args, `harnesses[${index}].version_args`);
+    }
+    return definition;
+  });
+}
+
+function validateRoutingRule(rule: unknown, index: number, validHarnesses: HarnessId[]): FleetRoutingRule {
   if (!rule || typeof rule !== 'object') {
     throw new Error(`rules[${index}] must be an object`);
   }
 
   const raw = rule as Record<string, unknown>;
   const id = String(raw.id ?? '').trim();
-  const when = (raw.when ?? {}) as Record<string, unknown>;
   const select = (raw.select ?? {}) as Record<string, unknown>;
-  const harness = select.harness;
+  const strategy = normalizeStrategy(select, `rules[${index}].select`, validHarnesses);
+  const harness = select.harness ?? strategy.candidates?.[0];
 
   if (!id) {
     throw new Error(`rules[${index}].id is required`);
   }
 
-  if (!VALID_HARNESSES.includes(harness as HarnessId)) {
-    throw new Error(`rules[${index}].select.harness must be one of ${VALID_HARNESSES.join(', ')}`);
+  if (strategy.candidates && !strategy.candidates.includes(harness as HarnessId)) {
+    throw new Error(`rules[${index}].select.harness must be one of the candidates`);
+  }
+
+  if (!validHarnesses.includes(harness as HarnessId)) {
+    throw new Error(`rules[${index}].select.harness must be one of ${validHarnesses.join(', ')}`);
   }
 
   const timeoutMs = select.timeout_ms;
@@ -119,29 +545,397 @@ function validateRoutingRule(rule: unknown, index: number): FleetRoutingRule {
 
   return {
     id,
-    when: normalizeCondition(when),
+    when: normalizeCondition(raw.when ?? {}, `rules[${index}].when`),
     select: {
       harness: harness as HarnessId,
+      ...strategy,
       timeout_ms: timeoutMs === undefined ? undefined : Number(timeoutMs),
+      ...normalizeFallback(select, `rules[${index}].select`, harness as HarnessId, validHarnesses, strategy.candidates),
+      ...normalizeVerifyGate(select.verify, `rules[${index}].select.verify`),
+      ...normalizeRetryPolicy(select.retry, `rules[${index}].select.retry`),
+      ...normalizeInjectionPolicy(select.on_injection, `rules[${index}].select.on_injection`),
+      ...normalizeRepairOutput(select.repair_output, `rules[${index}].select.repair_output`),
+      ...normalizeHarnessPolicy(select.policy, `rules[${index}].select.policy`),
+      ...normalizeScopeViolationPolicy(select.on_scope_violation, `rules[${index}].select.on_scope_violation`),
     },
   };
 }
 
-function normalizeCondition(input: Record<string, unknown>): FleetRoutingRuleCondition {
+function normalizeFallback(
+  input: Record<string, unknown>,
+  path: string,
+  primary: HarnessId,
+  validHarnesses: HarnessId[],
+  candidates: HarnessId[] = [primary],
+): { fallback?: HarnessId[]; fallback_on?: FleetFallbackTrigger[] } {
+  const result: { fallback?: HarnessId[]; fallback_on?: FleetFallbackTrigger[] } = {};
+
+  if (input.fallback !== undefined) {
+    const fallback = normalizeStringArray(input.fallback, `${path}.fallback`);
+    fallback.forEach((entry, position) => {
+      if (!validHarnesses.includes(entry)) {
+        throw new Error(`${path}.fallback[${position}] must be one of ${validHarnesses.join(', ')}`);
+      }
+      if (candidates.includes(entry) || fallback.indexOf(entry) !== position) {
+        throw new Error(`${path}.fallback[${position}] repeats harness '${entry}'`);
+      }
+    });
+    result.fallback = fallback;
+  }
+
+  if (input.fallback_on !== undefined) {
+    const triggers = normalizeStringArray(input.fallback_on, `${path}.fallback_on`);
+    triggers.forEach((entry, position) => {
+      if (!(FALLBACK_TRIGGERS as string[]).includes(entry)) {
+        throw new Error(`${path}.fallback_on[${position}] must be one of ${FALLBACK_TRIGGERS.join(', ')}`);
+      }
+    });
+    result.fallback_on = triggers as FleetFallbackTrigger[];
+  }
+
+  return result;
+}
+
+function normalizeInjectionPolicy(input: unknown, path: string): { on_injection?: FleetInjectionPolicy } {
+  if (input === undefined) {
+    return {};
+  }
+  if (!(INJECTION_POLICIES as unknown[]).includes(input)) {
+    throw new Error(`${path} must be one of ${INJECTION_POLICIES.join(', ')}`);
+  }
+  return { on_injection: input as FleetInjectionPolicy };
+}
+
+function normalizeScopeViolationPolicy(input: unknown, path: string): { on_scope_violation?: FleetScopeViolationPolicy } {
+  if (input === undefined) {
+    return {};
+  }
+  if (!(SCOPE_VIOLATION_POLICIES as unknown[]).includes(input)) {
+    throw new Error(`${path} must be one of ${SCOPE_VIOLATION_POLICIES.join(', ')}`);
+  }
+  return { on_scope_violation: input as FleetScopeViolationPolicy };
+}
+
+function normalizeHarnessPolicy(input: unknown, path: string): { policy?: FleetHarnessPolicy } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  const raw = input as Record<string, unknown>;
+  const policy: FleetHarnessPolicy = {};
+  if (raw.tools !== undefined) {
+    const tools = normalizeStringArray(raw.tools, `${path}.tools`);
+    tools.forEach((tool, position) => {
+      if (!(HARNESS_TOOLS as string[]).includes(tool)) {
+        throw new Error(`${path}.tools[${position}] must be one of ${HARNESS_TOOLS.join(', ')}`);
+      }
+    });
+    policy.tools = tools as FleetHarnessTool[];
+  }
+
+  if (raw.bash !== undefined) {
+    if (typeof raw.bash !== 'object' || raw.bash === null || Array.isArray(raw.bash)) {
+      throw new Error(`${path}.bash must be an object`);
+    }
+    const bash = raw.bash as Record<string, unknown>;
+    policy.bash = {
+      ...(bash.allow !== undefined ? { allow: normalizeStringArray(bash.allow, `${path}.bash.allow`) } : {}),
+      ...(bash.deny !== undefined ? { deny: normalizeStringArray(bash.deny, `${path}.bash.deny`) } : {}),
+    };
+  }
+
+  if (raw.network !== undefined) {
+    if (typeof raw.network !== 'boolean') {
+      throw new Error(`${path}.network must be a boolean`);
+    }
+    policy.network = raw.network;
+  }
+
+  if (raw.read_dirs !== undefined) {
+    policy.read_dirs = normalizeStringArray(raw.read_dirs, `${path}.read_dirs`);
+  }
+
+  return { policy };
+}
+
+function normalizeRepairOutput(input: unknown, path: string): { repair_output?: boolean } {
+  if (input === undefined) {
+    return {};
+  }
+  if (typeof input !== 'boolean') {
+    throw new Error(`${path} must be a boolean`);
+  }
+  return { repair_output: input };
+}
+
+function normalizeStrategy(
+  select: Record<string, unknown>,
+  path: string,
+  validHarnesses: HarnessId[],
+): { strategy?: FleetRoutingStrategy; candidates?: HarnessId[]; success_window?: number } {
+  const strategy = select.strategy ?? 'static';
+  if (!(ROUTING_STRATEGIES as unknown[]).includes(strategy)) {
+    throw new Error(`${path}.strategy must be one of ${ROUTING_STRATEGIES.join(', ')}`);
+  }
+
+  if (strategy === 'static') {
+    if (select.candidates !== undefined || select.success_window !== undefined) {
+      throw new Error(`${path}.candidates and ${path}.success_window require strategy: weighted`);
+    }
+    return {};
+  }
+
+  const candidates = normalizeStringArray(select.candidates, `${path}.candidates`);
+  if (candidates.length < 2) {
+    throw new Error(`${path}.candidates must list at least two harnesses`);
+  }
+  candidates.forEach((entry, position) => {
+    if (!validHarnesses.includes(entry)) {
+      throw new Error(`${path}.candidates[${position}] must be one of ${validHarnesses.join(', ')}`);
+    }
+    if (candidates.indexOf(entry) !== position) {
+      throw new Error(`${path}.candidates[${position}] repeats harness '${entry}'`);
+    }
+  });
+
+  return {
+    strategy: 'weighted',
+    candidates,
+    success_window: normalizePositiveInt(select.success_window ?? DEFAULT_SUCCESS_WINDOW, `${path}.success_window`),
+  };
+}
+
+function normalizeVerifyGate(input: unknown, path: string): { verify?: FleetVerifyGateConfig } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    throw new Error(`${path}.enabled must be a boolean`);
+  }
+  if (raw.check_files !== undefined && typeof raw.check_files !== 'boolean') {
+    throw new Error(`${path}.check_files must be a boolean`);
+  }
+
+  const verify: FleetVerifyGateConfig = {
+    enabled: raw.enabled !== false,
+    commands: raw.commands === undefined ? [] : normalizeStringArray(raw.commands, `${path}.commands`),
+    command_timeout_seconds: normalizePositiveInt(raw.command_timeout_seconds ?? 120, `${path}.command_timeout_seconds`),
+    check_files: raw.check_files !== false,
+  };
+
+  if (raw.tests !== undefined) {
+    if (!raw.tests || typeof raw.tests !== 'object' || Array.isArray(raw.tests)) {
+      throw new Error(`${path}.tests must be an object`);
+    }
+    const tests = raw.tests as Record<string, unknown>;
+    verify.tests = {
+      command: normalizeString(tests.command, `${path}.tests.command`),
+      timeout_seconds: normalizePositiveInt(tests.timeout_seconds ?? 300, `${path}.tests.timeout_seconds`),
+    };
+  }
+
+  return { verify };
+}
+
+function normalizeRetryPolicy(input: unknown, path: string): { retry?: FleetRetryPolicy } {
+  if (input === undefined || input === null) {
+    return {};
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  const raw = input as Record<string, unknown>;
+  const backoffMs = raw.backoff_ms ?? 5_000;
+  if (!Number.isInteger(backoffMs) || Number(backoffMs) < 0) {
+    throw new Error(`${path}.backoff_ms must be a non-negative integer`);
+  }
+  const multiplier = raw.backoff_multiplier ?? 2;
+  if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier < 1) {
+    throw new Error(`${path}.backoff_multiplier must be a number of at least 1`);
+  }
+
+  const retryOn = raw.retry_on === undefined
+    ? DEFAULT_RETRY_ON
+    : normalizeStringArray(raw.retry_on, `${path}.retry_on`);
+  retryOn.forEach((entry, position) => {
+    if (!(FALLBACK_TRIGGERS as string[]).includes(entry)) {
+      throw new Error(`${path}.retry_on[${position}] must be one of ${FALLBACK_TRIGGERS.join(', ')}`);
+    }
+  });
+
+  return {
+    retry: {
+      max_attempts: normalizePositiveInt(raw.max_attempts ?? 3, `${path}.max_attempts`),
+      backoff_ms: Number(backoffMs),
+      backoff_multiplier: multiplier,
+      max_backoff_ms: normalizePositiveInt(raw.max_backoff_ms ?? 60_000, `${path}.max_backoff_ms`),
+      retry_on: [...retryOn] as FleetFallbackTrigger[],
+    },
+  };
+}
+
+const NUMERIC_RANGE_KEYS = ['eq', 'gt', 'gte', 'lt', 'lte'] as const;
+
+const COMPARISON_OPERATORS: Record<string, keyof FleetNumericRange> = {
+  '==': 'eq',
+  '=': 'eq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+function normalizeCondition(input: unknown, path: string): FleetRoutingRuleCondition {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  const raw = input as Record<string, unknown>;
   const condition: FleetRoutingRuleCondition = {};
 
-  if (input.task_id !== undefined) condition.task_id = normalizeStringOrStringArray(input.task_id, 'task_id');
-  if (input.task_type !== undefined) condition.task_type = normalizeStringOrStringArray(input.task_type, 'task_type');
-  if (input.priority !== undefined) condition.priority = normalizeStringOrStringArray(input.priority, 'priority');
-  if (input.title_regex !== undefined) condition.title_regex = normalizeString(input.title_regex, 'title_regex');
-  if (input.labels !== undefined) condition.labels = normalizeStringArray(input.labels, 'labels');
-  if (input.affected_files_glob !== undefined) {
-    condition.affected_files_glob = normalizeStringArray(input.affected_files_glob, 'affected_files_glob');
+  for (const [key, value] of Object.entries(raw)) {
+    const field = `${path}.${key}`;
+    switch (key) {
+      case 'task_id':
+      case 'task_type':
+      case 'priority':
+        condition[key] = normalizeStringOrStringArray(value, field);
+        break;
+      case 'labels':
+      case 'any_labels':
+      case 'affected_files_glob':
+        condition[key] = normalizeStringArray(value, field);
+        break;
+      case 'title_regex':
+      case 'description_regex':
+        condition[key] = normalizeRegex(value, field);
+        break;
+      case 'priority_value':
+      case 'affected_files_count':
+        condition[key] = normalizeNumericRange(value, field);
+        break;
+      case 'all':
+      case 'any':
+        if (!Array.isArray(value) || value.length === 0) {
+          throw new Error(`${field} must be a non-empty array of conditions`);
+        }
+        condition[key] = value.map((entry, position) => normalizeCondition(entry, `${field}[${position}]`));
+        break;
+      case 'not':
+        condition.not = normalizeCondition(value, field);
+        break;
+      default:
+        throw new Error(`${field} is not a supported condition`);
+    }
   }
 
   return condition;
 }
 
+function normalizeRegex(value: unknown, field: string): string {
+  const pattern = normalizeString(value, field);
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`${field} is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return pattern;
+}
+
+/**
+ * Accepts a number (exact match), comparisons such as `">= 80"` or
+ * `"> 10, <= 50"`, or an object with `eq`, `gt`, `gte`, `lt` and `lte`.
+ */
+function normalizeNumericRange(value: unknown, field: string): FleetNumericRange {
+  const invalid = () => new Error(
+    `${field} must be a number, comparisons like ">= 80" or "> 10, <= 50", or an object with ${NUMERIC_RANGE_KEYS.join(', ')}`,
+  );
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw invalid();
+    return { eq: value };
+  }
+
+  const range: FleetNumericRange = {};
+  if (typeof value === 'string') {
+    const parts = value.split(',').map(part => part.trim());
+    for (const part of parts) {
+      const match = part.match(/^(==|=|>=|<=|>|<)?\s*(-?\d+(?:\.\d+)?)$/);
+      if (!match) throw invalid();
+      const bound = COMPARISON_OPERATORS[match[1] ?? '=='];
+      if (!bound || range[bound] !== undefined) throw invalid();
+      range[bound] = Number(match[2]);
+    }
+    return range;
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) throw invalid();
+    for (const [key, bound] of entries) {
+      if (!(NUMERIC_RANGE_KEYS as readonly string[]).includes(key)) {
+        throw new Error(`${field}.${key} must be one of ${NUMERIC_RANGE_KEYS.join(', ')}`);
+      }
+      if (typeof bound !== 'number' || !Number.isFinite(bound)) {
+        throw new Error(`${field}.${key} must be a number`);
+      }
+      range[key as keyof FleetNumericRange] = bound;
+    }
+    return range;
+  }
+
+  throw invalid();
+}
+
+/** Recovers the config path that `validateRoutingConfig` errors start with. */
+function configPathOf(message: string): string {
+  if (message.startsWith('Invalid default harness')) return 'defaults.harness';
+  const match = message.match(/^((?:version|defaults|rules|harnesses|handoff|dispatch|context)(?:\[\d+\]|\.[A-Za-z_-]+)*)/);
+  return match?.[1] ?? '';
+}
+
+/**
+ * Line and column of the deepest node on `path` that exists in the YAML.
+ * For map entries the key is used, so unknown fields point at their name.
+ */
+function locateConfigPath(doc: Document, lineCounter: LineCounter, path: string): { line?: number; column?: number } {
+  const segments = Array.from(path.matchAll(/([^.[\]]+)|\[(\d+)\]/g))
+    .map(match => (match[2] !== undefined ? Number(match[2]) : match[1]!));
+
+  for (let depth = segments.length; depth > 0; depth--) {
+    const parent = doc.getIn(segments.slice(0, depth - 1), true);
+    const key = segments[depth - 1];
+    let offset: number | undefined;
+    if (isMap(parent)) {
+      const pair = parent.items.find(item => (isScalar(item.key) ? item.key.value : item.key) === key);
+      const node = (pair?.key ?? pair?.value) as { range?: [number, number, number] } | undefined;
+      offset = node?.range?.[0];
+    } else if (isSeq(parent) && typeof key === 'number') {
+      offset = (parent.items[key] as { range?: [number, number, number] } | undefined)?.range?.[0];
+    }
+    if (offset !== undefined) {
+      const position = lineCounter.linePos(offset);
+      return { line: position.line, column: position.col };
+    }
+  }
+
+  const rootOffset = doc.contents?.range?.[0];
+  if (rootOffset === undefined) return {};
+  const position = lineCounter.linePos(rootOffset);
+  return { line: position.line, column: position.col };
+}
+
 function normalizeString(value: unknown, field: string): string {
   if (typeof value !== 'string' || value.trim().length === 0) {
     throw new Error(`${field} must be a non-empty string`);
@@ -149,6 +943,13 @@ function normalizeString(value: unknown, field: string): string {
   return value.trim();
 }
 
+function normalizePositiveInt(value: unknown, field: string): number {
+  if (!Number.isInteger(value) || Number(value) <= 0) {
+    throw new Error(`${field} must be a positive integer`);
+  }
+  return Number(value);
+}
+
 function normalizeStringArray(value: unknown, field: string): string[] {
   if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim().length === 0)) {
     throw new Error(`${field} must be an array of non-empty strings`);
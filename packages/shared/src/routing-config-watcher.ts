@@ -0,0 +1,101 @@
+import { watch, type FSWatcher } from 'node:fs';
+import { dirname } from 'node:path';
+import { findRoutingConfigPath, loadRoutingConfig, type FleetRoutingConfig } from './orchestration-config.js';
+
+const ROUTING_FILE_PATTERN = /^fleet\.routing\.ya?ml$/;
+
+export interface RoutingConfigWatcherOptions {
+  /** Quiet period after the last file event before reloading. */
+  debounceMs?: number;
+  onReload?: (config: FleetRoutingConfig) => void;
+  /** Called when a changed file is rejected; the previous config stays active. */
+  onError?: (error: Error) => void;
+}
+
+export interface RoutingConfigState {
+  filePath: string | null;
+  /** When the active config was loaded. */
+  loadedAt?: string;
+  /** Why the most recent reload was rejected, until a later one succeeds. */
+  error?: string;
+}
+
+/**
+ * Keeps the routing config of a long-running process current. The config's
+ * directory is watched rather than the file, because editors often replace
+ * the file instead of writing it in place. Each change is validated in full
+ * and only a valid config replaces the active one, so a bad edit leaves the
+ * last good config in force.
+ */
+export class RoutingConfigWatcher {
+  private readonly cwd: string;
+  private readonly debounceMs: number;
+  private readonly options: RoutingConfigWatcherOptions;
+  private config?: FleetRoutingConfig;
+  private loadedAt?: string;
+  private error: Error | undefined;
+  private watcher: FSWatcher | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(cwd: string = process.cwd(), options: RoutingConfigWatcherOptions = {}) {
+    this.cwd = cwd;
+    this.debounceMs = options.debounceMs ?? 100;
+    this.options = options;
+  }
+
+  /** The active config; throws only if no valid config has loaded yet. */
+  current(): FleetRoutingConfig {
+    if (!this.config) {
+      throw this.error ?? new Error('Routing config has not been loaded');
+    }
+    return this.config;
+  }
+
+  state(): RoutingConfigState {
+    return {
+      filePath: this.config?.filePath ?? findRoutingConfigPath(this.cwd),
+      ...(this.loadedAt ? { loadedAt: this.loadedAt } : {}),
+      ...(this.error ? { error: this.error.message } : {}),
+    };
+  }
+
+  /** Re-reads the config now; returns whether it replaced the active one. */
+  reload(): boolean {
+    try {
+      const config = loadRoutingConfig(this.cwd);
+      this.config = config;
+      this.loadedAt = new Date().toISOString();
+      this.error = undefined;
+      this.options.onReload?.(config);
+      return true;
+    } catch (error) {
+      this.error = error instanceof Error ? error : new Error(String(error));
+      this.options.onError?.(this.error);
+      return false;
+    }
+  }
+
+  start(): this {
+    if (this.watcher) return this;
+    this.reload();
+
+    const filePath = findRoutingConfigPath(this.cwd);
+    this.watcher = watch(filePath ? dirname(filePath) : this.cwd, (_event, filename) => {
+      if (filename && !ROUTING_FILE_PATTERN.test(filename.toString())) return;
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.reload();
+      }, this.debounceMs);
+    });
+    this.watcher.unref();
+    return this;
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Upgrades a parsed routing file from one `version` to the next. Migrations
+ * work on the raw YAML data, before validation, and must not mutate it.
+ */
+export interface RoutingConfigMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(raw: Record<string, unknown>): Record<string, unknown>;
+}
+
+export interface MigratedRoutingConfig {
+  raw: Record<string, unknown>;
+  /** Version found in the file; equal to the current version when nothing ran. */
+  fromVersion: number;
+  applied: RoutingConfigMigration[];
+}
+
+/** The format this release reads without migration. */
+const CURRENT_ROUTING_CONFIG_VERSION = 1;
+
+/**
+ * Registered in order. Version 1 is the first versioned format, so there is
+ * nothing to migrate yet; a format change adds its step here and bumps
+ * `CURRENT_ROUTING_CONFIG_VERSION`.
+ */
+export const ROUTING_CONFIG_MIGRATIONS: RoutingConfigMigration[] = [];
+
+export function getCurrentRoutingConfigVersion(): number {
+  return CURRENT_ROUTING_CONFIG_VERSION;
+}
+
+/**
+ * Steps a routing file up to `target`. A file without `version` is taken to
+ * be at the target version. Files newer than `target`, or with a version no
+ * migration starts from, are rejected rather than guessed at.
+ */
+export function migrateRoutingConfig(
+  raw: Record<string, unknown>,
+  migrations: RoutingConfigMigration[] = ROUTING_CONFIG_MIGRATIONS,
+  target: number = CURRENT_ROUTING_CONFIG_VERSION,
+): MigratedRoutingConfig {
+  const fromVersion = raw.version ?? target;
+  if (!Number.isInteger(fromVersion) || Number(fromVersion) < 1) {
+    throw new Error('version must be a positive integer');
+  }
+  if (Number(fromVersion) > target) {
+    throw new Error(`version ${String(fromVersion)} is newer than this FleetTools supports (latest: ${target})`);
+  }
+
+  let current = raw;
+  let version = Number(fromVersion);
+  const applied: RoutingConfigMigration[] = [];
+  while (version < target) {
+    const step = migrations.find(migration => migration.from === version);
+    if (!step) {
+      throw new Error(`version ${version} cannot be migrated: no migration from version ${version} is registered`);
+    }
+    current = { ...step.migrate(current), version: step.to };
+    version = step.to;
+    applied.push(step);
+  }
+
+  return { raw: current, fromVersion: Number(fromVersion), applied };
+}
@@ -0,0 +1,190 @@
+import routingSchema from './schemas/fleet.routing.schema.json';
+
+/** The subset of JSON Schema (draft-07) used by the routing config schema. */
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface SchemaViolation {
+  /** Dotted path in the style of config errors, e.g. `rules[0].select.harness`; empty for the root. */
+  path: string;
+  message: string;
+}
+
+/** JSON Schema for fleet.routing.yaml, also shipped as `schemas/fleet.routing.schema.json`. */
+export const ROUTING_CONFIG_SCHEMA = routingSchema as JsonSchema;
+
+/**
+ * Checks a value against a schema and returns every violation rather than
+ * stopping at the first. Only the keywords in `JsonSchema` are understood;
+ * `$ref` must point into the root schema's `definitions`.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  check(value, schema, root, '', violations);
+  return violations;
+}
+
+function check(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, out: SchemaViolation[]): void {
+  const fail = (message: string) => out.push({ path, message: `${path || 'config'} ${message}` });
+
+  if (schema.$ref) {
+    check(value, resolveRef(schema.$ref, root), root, path, out);
+    return;
+  }
+
+  if (schema.anyOf) {
+    checkAnyOf(value, schema.anyOf, root, path, out);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.join(', ')}`);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.map(describeType).join(' or ')}`);
+      return;
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    fail(`must be at least ${schema.minimum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      fail('must be a non-empty string');
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => check(item, schema.items!, root, `${path}[${index}]`, out));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    checkObject(value, schema, root, path, out);
+  }
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  out: SchemaViolation[],
+): void {
+  const child = (key: string) => (path ? `${path}.${key}` : key);
+
+  if (schema.minProperties !== undefined && Object.keys(value).length < schema.minProperties) {
+    out.push({ path, message: `${path || 'config'} must have at least ${schema.minProperties} field(s)` });
+  }
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      out.push({ path: child(key), message: `${child(key)} is required` });
+    }
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    const property = schema.properties?.[key];
+    if (property) {
+      check(entry, property, root, child(key), out);
+    } else if (schema.additionalProperties === false) {
+      out.push({ path: child(key), message: `${child(key)} is not a supported field` });
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      check(entry, schema.additionalProperties, root, child(key), out);
+    }
+  }
+}
+
+/**
+ * Reports the violations of the one alternative whose type fits the value,
+ * which reads better than a list of every alternative's complaints.
+ */
+function checkAnyOf(value: unknown, alternatives: JsonSchema[], root: JsonSchema, path: string, out: SchemaViolation[]): void {
+  const results = alternatives.map(alternative => {
+    const violations: SchemaViolation[] = [];
+    check(value, alternative, root, path, violations);
+    return violations;
+  });
+  if (results.some(result => result.length === 0)) return;
+
+  const resolved = alternatives.map(alternative => (alternative.$ref ? resolveRef(alternative.$ref, root) : alternative));
+  const fitting = resolved.flatMap((alternative, index) => (fitsType(value, alternative) ? [index] : []));
+  if (fitting.length === 1) {
+    out.push(...results[fitting[0]!]!);
+    return;
+  }
+
+  const types = Array.from(new Set(resolved.flatMap(alternative => [alternative.type ?? []].flat())));
+  out.push({ path, message: `${path || 'config'} must be ${types.map(describeType).join(' or ')}` });
+}
+
+function fitsType(value: unknown, schema: JsonSchema): boolean {
+  return schema.type === undefined || [schema.type].flat().some(type => matchesType(value, type));
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace(/^#\/definitions\//, '');
+  const target = root.definitions?.[name];
+  if (!target) {
+    throw new Error(`Unresolved schema reference ${ref}`);
+  }
+  return target;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function describeType(type: JsonSchemaType): string {
+  return type === 'array' ? 'a list' : type === 'integer' ? 'an integer' : type === 'object' ? 'a map' : `a ${type}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
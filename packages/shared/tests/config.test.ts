@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { writeFileSync, unlinkSync, existsSync, mkdirSync } from 'node:fs';
+import { writeFileSync, unlinkSync, existsSync, mkdirSync, mkdtempSync } from 'node:fs';
 import { dirname } from 'node:path';
 import {
   getDefaultGlobalConfig,
@@ -12,7 +12,8 @@ import {
   loadProjectConfig,
   saveProjectConfig,
   isFleetProject,
-  ensureDirectories
+  ensureDirectories,
+  getSoloAdapterOptions
 } from '../src/config.js';
 
 describe('Configuration Management', () => {
@@ -167,6 +168,30 @@ describe('Configuration Management', () => {
     });
   });
 
+  describe('getSoloAdapterOptions', () => {
+    it('should read the solo backend from fleet.yaml and let the environment override it', () => {
+      const projectRoot = mkdtempSync(join(tmpdir(), 'fleet-solo-config-'));
+      const originalBackend = process.env.FLEET_SOLO_BACKEND;
+      delete process.env.FLEET_SOLO_BACKEND;
+
+      try {
+        expect(getSoloAdapterOptions(projectRoot)).toEqual({});
+
+        writeFileSync(join(projectRoot, 'fleet.yaml'), 'name: offline\nsolo:\n  backend: fake\n  store: tmp/solo.json\n');
+        expect(getSoloAdapterOptions(projectRoot)).toEqual({ backend: 'fake', fakeStorePath: 'tmp/solo.json' });
+
+        process.env.FLEET_SOLO_BACKEND = 'cli';
+        expect(getSoloAdapterOptions(projectRoot)).toEqual({ backend: 'cli', fakeStorePath: 'tmp/solo.json' });
+
+        process.env.FLEET_SOLO_BACKEND = 'sqlite';
+        expect(() => getSoloAdapterOptions(projectRoot)).toThrow("Solo backend must be one of cli, fake, got 'sqlite'");
+      } finally {
+        if (originalBackend === undefined) delete process.env.FLEET_SOLO_BACKEND;
+        else process.env.FLEET_SOLO_BACKEND = originalBackend;
+      }
+    });
+  });
+
   describe('ensureDirectories', () => {
     it('should create all required directories', () => {
       const config = getDefaultGlobalConfig();
@@ -1,8 +1,15 @@
 import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
   getDefaultRoutingConfig,
+  inspectRoutingConfig,
+  parseRoutingConfig,
   validateRoutingConfig,
 } from '../src/orchestration-config.js';
+import { RoutingConfigWatcher } from '../src/routing-config-watcher.js';
+import { migrateRoutingConfig } from '../src/routing-migrations.js';
 
 describe('orchestration config', () => {
   it('returns sensible defaults', () => {
@@ -48,4 +55,364 @@ describe('orchestration config', () => {
       },
     })).toThrow("Invalid default harness 'unknown'");
   });
+
+  it('accepts custom harnesses and lets rules select them', () => {
+    const config = validateRoutingConfig({
+      defaults: { harness: 'mock' },
+      harnesses: [
+        { id: 'aider', command: 'aider', run_template: 'aider --yes --message {prompt}' },
+        { id: 'mock', command: 'node', version_args: ['-v'], run_template: 'cat result.json' },
+      ],
+      rules: [
+        { id: 'docs-aider', when: { labels: ['docs'] }, select: { harness: 'aider' } },
+      ],
+    });
+
+    expect(config.defaults.harness).toBe('mock');
+    expect(config.harnesses.map(harness => harness.id)).toEqual(['aider', 'mock']);
+    expect(config.harnesses[1]?.version_args).toEqual(['-v']);
+    expect(config.rules[0]?.select.harness).toBe('aider');
+  });
+
+  it('rejects custom harnesses that shadow built-ins or omit a run template', () => {
+    expect(() => validateRoutingConfig({
+      harnesses: [{ id: 'codex', command: 'codex', run_template: 'codex {prompt}' }],
+    })).toThrow("harnesses[0].id 'codex' conflicts with a built-in harness");
+
+    expect(() => validateRoutingConfig({
+      harnesses: [{ id: 'aider', command: 'aider' }],
+    })).toThrow('harnesses[0].run_template must be a non-empty string');
+  });
+
+  it('rejects rules that select an undeclared harness', () => {
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'docs-aider', when: {}, select: { harness: 'aider' } }],
+    })).toThrow('rules[0].select.harness must be one of claude-code, opencode, codex');
+  });
+
+  it('validates dispatch concurrency and per-harness caps', () => {
+    const config = validateRoutingConfig({
+      dispatch: {
+        concurrency: 4,
+        max_per_harness: { 'claude-code': 2, codex: 1 },
+      },
+    });
+
+    expect(config.dispatch).toEqual({ concurrency: 4, max_per_harness: { 'claude-code': 2, codex: 1 } });
+    expect(validateRoutingConfig({}).dispatch).toEqual({ concurrency: 1, max_per_harness: {} });
+
+    expect(() => validateRoutingConfig({ dispatch: { concurrency: 0 } }))
+      .toThrow('dispatch.concurrency must be a positive integer');
+    expect(() => validateRoutingConfig({ dispatch: { max_per_harness: { aider: 1 } } }))
+      .toThrow('dispatch.max_per_harness.aider is not a configured harness');
+  });
+
+  it('validates injection policies on defaults and rules', () => {
+    const config = validateRoutingConfig({
+      defaults: { on_injection: 'require_approval' },
+      rules: [{ id: 'docs', when: { labels: ['docs'] }, select: { harness: 'codex', on_injection: 'block' } }],
+    });
+
+    expect(config.defaults.on_injection).toBe('require_approval');
+    expect(config.rules[0]?.select.on_injection).toBe('block');
+    expect(validateRoutingConfig({}).defaults.on_injection).toBeUndefined();
+    expect(() => validateRoutingConfig({ defaults: { on_injection: 'warn' } }))
+      .toThrow('defaults.on_injection must be one of flag, block, require_approval');
+  });
+
+  it('validates output repair settings', () => {
+    const config = validateRoutingConfig({
+      defaults: { repair_output: true },
+      rules: [{ id: 'docs', when: { labels: ['docs'] }, select: { harness: 'codex', repair_output: false } }],
+    });
+
+    expect(config.defaults.repair_output).toBe(true);
+    expect(config.rules[0]?.select.repair_output).toBe(false);
+    expect(() => validateRoutingConfig({ rules: [{ id: 'docs', when: {}, select: { harness: 'codex', repair_output: 'once' } }] }))
+      .toThrow('rules[0].select.repair_output must be a boolean');
+  });
+
+  it('validates harness sandbox policies', () => {
+    const config = validateRoutingConfig({
+      defaults: { policy: { network: false } },
+      rules: [{
+        id: 'review',
+        when: { labels: ['review'] },
+        select: { harness: 'claude-code', policy: { tools: ['read', 'grep', 'bash'], bash: { allow: ['git diff *'] } } },
+      }],
+    });
+
+    expect(config.defaults.policy).toEqual({ network: false });
+    expect(config.rules[0]?.select.policy).toEqual({ tools: ['read', 'grep', 'bash'], bash: { allow: ['git diff *'] } });
+    expect(() => validateRoutingConfig({ defaults: { policy: { tools: ['read', 'shell'] } } }))
+      .toThrow('defaults.policy.tools[1] must be one of read, edit, write, bash, glob, grep, web_fetch, web_search');
+    expect(() => validateRoutingConfig({ defaults: { policy: { network: 'off' } } }))
+      .toThrow('defaults.policy.network must be a boolean');
+  });
+
+  it('validates scope violation policies', () => {
+    const config = validateRoutingConfig({
+      defaults: { on_scope_violation: 'flag' },
+      rules: [{ id: 'auth', when: { labels: ['auth'] }, select: { harness: 'codex', on_scope_violation: 'fail' } }],
+    });
+
+    expect(config.defaults.on_scope_violation).toBe('flag');
+    expect(config.rules[0]?.select.on_scope_violation).toBe('fail');
+    expect(() => validateRoutingConfig({ defaults: { on_scope_violation: 'block' } }))
+      .toThrow('defaults.on_scope_violation must be one of flag, fail');
+  });
+
+  it('validates prompt context settings', () => {
+    expect(validateRoutingConfig({}).context).toEqual({ budget_tokens: 8000, files: true, dependencies: true, tech_orders: true });
+    expect(validateRoutingConfig({ context: { budget_tokens: 2000, files: false } }).context)
+      .toEqual({ budget_tokens: 2000, files: false, dependencies: true, tech_orders: true });
+
+    expect(() => validateRoutingConfig({ context: { budget_tokens: 0 } }))
+      .toThrow('context.budget_tokens must be a positive integer');
+    expect(() => validateRoutingConfig({ context: { tech_orders: 'yes' } }))
+      .toThrow('context.tech_orders must be a boolean');
+  });
+
+  it('validates handoff chaining settings', () => {
+    expect(validateRoutingConfig({}).handoff).toEqual({ chain: false, max_hops: 3 });
+    expect(validateRoutingConfig({ handoff: { chain: true, max_hops: 2 } }).handoff).toEqual({ chain: true, max_hops: 2 });
+
+    expect(() => validateRoutingConfig({ handoff: { chain: 'yes' } }))
+      .toThrow('handoff.chain must be a boolean');
+    expect(() => validateRoutingConfig({ handoff: { max_hops: 0 } }))
+      .toThrow('handoff.max_hops must be a positive integer');
+  });
+
+  it('validates ordered fallback harnesses and triggers', () => {
+    const config = validateRoutingConfig({
+      defaults: { harness: 'claude-code', fallback_on: ['timeout'] },
+      rules: [
+        {
+          id: 'ui-opencode',
+          when: { labels: ['ui'] },
+          select: { harness: 'opencode', fallback: ['codex', 'claude-code'], fallback_on: ['invalid_json', 'empty_output'] },
+        },
+      ],
+    });
+
+    expect(config.defaults.fallback_on).toEqual(['timeout']);
+    expect(config.rules[0]?.select.fallback).toEqual(['codex', 'claude-code']);
+    expect(config.rules[0]?.select.fallback_on).toEqual(['invalid_json', 'empty_output']);
+
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { harness: 'opencode', fallback: ['opencode'] } }],
+    })).toThrow("rules[0].select.fallback[0] repeats harness 'opencode'");
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { harness: 'opencode', fallback_on: ['crash'] } }],
+    })).toThrow('rules[0].select.fallback_on[0] must be one of timeout, invalid_json, empty_output, error');
+  });
+
+  it('validates post-run verification gates globally and per rule', () => {
+    const config = validateRoutingConfig({
+      defaults: {
+        harness: 'claude-code',
+        verify: { tests: { command: 'bun test' }, commands: ['bun run lint'] },
+      },
+      rules: [{ id: 'docs', when: { labels: ['docs'] }, select: { harness: 'opencode', verify: { enabled: false } } }],
+    });
+
+    expect(config.defaults.verify).toEqual({
+      enabled: true,
+      tests: { command: 'bun test', timeout_seconds: 300 },
+      commands: ['bun run lint'],
+      command_timeout_seconds: 120,
+      check_files: true,
+    });
+    expect(config.rules[0]?.select.verify?.enabled).toBe(false);
+
+    expect(() => validateRoutingConfig({ defaults: { verify: { tests: { timeout_seconds: 10 } } } }))
+      .toThrow('defaults.verify.tests.command must be a non-empty string');
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { harness: 'codex', verify: { command_timeout_seconds: -1 } } }],
+    })).toThrow('rules[0].select.verify.command_timeout_seconds must be a positive integer');
+  });
+
+  it('normalizes nested conditions and numeric comparisons', () => {
+    const config = validateRoutingConfig({
+      rules: [{
+        id: 'urgent-backend',
+        when: {
+          any_labels: ['backend', 'api'],
+          priority_value: '>= 80',
+          affected_files_count: { gt: 2, lte: 20 },
+          description_regex: 'migration|schema',
+          not: { labels: ['docs'] },
+          any: [{ task_type: 'bug' }, { priority_value: 100 }, { title_regex: '^fix' }],
+          all: [{ affected_files_count: '> 0, < 50' }],
+        },
+        select: { harness: 'claude-code' },
+      }],
+    });
+
+    expect(config.rules[0]?.when).toEqual({
+      any_labels: ['backend', 'api'],
+      priority_value: { gte: 80 },
+      affected_files_count: { gt: 2, lte: 20 },
+      description_regex: 'migration|schema',
+      not: { labels: ['docs'] },
+      any: [{ task_type: 'bug' }, { priority_value: { eq: 100 } }, { title_regex: '^fix' }],
+      all: [{ affected_files_count: { gt: 0, lt: 50 } }],
+    });
+  });
+
+  it('rejects malformed conditions with the path to the problem', () => {
+    const withWhen = (when: unknown) => () => validateRoutingConfig({
+      rules: [{ id: 'r', when, select: { harness: 'codex' } }],
+    });
+
+    expect(withWhen({ any: [{ labels: ['a'] }, { priority_value: '>> 5' }] }))
+      .toThrow('rules[0].when.any[1].priority_value must be a number, comparisons like ">= 80"');
+    expect(withWhen({ not: { any_label: ['ui'] } }))
+      .toThrow('rules[0].when.not.any_label is not a supported condition');
+    expect(withWhen({ all: [] })).toThrow('rules[0].when.all must be a non-empty array of conditions');
+    expect(withWhen({ description_regex: '(' })).toThrow('rules[0].when.description_regex is not a valid regular expression');
+    expect(withWhen({ affected_files_count: { atleast: 3 } }))
+      .toThrow('rules[0].when.affected_files_count.atleast must be one of eq, gt, gte, lt, lte');
+    expect(withWhen({ any_labels: 'ui' })).toThrow('rules[0].when.any_labels must be an array of non-empty strings');
+  });
+
+  it('validates retry policies with defaults for omitted fields', () => {
+    const config = validateRoutingConfig({
+      defaults: { harness: 'claude-code', retry: { max_attempts: 2 } },
+      rules: [{
+        id: 'flaky',
+        when: { labels: ['flaky'] },
+        select: { harness: 'codex', retry: { backoff_ms: 0, retry_on: ['error'] } },
+      }],
+    });
+
+    expect(config.defaults.retry).toEqual({
+      max_attempts: 2,
+      backoff_ms: 5000,
+      backoff_multiplier: 2,
+      max_backoff_ms: 60000,
+      retry_on: ['timeout', 'invalid_json', 'empty_output'],
+    });
+    expect(config.rules[0]?.select.retry).toMatchObject({ max_attempts: 3, backoff_ms: 0, retry_on: ['error'] });
+
+    expect(() => validateRoutingConfig({ defaults: { retry: { max_attempts: 0 } } }))
+      .toThrow('defaults.retry.max_attempts must be a positive integer');
+    expect(() => validateRoutingConfig({ defaults: { retry: { backoff_multiplier: 0.5 } } }))
+      .toThrow('defaults.retry.backoff_multiplier must be a number of at least 1');
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { harness: 'codex', retry: { retry_on: ['crash'] } } }],
+    })).toThrow('rules[0].select.retry.retry_on[0] must be one of timeout, invalid_json, empty_output, error');
+  });
+
+  it('validates weighted rules and defaults harness to the first candidate', () => {
+    const config = validateRoutingConfig({
+      rules: [{
+        id: 'balanced',
+        when: { labels: ['bulk'] },
+        select: { strategy: 'weighted', candidates: ['codex', 'opencode'], fallback: ['claude-code'] },
+      }],
+    });
+
+    expect(config.rules[0]?.select).toMatchObject({
+      harness: 'codex',
+      strategy: 'weighted',
+      candidates: ['codex', 'opencode'],
+      success_window: 20,
+      fallback: ['claude-code'],
+    });
+
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { strategy: 'weighted', candidates: ['codex'] } }],
+    })).toThrow('rules[0].select.candidates must list at least two harnesses');
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { strategy: 'weighted', harness: 'claude-code', candidates: ['codex', 'opencode'] } }],
+    })).toThrow('rules[0].select.harness must be one of the candidates');
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { strategy: 'weighted', candidates: ['codex', 'opencode'], fallback: ['opencode'] } }],
+    })).toThrow("rules[0].select.fallback[0] repeats harness 'opencode'");
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { harness: 'codex', candidates: ['codex', 'opencode'] } }],
+    })).toThrow('rules[0].select.candidates and rules[0].select.success_window require strategy: weighted');
+    expect(() => validateRoutingConfig({
+      rules: [{ id: 'r', when: {}, select: { harness: 'codex', strategy: 'random' } }],
+    })).toThrow('rules[0].select.strategy must be one of static, weighted');
+  });
+});
+
+describe('routing config files', () => {
+  it('reports every schema violation with its line and column', () => {
+    const inspection = inspectRoutingConfig([
+      'version: 1',
+      'defaults:',
+      '  harness: claude-code',
+      'rules:',
+      '  - id: backend',
+      '    when:',
+      '      lables: [backend]',
+      '    select:',
+      '      harness: codex',
+      '      timeout_ms: soon',
+    ].join('\n'));
+
+    expect(inspection.config).toBeUndefined();
+    expect(inspection.issues).toEqual([
+      { path: 'rules[0].when.lables', message: 'rules[0].when.lables is not a supported field', line: 7, column: 7 },
+      { path: 'rules[0].select.timeout_ms', message: 'rules[0].select.timeout_ms must be an integer', line: 10, column: 7 },
+    ]);
+  });
+
+  it('positions cross-field and YAML syntax errors', () => {
+    const crossField = inspectRoutingConfig('rules:\n  - id: r\n    select:\n      harness: gemini\n');
+    expect(crossField.issues).toEqual([{
+      path: 'rules[0].select.harness',
+      message: 'rules[0].select.harness must be one of claude-code, opencode, codex',
+      line: 4,
+      column: 7,
+    }]);
+
+    const syntax = inspectRoutingConfig('rules:\n  - id: [unclosed\n');
+    expect(syntax.issues[0]?.line).toBe(3);
+    expect(() => parseRoutingConfig('rules:\n  - id: [unclosed\n', 'fleet.routing.yaml'))
+      .toThrow(/^fleet\.routing\.yaml:3:1: /);
+  });
+
+  it('rejects versions it cannot migrate and steps older ones forward', () => {
+    expect(inspectRoutingConfig('version: 7\n').issues).toEqual([{
+      path: 'version',
+      message: 'version 7 is newer than this FleetTools supports (latest: 1)',
+      line: 1,
+      column: 1,
+    }]);
+
+    const migrated = migrateRoutingConfig({ version: 1, default: { harness: 'codex' } }, [
+      { from: 1, to: 2, description: 'rename default to defaults', migrate: ({ default: defaults, ...rest }) => ({ ...rest, defaults }) },
+      { from: 2, to: 3, description: 'no-op', migrate: raw => raw },
+    ], 3);
+    expect(migrated.raw).toEqual({ version: 3, defaults: { harness: 'codex' } });
+    expect(migrated.applied.map(step => step.to)).toEqual([2, 3]);
+
+    expect(() => migrateRoutingConfig({ version: 1 }, [], 2))
+      .toThrow('version 1 cannot be migrated: no migration from version 1 is registered');
+  });
+
+  it('keeps the last good config when a reload fails', () => {
+    const root = mkdtempSync(join(tmpdir(), 'fleet-routing-watch-'));
+    const filePath = join(root, 'fleet.routing.yaml');
+    writeFileSync(filePath, 'defaults:\n  harness: codex\n');
+    const errors: string[] = [];
+    const watcher = new RoutingConfigWatcher(root, { onError: error => errors.push(error.message) });
+
+    expect(watcher.reload()).toBe(true);
+    writeFileSync(filePath, 'defaults:\n  harness: gemini\n');
+    expect(watcher.reload()).toBe(false);
+
+    expect(watcher.current().defaults.harness).toBe('codex');
+    expect(watcher.state().error).toBe(`${filePath}:2:3: Invalid default harness 'gemini'`);
+    expect(errors).toHaveLength(1);
+
+    writeFileSync(filePath, 'defaults:\n  harness: opencode\n');
+    expect(watcher.reload()).toBe(true);
+    expect(watcher.current().defaults.harness).toBe('opencode');
+    expect(watcher.state().error).toBeUndefined();
+  });
 });
@@ -0,0 +1,237 @@
+/**
+ * Orchestration API route tests
+ * Drives the registered handlers directly against a temporary project that
+ * uses the fake Solo backend.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { ProjectionStore, SoloAdapter, prepareRunLog, writeRunContext } from '@fleettools/core';
+import { registerOrchestrationRoutes } from './src/orchestration/routes.js';
+
+type Handler = (req: Request, params: Record<string, string>) => Promise<Response>;
+
+/** Matches requests to handlers the way the server's router does. */
+function createTestRouter() {
+  const routes: Array<{ method: string; regex: RegExp; paramNames: string[]; handler: Handler }> = [];
+  const add = (method: string) => (path: string, handler: Handler) => {
+    const paramNames: string[] = [];
+    const pattern = path.replace(/:([^/]+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+    routes.push({ method, regex: new RegExp(`^${pattern}$`), paramNames, handler });
+  };
+
+  const request = async (method: string, path: string, body?: unknown): Promise<Response> => {
+    const url = new URL(path, 'http://localhost');
+    for (const route of routes) {
+      const match = route.method === method ? url.pathname.match(route.regex) : null;
+      if (!match) continue;
+      const params = Object.fromEntries(route.paramNames.map((name, index) => [name, match[index + 1]!]));
+      return route.handler(new Request(url, {
+        method,
+        ...(body === undefined ? {} : { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }),
+      }), params);
+    }
+    throw new Error(`No route for ${method} ${url.pathname}`);
+  };
+
+  return { router: { get: add('GET'), post: add('POST'), patch: add('PATCH'), delete: add('DELETE') }, request };
+}
+
+function record(runId: string, status: string, extra: Record<string, unknown> = {}) {
+  return {
+    runId,
+    taskId: `T-${runId}`,
+    harness: 'claude-code',
+    status,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    ruleId: 'defaults',
+    reason: 'test',
+    ...extra,
+  } as Parameters<ProjectionStore['append']>[0];
+}
+
+/** Sets environment variables for the duration of `run`. */
+async function withEnv<T>(env: Record<string, string>, run: () => Promise<T>): Promise<T> {
+  const previous = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]));
+  Object.assign(process.env, env);
+  try {
+    return await run();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+}
+
+describe('Orchestration routes', () => {
+  const root = mkdtempSync(join(tmpdir(), 'fleet-routes-'));
+  const { router, request } = createTestRouter();
+  const store = new ProjectionStore(root);
+  const previousBackend = process.env.FLEET_SOLO_BACKEND;
+
+  beforeAll(() => {
+    writeFileSync(join(root, 'fleet.yaml'), 'name: routes-test\n');
+    writeFileSync(join(root, 'fleet.routing.yaml'), [
+      'version: 1',
+      'defaults:',
+      '  harness: claude-code',
+      'rules:',
+      '  - id: ui',
+      '    when:',
+      '      labels: [ui]',
+      '    select:',
+      '      harness: opencode',
+    ].join('\n'));
+    process.env.FLEET_SOLO_BACKEND = 'fake';
+
+    const cwd = process.cwd();
+    process.chdir(root);
+    try {
+      registerOrchestrationRoutes(router, {});
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  afterAll(() => {
+    if (previousBackend === undefined) delete process.env.FLEET_SOLO_BACKEND;
+    else process.env.FLEET_SOLO_BACKEND = previousBackend;
+  });
+
+  it('serves the active routing config', async () => {
+    const response = await request('GET', '/api/v1/orchestration/config');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.filePath).toBe(join(root, 'fleet.routing.yaml'));
+    expect(body.config.rules.map((rule: { id: string }) => rule.id)).toEqual(['ui']);
+  });
+
+  it('filters and pages runs, and rejects invalid filters', async () => {
+    store.append(record('R-q1', 'completed', { startedAt: '2026-02-01T00:00:00.000Z' }));
+    store.append(record('R-q2', 'failed', { harness: 'codex', startedAt: '2026-02-02T00:00:00.000Z' }));
+    store.append(record('R-q3', 'completed', { startedAt: '2026-02-03T00:00:00.000Z' }));
+
+    const response = await request('GET', '/api/v1/orchestration/runs?status=completed,failed&since=2026-02-01&limit=2&offset=1');
+    const page = await response.json();
+    expect(response.status).toBe(200);
+    expect(page.total).toBe(3);
+    expect(page.runs.map((run: { runId: string }) => run.runId)).toEqual(['R-q2', 'R-q1']);
+
+    const codex = await (await request('GET', '/api/v1/orchestration/runs?harness=codex')).json();
+    expect(codex.runs.map((run: { runId: string }) => run.runId)).toEqual(['R-q2']);
+
+    const badStatus = await request('GET', '/api/v1/orchestration/runs?status=done');
+    expect(badStatus.status).toBe(400);
+    expect((await badStatus.json()).error).toContain("Unknown run status 'done'");
+    const badSince = await request('GET', '/api/v1/orchestration/runs?since=yesterday');
+    expect(badSince.status).toBe(400);
+    expect((await badSince.json()).error).toBe("since must be a date or ISO timestamp, got 'yesterday'");
+  });
+
+  it('aggregates run stats and rejects unknown groupings', async () => {
+    store.append(record('R-s1', 'completed', { harness: 'opencode', startedAt: '2026-03-01T00:00:00.000Z' }));
+    store.append(record('R-s2', 'failed', { harness: 'opencode', startedAt: '2026-03-02T00:00:00.000Z' }));
+
+    const response = await request('GET', '/api/v1/orchestration/runs/stats?by=harness&since=2026-03-01');
+    const stats = await response.json();
+    expect(response.status).toBe(200);
+    expect(stats.groupBy).toBe('harness');
+    expect(stats.groups).toMatchObject([{ key: 'opencode', runs: 2, completed: 1, failed: 1 }]);
+    expect(stats.totals.runs).toBe(2);
+
+    expect((await request('GET', '/api/v1/orchestration/runs/stats?by=model')).status).toBe(400);
+    expect((await request('GET', '/api/v1/orchestration/runs/stats?until=later')).status).toBe(400);
+  });
+
+  it('returns the assembled context recorded for a run', async () => {
+    const context = {
+      budgetTokens: 100,
+      tokens: 2,
+      sections: [{ kind: 'solo' as const, source: 'solo', content: '{}', tokens: 2 }],
+      omitted: [],
+    };
+    writeRunContext(root, 'R-ctx', context);
+
+    const response = await request('GET', '/api/v1/orchestration/runs/R-ctx/context');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ runId: 'R-ctx', context });
+    expect((await request('GET', '/api/v1/orchestration/runs/R-none/context')).status).toBe(404);
+  });
+
+  it('streams a run log as server-sent events', async () => {
+    store.append(record('R-log', 'completed'));
+    writeFileSync(prepareRunLog(root, 'R-log'), 'first line\nsecond line\n');
+
+    const response = await request('GET', '/api/v1/orchestration/runs/R-log/logs');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await response.text();
+    expect(events).toContain(`event: log\ndata: ${JSON.stringify({ chunk: 'first line\nsecond line\n' })}\n\n`);
+    expect(events.endsWith(`event: end\ndata: ${JSON.stringify({ runId: 'R-log' })}\n\n`)).toBe(true);
+
+    expect((await request('GET', '/api/v1/orchestration/runs/R-none/logs')).status).toBe(404);
+  });
+
+  it('cancels a run whose owner is gone', async () => {
+    store.append(record('R-orphan', 'running'));
+
+    const response = await request('DELETE', '/api/v1/orchestration/runs/R-orphan');
+    expect(response.status).toBe(200);
+    expect((await response.json()).run).toMatchObject({ runId: 'R-orphan', status: 'cancelled' });
+  });
+
+  it('maps cancel failures to 404, 409 and 504', async () => {
+    const missing = await request('DELETE', '/api/v1/orchestration/runs/R-missing');
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).code).toBe('RUN_NOT_FOUND');
+
+    store.append(record('R-done', 'completed'));
+    const finished = await request('DELETE', '/api/v1/orchestration/runs/R-done');
+    expect(finished.status).toBe(409);
+    expect((await finished.json()).code).toBe('RUN_FINISHED');
+
+    // This process owns the run but never finishes it, so the cancel times out.
+    store.append(record('R-stuck', 'running', { ownerPid: process.pid }));
+    const stuck = await request('DELETE', '/api/v1/orchestration/runs/R-stuck?graceMs=0');
+    expect(stuck.status).toBe(504);
+    expect((await stuck.json()).code).toBe('RUN_NOT_STOPPED');
+  }, 20_000);
+
+  it('maps Solo failures to 404, 409 and 503 with Retry-After', async () => {
+    const notFound = await request('GET', '/api/v1/orchestration/tasks/T-404/route');
+    expect(notFound.status).toBe(404);
+    expect((await notFound.json()).code).toBe('TASK_NOT_FOUND');
+
+    const solo = new SoloAdapter({ cwd: root, backend: 'fake' });
+    const task = await solo.createTask({ title: 'Reserved elsewhere' });
+    await solo.startSession(task.id, 'codex');
+    // `true --version` succeeds, so the harness counts as installed and the run reaches Solo.
+    const conflict = await withEnv({ FLEET_CLAUDE_COMMAND: 'true' }, () =>
+      request('POST', '/api/v1/orchestration/runs', { taskId: task.id }));
+    expect(conflict.status).toBe(409);
+    expect((await conflict.json()).code).toBe('RESERVATION_CONFLICT');
+
+    // Without a `solo` binary every call fails until the circuit opens.
+    const emptyPath = mkdtempSync(join(tmpdir(), 'fleet-routes-path-'));
+    await withEnv({ FLEET_SOLO_BACKEND: 'cli', PATH: emptyPath }, async () => {
+      for (let call = 0; call < 3; call++) {
+        const missing = await request('GET', '/api/v1/orchestration/tasks');
+        expect(missing.status).toBe(503);
+        expect(missing.headers.get('Retry-After')).toBeNull();
+        expect((await missing.json()).code).toBe('SOLO_BINARY_MISSING');
+      }
+
+      const unavailable = await request('GET', '/api/v1/orchestration/tasks');
+      expect(unavailable.status).toBe(503);
+      expect(unavailable.headers.get('Retry-After')).toBe('30');
+      expect((await unavailable.json()).code).toBe('SOLO_UNAVAILABLE');
+    });
+  });
+});
@@ -1,5 +1,26 @@
-import { HarnessRegistry, Orchestrator, SoloAdapter, resolveHarnessRoute } from '@fleettools/core';
-import { findProjectRoot, loadRoutingConfig } from '@fleettools/shared';
+import {
+  Orchestrator,
+  ProjectionStore,
+  RUN_STATS_GROUP_BY,
+  RunCancelError,
+  RunFilterError,
+  SoloAdapter,
+  SoloBinaryMissingError,
+  SoloCommandError,
+  SoloConflictError,
+  SoloNotFoundError,
+  SoloUnavailableError,
+  createHarnessRegistry,
+  explainRoute,
+  followRunLog,
+  readRunContext,
+  resolveHarnessRoute,
+  summarizeHarnessLoad,
+  type HarnessId,
+  type RunStatsGroupBy,
+  type RunStatus,
+} from '@fleettools/core';
+import { findProjectRoot, getSoloAdapterOptions, RoutingConfigWatcher } from '@fleettools/shared';
 
 function jsonResponse(data: unknown, headers: Record<string, string>, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -8,6 +29,32 @@ function jsonResponse(data: unknown, headers: Record<string, string>, status = 2
   });
 }
 
+/**
+ * Maps Solo failures to HTTP statuses; an unreachable Solo is a 503 the client
+ * may retry. An invalid run filter is the client's mistake, a 400.
+ */
+function errorResponse(error: unknown, headers: Record<string, string>): Response {
+  if (error instanceof RunFilterError) {
+    return jsonResponse({ error: error.message }, headers, 400);
+  }
+  if (error instanceof SoloUnavailableError) {
+    return jsonResponse({ error: error.message, code: error.code }, {
+      ...headers,
+      'Retry-After': String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))),
+    }, 503);
+  }
+  if (error instanceof SoloCommandError) {
+    const status = error instanceof SoloBinaryMissingError ? 503
+      : error instanceof SoloNotFoundError ? 404
+        : error instanceof SoloConflictError ? 409
+          : 500;
+    return jsonResponse({ error: error.message, code: error.code }, headers, status);
+  }
+  return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 500);
+}
+
+const SSE_KEEP_ALIVE_MS = 5_000;
+
 function readTaskRef(task: Record<string, unknown>, taskId: string) {
   return {
     taskId,
@@ -24,70 +71,214 @@ function readTaskRef(task: Record<string, unknown>, taskId: string) {
 
 export function registerOrchestrationRoutes(router: any, headers: Record<string, string>): void {
   const projectRoot = findProjectRoot(process.cwd());
+  // Edits to fleet.routing.yaml apply without a restart; an invalid edit is
+  // logged and the last good config keeps serving.
+  const routing = new RoutingConfigWatcher(projectRoot, {
+    onReload: config => console.log(`[Routing] Loaded ${config.filePath ?? 'default routing config'}`),
+    onError: error => console.error(`[Routing] Keeping previous config: ${error.message}`),
+  }).start();
+
+  router.get('/api/v1/orchestration/config', async () => {
+    try {
+      return jsonResponse({ ...routing.state(), config: routing.current() }, headers);
+    } catch (error) {
+      return jsonResponse({ ...routing.state(), error: error instanceof Error ? error.message : String(error) }, headers, 500);
+    }
+  });
 
   router.get('/api/v1/orchestration/tasks', async (req: Request) => {
     try {
       const url = new URL(req.url);
       const limit = Number(url.searchParams.get('limit') ?? '20');
-      const solo = new SoloAdapter({ cwd: projectRoot });
+      const solo = new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) });
       const tasks = await solo.listAvailableTasks(limit);
       return jsonResponse({ tasks }, headers);
     } catch (error) {
-      return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 500);
+      return errorResponse(error, headers);
     }
   });
 
-  router.get('/api/v1/orchestration/tasks/:id/route', async (_req: Request, params: { id: string }) => {
+  // `?explain=true` adds `evaluations`: each rule checked before the match,
+  // with the conditions it failed.
+  router.get('/api/v1/orchestration/tasks/:id/route', async (req: Request, params: { id: string }) => {
     try {
-      const solo = new SoloAdapter({ cwd: projectRoot });
-      const task = await solo.showTask(params.id);
-      const routingConfig = loadRoutingConfig(projectRoot);
-      const decision = resolveHarnessRoute(readTaskRef(task, params.id), routingConfig);
-      return jsonResponse({ task: readTaskRef(task, params.id), decision }, headers);
+      const solo = new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) });
+      const task = readTaskRef(await solo.showTask(params.id), params.id);
+      const routingConfig = routing.current();
+      const load = summarizeHarnessLoad(new ProjectionStore(projectRoot).list());
+      const decision = resolveHarnessRoute(task, routingConfig, load);
+      if (new URL(req.url).searchParams.get('explain') === 'true') {
+        const { evaluations } = explainRoute(task, routingConfig, load);
+        return jsonResponse({ task, decision, evaluations }, headers);
+      }
+      return jsonResponse({ task, decision }, headers);
     } catch (error) {
-      return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 500);
+      return errorResponse(error, headers);
     }
   });
 
   router.get('/api/v1/orchestration/harnesses', async () => {
     try {
-      const registry = new HarnessRegistry();
+      const registry = createHarnessRegistry(routing.current().harnesses);
       const harnesses = await registry.getAvailability();
       return jsonResponse({ harnesses }, headers);
     } catch (error) {
-      return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 500);
+      return errorResponse(error, headers);
     }
   });
 
-  router.get('/api/v1/orchestration/runs', async () => {
+  router.get('/api/v1/orchestration/runs', async (req: Request) => {
     try {
+      const query = new URL(req.url).searchParams;
       const orchestrator = new Orchestrator({
-        solo: new SoloAdapter({ cwd: projectRoot }),
-        routingConfig: loadRoutingConfig(projectRoot),
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: routing.current(),
         projectRoot,
       });
-      return jsonResponse({ runs: orchestrator.listRuns() }, headers);
+      const page = orchestrator.queryRuns({
+        taskId: query.get('taskId') ?? undefined,
+        harness: query.get('harness') ?? undefined,
+        status: query.get('status')?.split(',').map(status => status.trim() as RunStatus),
+        since: query.get('since') ?? undefined,
+        until: query.get('until') ?? undefined,
+        limit: Number(query.get('limit') ?? '50'),
+        offset: Number(query.get('offset') ?? '0'),
+      });
+      return jsonResponse(page, headers);
+    } catch (error) {
+      return errorResponse(error, headers);
+    }
+  });
+
+  router.get('/api/v1/orchestration/runs/stats', async (req: Request) => {
+    try {
+      const query = new URL(req.url).searchParams;
+      const groupBy = query.get('by') ?? 'harness';
+      if (!RUN_STATS_GROUP_BY.includes(groupBy as RunStatsGroupBy)) {
+        return jsonResponse({ error: `by must be one of: ${RUN_STATS_GROUP_BY.join(', ')}` }, headers, 400);
+      }
+
+      const orchestrator = new Orchestrator({
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: routing.current(),
+        projectRoot,
+      });
+      const stats = orchestrator.runStats(groupBy as RunStatsGroupBy, {
+        taskId: query.get('taskId') ?? undefined,
+        harness: query.get('harness') ?? undefined,
+        since: query.get('since') ?? undefined,
+        until: query.get('until') ?? undefined,
+      });
+      return jsonResponse(stats, headers);
     } catch (error) {
-      return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 500);
+      return errorResponse(error, headers);
     }
   });
 
   router.post('/api/v1/orchestration/runs', async (req: Request) => {
     try {
-      const body = await req.json() as { taskId?: string; harness?: 'claude-code' | 'opencode' | 'codex' };
+      const body = await req.json() as {
+        taskId?: string;
+        harness?: HarnessId;
+        chain?: boolean;
+        maxHops?: number;
+        approveFlagged?: boolean;
+      };
       if (!body.taskId) {
         return jsonResponse({ error: 'taskId is required' }, headers, 400);
       }
 
       const orchestrator = new Orchestrator({
-        solo: new SoloAdapter({ cwd: projectRoot }),
-        routingConfig: loadRoutingConfig(projectRoot),
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: routing.current(),
         projectRoot,
       });
-      const run = await orchestrator.runTask(body.taskId, { harnessOverride: body.harness });
+      const run = await orchestrator.runTask(body.taskId, {
+        harnessOverride: body.harness,
+        chain: body.chain,
+        maxHops: body.maxHops,
+        approveFlagged: body.approveFlagged === true,
+      });
       return jsonResponse({ run }, headers, 201);
     } catch (error) {
-      return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 500);
+      return errorResponse(error, headers);
+    }
+  });
+
+  router.delete('/api/v1/orchestration/runs/:id', async (req: Request, params: { id: string }) => {
+    try {
+      const grace = new URL(req.url).searchParams.get('graceMs');
+      const orchestrator = new Orchestrator({
+        solo: new SoloAdapter({ cwd: projectRoot, ...getSoloAdapterOptions(projectRoot) }),
+        routingConfig: routing.current(),
+        projectRoot,
+      });
+      const run = await orchestrator.cancelRun(params.id, { graceMs: grace ? Number(grace) : undefined });
+      return jsonResponse({ run }, headers);
+    } catch (error) {
+      if (error instanceof RunCancelError) {
+        const status = error.code === 'RUN_NOT_FOUND' ? 404 : error.code === 'RUN_FINISHED' ? 409 : 504;
+        return jsonResponse({ error: error.message, code: error.code }, headers, status);
+      }
+      return errorResponse(error, headers);
     }
   });
+
+  router.get('/api/v1/orchestration/runs/:id/context', async (_req: Request, params: { id: string }) => {
+    const context = readRunContext(projectRoot, params.id);
+    if (!context) {
+      return jsonResponse({ error: `No assembled context recorded for run ${params.id}` }, headers, 404);
+    }
+    return jsonResponse({ runId: params.id, context }, headers);
+  });
+
+  // Server-sent events: `log` events carry `{ chunk }` as output is appended,
+  // then a single `end` (or `error`) event closes the stream. Pass
+  // `?follow=false` to receive only the output captured so far.
+  router.get('/api/v1/orchestration/runs/:id/logs', async (req: Request, params: { id: string }) => {
+    if (!new ProjectionStore(projectRoot).get(params.id)) {
+      return jsonResponse({ error: `Run not found: ${params.id}` }, headers, 404);
+    }
+
+    const follow = new URL(req.url).searchParams.get('follow') !== 'false';
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    req.signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (text: string) => {
+          if (!abort.signal.aborted) controller.enqueue(encoder.encode(text));
+        };
+        const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        const keepAlive = setInterval(() => write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+
+        try {
+          await followRunLog(projectRoot, params.id, {
+            follow,
+            signal: abort.signal,
+            onChunk: chunk => send('log', { chunk }),
+          });
+          send('end', { runId: params.id });
+        } catch (error) {
+          send('error', { error: error instanceof Error ? error.message : String(error) });
+        } finally {
+          clearInterval(keepAlive);
+          if (!abort.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  });
 }